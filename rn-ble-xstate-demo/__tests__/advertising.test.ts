@@ -0,0 +1,195 @@
+import {
+  decodeAdvertising,
+  decodeEddystone,
+  decodeIBeacon,
+  parseAdStructures,
+  parseAdvertisement,
+} from '@/app/bluetooth/advertising';
+import { utf8Codec } from '@/app/bluetooth/profiles';
+
+const bytes = (hex: string) => (hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+const adStructure = (type: number, data: number[]) => [data.length + 1, type, ...data];
+
+const IBEACON_UUID = 'E2C56DB5-DFFB-48D2-B060-D0F5A71096E0';
+const iBeaconData = [0x02, 0x15, ...bytes(IBEACON_UUID.replace(/-/g, '')), 0, 1, 0x01, 0x02, 0xc5];
+
+describe('parseAdStructures', () => {
+  it('splits length-type-value entries and stops at zero padding', () => {
+    expect(parseAdStructures([2, 0x01, 0x06, 3, 0x09, 0x41, 0x42, 0, 0, 0])).toEqual([
+      { type: 0x01, data: [0x06] },
+      { type: 0x09, data: [0x41, 0x42] },
+    ]);
+  });
+
+  it('drops a structure that runs past the end', () => {
+    expect(parseAdStructures([2, 0x01, 0x06, 9, 0x09, 0x41])).toEqual([
+      { type: 0x01, data: [0x06] },
+    ]);
+  });
+});
+
+describe('parseAdvertisement', () => {
+  it('decodes flags, name, TX power, service UUIDs, service data and manufacturer data', () => {
+    const advertisement = parseAdvertisement([
+      ...adStructure(0x01, [0x06]),
+      ...adStructure(0x08, utf8Codec.encode!('Therm')),
+      ...adStructure(0x09, utf8Codec.encode!('Thermometer')),
+      ...adStructure(0x0a, [0xf4]),
+      ...adStructure(0x03, [0x0d, 0x18, 0x0f, 0x18]),
+      ...adStructure(0x07, bytes('9ecadc240ee5a9e093f3a3b50100406e')),
+      ...adStructure(0x16, [0x0f, 0x18, 0x55]),
+      ...adStructure(0xff, [0x59, 0x00, 0xaa, 0xbb]),
+      ...adStructure(0x42, [1, 2, 3]),
+    ]);
+
+    expect(advertisement).toEqual({
+      flags: {
+        limitedDiscoverable: false,
+        generalDiscoverable: true,
+        brEdrNotSupported: true,
+        leBrEdrController: false,
+        leBrEdrHost: false,
+        raw: 0x06,
+      },
+      localName: 'Thermometer',
+      txPower: -12,
+      serviceUUIDs: [
+        '0000180d-0000-1000-8000-00805f9b34fb',
+        '0000180f-0000-1000-8000-00805f9b34fb',
+        '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+      ],
+      serviceData: [{ uuid: '0000180f-0000-1000-8000-00805f9b34fb', data: [0x55] }],
+      manufacturerData: [
+        { companyId: 0x0059, companyName: 'Nordic Semiconductor', data: [0xaa, 0xbb] },
+      ],
+      beacons: [],
+    });
+  });
+
+  it('falls back to the shortened name', () => {
+    expect(parseAdvertisement(adStructure(0x08, utf8Codec.encode!('Therm'))).localName).toBe(
+      'Therm'
+    );
+  });
+
+  it('finds iBeacons and Eddystone frames', () => {
+    const advertisement = parseAdvertisement([
+      ...adStructure(0xff, [0x4c, 0x00, ...iBeaconData]),
+      ...adStructure(0x16, [0xaa, 0xfe, 0x10, 0xeb, 0x03, ...utf8Codec.encode!('example'), 0x07]),
+    ]);
+
+    expect(advertisement.manufacturerData[0].companyName).toBe('Apple');
+    expect(advertisement.beacons.map((beacon) => beacon.type)).toEqual(['iBeacon', 'eddystoneUrl']);
+  });
+});
+
+describe('decodeIBeacon', () => {
+  it('reads the proximity UUID, major, minor and measured power', () => {
+    expect(decodeIBeacon({ companyId: 0x004c, companyName: 'Apple', data: iBeaconData })).toEqual({
+      type: 'iBeacon',
+      uuid: IBEACON_UUID,
+      major: 1,
+      minor: 258,
+      measuredPower: -59,
+    });
+  });
+
+  it('ignores other Apple and non-Apple manufacturer data', () => {
+    expect(
+      decodeIBeacon({ companyId: 0x004c, companyName: 'Apple', data: [0x10, 0x05, 1] })
+    ).toBeNull();
+    expect(decodeIBeacon({ companyId: 0x0059, companyName: null, data: iBeaconData })).toBeNull();
+  });
+});
+
+describe('decodeEddystone', () => {
+  it('reads UID frames', () => {
+    const frame = [0x00, 0xee, ...bytes('00112233445566778899aabbccddeeff'), 0, 0];
+    expect(decodeEddystone(frame)).toEqual({
+      type: 'eddystoneUid',
+      txPower: -18,
+      namespace: '00112233445566778899',
+      instance: 'aabbccddeeff',
+    });
+  });
+
+  it('expands URL schemes and suffixes', () => {
+    const frame = [0x10, 0xeb, 0x01, ...utf8Codec.encode!('google'), 0x00, 0x61];
+    expect(decodeEddystone(frame)).toEqual({
+      type: 'eddystoneUrl',
+      txPower: -21,
+      url: 'https://www.google.com/a',
+    });
+  });
+
+  it('reads unencrypted TLM frames', () => {
+    expect(decodeEddystone(bytes('20000bb81880000003e8000004b0'))).toEqual({
+      type: 'eddystoneTlm',
+      batteryVoltage: 3000,
+      temperature: 24.5,
+      advertisementCount: 1000,
+      uptime: 120,
+    });
+    expect(decodeEddystone(bytes('200000008000000000010000000a'))).toMatchObject({
+      batteryVoltage: null,
+      temperature: null,
+    });
+  });
+
+  it('ignores unknown, encrypted and truncated frames', () => {
+    expect(decodeEddystone([0x30, 0x00])).toBeNull();
+    expect(decodeEddystone(bytes('2001000000000000000000000000'))).toBeNull();
+    expect(decodeEddystone([0x00, 0xee, 1, 2])).toBeNull();
+  });
+});
+
+describe('decodeAdvertising', () => {
+  it('prefers the raw bytes', () => {
+    const raw = [...adStructure(0x01, [0x06]), ...adStructure(0x09, utf8Codec.encode!('Raw'))];
+    const advertisement = decodeAdvertising({
+      localName: 'Pre-parsed',
+      rawData: { CDVType: 'ArrayBuffer', bytes: raw, data: '' },
+    });
+
+    expect(advertisement.localName).toBe('Raw');
+    expect(advertisement.flags?.generalDiscoverable).toBe(true);
+  });
+
+  it('uses the fields the platform pre-parsed when there are no raw bytes', () => {
+    const advertisement = decodeAdvertising({
+      localName: 'Beacon',
+      txPowerLevel: 4,
+      serviceUUIDs: ['FEAA'],
+      serviceData: {
+        feaa: { CDVType: 'ArrayBuffer', bytes: [0x10, 0xeb, 0x03, 0x61, 0x07], data: '' },
+      },
+      manufacturerData: {
+        '004c': { CDVType: 'ArrayBuffer', bytes: iBeaconData, data: '' },
+      },
+    });
+
+    expect(advertisement).toMatchObject({
+      flags: null,
+      localName: 'Beacon',
+      txPower: 4,
+      serviceUUIDs: ['0000feaa-0000-1000-8000-00805f9b34fb'],
+      manufacturerData: [{ companyId: 0x004c, companyName: 'Apple' }],
+    });
+    expect(advertisement.beacons).toEqual([
+      expect.objectContaining({ type: 'iBeacon', major: 1 }),
+      { type: 'eddystoneUrl', txPower: -21, url: 'https://a.com' },
+    ]);
+  });
+
+  it('returns an empty advertisement for stored devices', () => {
+    expect(decodeAdvertising({})).toEqual({
+      flags: null,
+      localName: null,
+      txPower: null,
+      serviceUUIDs: [],
+      serviceData: [],
+      manufacturerData: [],
+      beacons: [],
+    });
+  });
+});
@@ -0,0 +1,2328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import {
+  AnyStateMachine,
+  createActor,
+  fromPromise,
+  Snapshot,
+  SnapshotFrom,
+  StateValue,
+  waitFor,
+} from 'xstate';
+import { getStateNodes } from 'xstate/graph';
+import { decodeAdvertising } from '@/app/bluetooth/advertising';
+import {
+  BUTTON_CHARACTERISTIC_UUID,
+  KNOWN_DEVICES_KEY,
+  LBS_SERVICE_UUID,
+  LED_CHARACTERISTIC_UUID,
+  NUS_RX_CHARACTERISTIC_UUID,
+  NUS_SERVICE_UUID,
+  NUS_TX_CHARACTERISTIC_UUID,
+  STORAGE_KEY,
+} from '@/app/bluetooth/constants';
+import {
+  BlePermissions,
+  createSimulatedPermissions,
+  SimulatedPermissions,
+} from '@/app/bluetooth/permissions';
+import {
+  BleMachineInput,
+  bleMachine,
+  characteristicKey,
+  createBleActors,
+  createDeviceActors,
+  createKnownDevice,
+  createTerminalActors,
+  deviceMachine,
+  KnownDevice,
+  PermissionsActorRef,
+  permissionsMachine,
+  PersistedBleSnapshot,
+  PersistedBleState,
+  pickPersistedState,
+  rehydrateBleSnapshot,
+  selectConfirmedValue,
+  selectIsValuePending,
+  selectRssi,
+  selectRssiHistory,
+  TerminalActorRef,
+  terminalMachine,
+} from '@/app/bluetooth/state-machine';
+import {
+  BATTERY_LEVEL_UUID,
+  BATTERY_SERVICE_UUID,
+  DEFAULT_PROFILES,
+  DeviceProfile,
+  HEART_RATE_SERVICE_UUID,
+  lengthPrefixedFraming,
+  RESET_ENERGY_EXPENDED,
+  utf8Codec,
+} from '@/app/bluetooth/profiles';
+import {
+  createBatteryService,
+  createButtonlessDfuService,
+  createDeviceInformationService,
+  createNusService,
+  createSimulatedHeartRatePeripheral,
+  createSimulatedLbsPeripheral,
+  createSimulatedBootloader,
+  createSimulatedPeripheral,
+  createSimulatedTransport,
+  SimulatedBootloader,
+  SimulatedLbsPeripheral,
+  SimulatedTransport,
+} from '@/app/bluetooth/transport';
+
+type DeviceSnapshot = SnapshotFrom<typeof deviceMachine>;
+
+const coveredMachines = [bleMachine, deviceMachine, terminalMachine, permissionsMachine];
+
+type StatePaths = Record<string, Set<string>>;
+
+const emptyStatePaths = (): StatePaths =>
+  Object.fromEntries(coveredMachines.map((machine) => [machine.id, new Set<string>()]));
+
+// State node paths tests declare they reach, per machine - collected as the file loads, so the
+// check against the machine definitions at the end holds for any filter or order
+const declared = emptyStatePaths();
+// State node paths the running test has visited
+let visited = emptyStatePaths();
+
+const toStateValue = (path: string[]): StateValue =>
+  path.length === 1 ? path[0] : { [path[0]]: toStateValue(path.slice(1)) };
+
+const recordVisits = (machine: AnyStateMachine, snapshot: SnapshotFrom<AnyStateMachine>) => {
+  getStateNodes(machine.root)
+    .filter((node) => node.path.length > 0 && snapshot.matches(toStateValue(node.path)))
+    .forEach((node) => visited[machine.id].add(node.path.join('.')));
+};
+
+/**
+ * Test body that must reach the given state nodes - a leaf path covers its ancestors
+ */
+const reaching = (states: Record<string, string[]>, test: () => unknown) => {
+  Object.entries(states).forEach(([id, paths]) => paths.forEach((path) => declared[id].add(path)));
+  return async () => {
+    await test();
+    Object.entries(states).forEach(([id, paths]) =>
+      expect(paths.filter((path) => !visited[id].has(path))).toEqual([])
+    );
+  };
+};
+let transport: SimulatedTransport;
+let peripheral: SimulatedLbsPeripheral;
+let actors: { stop: () => void }[] = [];
+
+type DeviceActors = Parameters<typeof deviceMachine.provide>[0]['actors'];
+type BleActors = Parameters<typeof bleMachine.provide>[0]['actors'];
+
+type MachineOptions = {
+  device?: DeviceActors;
+  ble?: BleActors;
+  input?: BleMachineInput;
+  profiles?: DeviceProfile[];
+  permissions?: BlePermissions;
+};
+
+const provideMachine = (options: MachineOptions) =>
+  bleMachine.provide({
+    actors: {
+      ...createBleActors(
+        transport,
+        options.profiles,
+        options.permissions ?? createSimulatedPermissions()
+      ),
+      deviceConnection: deviceMachine.provide({
+        actors: {
+          ...createDeviceActors(transport, options.profiles),
+          terminal: terminalMachine.provide({ actors: createTerminalActors(transport) }),
+          ...options.device,
+        },
+      }),
+      ...options.ble,
+    },
+  });
+
+function startMachine(options: MachineOptions & { snapshot?: PersistedBleSnapshot } = {}) {
+  const actor = createActor(provideMachine(options), {
+    input: options.input ?? {},
+    snapshot: options.snapshot,
+    inspect: (event) => {
+      if (event.type !== '@xstate.snapshot') return;
+      const snapshot = event.snapshot as Snapshot<unknown> & { machine?: AnyStateMachine };
+      if (snapshot.machine && snapshot.machine.id in visited) {
+        recordVisits(snapshot.machine, snapshot as SnapshotFrom<AnyStateMachine>);
+      }
+    },
+  });
+  actors.push(actor);
+  actor.start();
+  return actor;
+}
+
+type BleActor = ReturnType<typeof startMachine>;
+
+const deviceOf = (actor: BleActor, deviceId = peripheral.id) =>
+  actor.getSnapshot().context.devices[deviceId];
+
+const waitForDevice = (
+  actor: BleActor,
+  predicate: (snapshot: DeviceSnapshot) => boolean,
+  deviceId = peripheral.id
+) => waitFor(deviceOf(actor, deviceId), predicate);
+
+async function discover(actor: BleActor) {
+  actor.send({ type: 'START' });
+  await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+}
+
+async function connect(actor: BleActor, target: SimulatedLbsPeripheral = peripheral) {
+  if (actor.getSnapshot().matches('idle')) {
+    await discover(actor);
+  }
+  actor.send({ type: 'SELECT_DEVICE', deviceId: target.id, deviceName: target.name });
+  return waitForDevice(actor, (s) => s.matches({ connected: 'ready' }), target.id);
+}
+
+const permissionsOf = (actor: BleActor) =>
+  actor.getSnapshot().children.permissions as PermissionsActorRef;
+
+const terminalOf = (actor: BleActor, deviceId = peripheral.id) =>
+  deviceOf(actor, deviceId).getSnapshot().children.terminal as TerminalActorRef;
+
+const buttonOf = (snapshot: DeviceSnapshot) => snapshot.context.values.lbs?.button;
+const ledOf = (snapshot: DeviceSnapshot) => snapshot.context.values.lbs?.led;
+
+const readButton = (deviceId: string) =>
+  ({ type: 'READ_VALUE', deviceId, profileId: 'lbs', key: 'button' }) as const;
+const writeLed = (deviceId: string, value: boolean) =>
+  ({ type: 'WRITE_VALUE', deviceId, profileId: 'lbs', key: 'led', value }) as const;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const storedKnownDevices = async (): Promise<KnownDevice[]> =>
+  JSON.parse((await AsyncStorage.getItem(KNOWN_DEVICES_KEY))!).data;
+
+// Never settles - keeps the machine parked in the invoking state
+const hang = <TOutput, TInput>() =>
+  fromPromise<TOutput, TInput>(() => new Promise<TOutput>(() => {}));
+
+beforeEach(async () => {
+  visited = emptyStatePaths();
+  await AsyncStorage.clear();
+  peripheral = createSimulatedLbsPeripheral();
+  transport = createSimulatedTransport({ peripherals: [peripheral] });
+});
+
+afterEach(async () => {
+  actors.forEach((actor) => actor.stop());
+  actors = [];
+  // Scans outlive the machine, as on a phone
+  await transport.stopScan();
+});
+
+describe('bleMachine', () => {
+  describe('startup', () => {
+    it(
+      'starts idle',
+      reaching({ bleMachine: ['idle'] }, () => {
+        const actor = startMachine();
+        expect(actor.getSnapshot().value).toBe('idle');
+      })
+    );
+
+    it(
+      'scans and collects discovered devices when no device is stored',
+      reaching(
+        {
+          bleMachine: ['permissions', 'init', 'scanning.starting', 'scanning.active'],
+          permissions: ['checking', 'granted'],
+        },
+        async () => {
+          const actor = startMachine();
+          actor.send({ type: 'START' });
+          expect(actor.getSnapshot().value).toBe('permissions');
+
+          const snapshot = await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+          expect(snapshot.matches('scanning')).toBe(true);
+          expect(snapshot.context.discoveredDevices.map((d) => d.id)).toEqual([peripheral.id]);
+        }
+      )
+    );
+
+    it('connects straight to the stored device', async () => {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ id: peripheral.id, name: 'Bench' }));
+      const actor = startMachine({ device: { connectToDevice: hang() } });
+      actor.send({ type: 'START' });
+
+      const snapshot = await waitFor(actor, (s) => s.matches('ready'));
+      const device = snapshot.context.devices[peripheral.id].getSnapshot();
+      expect(device.value).toEqual({ connecting: 'linking' });
+      expect(device.context.deviceName).toBe('Bench');
+    });
+
+    it('treats a bare stored value as a legacy device id', async () => {
+      await AsyncStorage.setItem(STORAGE_KEY, peripheral.id);
+      const actor = startMachine();
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('ready'));
+
+      const device = await waitForDevice(actor, (s) => s.matches('connected'));
+      expect(device.context.deviceName).toBeNull();
+    });
+
+    it('waits for Bluetooth when initialization fails and retries after 2 seconds', async () => {
+      jest.useFakeTimers();
+      try {
+        transport.failNext('start', new Error('BLE stack unavailable'));
+        const actor = startMachine();
+        actor.send({ type: 'START' });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(actor.getSnapshot().value).toBe('waitingForBluetooth');
+        expect(actor.getSnapshot().context.error).toBe('BLE stack unavailable');
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(actor.getSnapshot().matches('scanning')).toBe(true);
+        expect(actor.getSnapshot().context.error).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('restarts initialization on START while waiting for Bluetooth', async () => {
+      transport.failNext('start', new Error('BLE stack unavailable'));
+      const actor = startMachine();
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('waitingForBluetooth'));
+
+      actor.send({ type: 'START' });
+      expect(actor.getSnapshot().value).toBe('init');
+      expect(actor.getSnapshot().context.error).toBeNull();
+    });
+
+    it('re-enters init on START while initializing', async () => {
+      const actor = startMachine({ ble: { initializeBle: hang() } });
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('init'));
+      actor.send({ type: 'START' });
+      expect(actor.getSnapshot().value).toBe('init');
+    });
+  });
+
+  describe('permissions', () => {
+    let permissions: SimulatedPermissions;
+
+    const startAsking = async (options: Parameters<typeof createSimulatedPermissions>[0]) => {
+      permissions = createSimulatedPermissions(options);
+      const actor = startMachine({ permissions });
+      actor.send({ type: 'START' });
+      await waitFor(permissionsOf(actor), (s) => !s.matches('checking'));
+      return actor;
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('skips the prompt when permissions are already granted', async () => {
+      const actor = await startAsking({ status: 'granted' });
+
+      await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+      expect(permissions.requests).toBe(0);
+      expect(actor.getSnapshot().children.permissions).toBeUndefined();
+    });
+
+    it(
+      'explains why before prompting and initializes once granted',
+      reaching({ permissions: ['rationale', 'requesting'] }, async () => {
+        const actor = await startAsking({ status: 'undetermined' });
+        expect(permissionsOf(actor).getSnapshot().value).toBe('rationale');
+        expect(permissions.requests).toBe(0);
+
+        actor.send({ type: 'REQUEST_PERMISSIONS' });
+        expect(permissionsOf(actor).getSnapshot().value).toBe('requesting');
+        await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+        expect(permissions.requests).toBe(1);
+      })
+    );
+
+    it(
+      'asks again after a denial',
+      reaching({ permissions: ['denied'] }, async () => {
+        const actor = await startAsking({ status: 'undetermined', answers: ['denied'] });
+        actor.send({ type: 'REQUEST_PERMISSIONS' });
+
+        const denied = await waitFor(permissionsOf(actor), (s) => s.matches('denied'));
+        expect(denied.context.status).toBe('denied');
+        expect(actor.getSnapshot().value).toBe('permissions');
+
+        actor.send({ type: 'REQUEST_PERMISSIONS' });
+        await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+        expect(permissions.requests).toBe(2);
+      })
+    );
+
+    it(
+      'sends a blocked user to settings and checks again when the app returns',
+      reaching({ permissions: ['blocked.waiting', 'blocked.openingSettings'] }, async () => {
+        let onAppStateChange: (state: AppStateStatus) => void = () => {};
+        jest.spyOn(AppState, 'addEventListener').mockImplementation((_, listener) => {
+          onAppStateChange = listener;
+          return { remove: jest.fn() };
+        });
+        const actor = await startAsking({ status: 'undetermined', answers: ['blocked'] });
+        actor.send({ type: 'REQUEST_PERMISSIONS' });
+        await waitFor(permissionsOf(actor), (s) => s.matches({ blocked: 'waiting' }));
+
+        actor.send({ type: 'OPEN_SETTINGS' });
+        expect(permissionsOf(actor).getSnapshot().value).toEqual({ blocked: 'openingSettings' });
+        await waitFor(permissionsOf(actor), (s) => s.matches({ blocked: 'waiting' }));
+        expect(permissions.settingsOpened).toBe(1);
+
+        permissions.status = 'granted';
+        onAppStateChange('active');
+        await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+      })
+    );
+
+    it('goes straight to settings when permissions are already blocked', async () => {
+      const actor = await startAsking({ status: 'blocked' });
+      expect(permissionsOf(actor).getSnapshot().value).toEqual({ blocked: 'waiting' });
+
+      actor.send({ type: 'CHECK_PERMISSIONS' });
+      expect(permissionsOf(actor).getSnapshot().value).toBe('checking');
+      await waitFor(permissionsOf(actor), (s) => s.matches({ blocked: 'waiting' }));
+      expect(permissions.requests).toBe(0);
+    });
+
+    it('explains and asks when the status check never answers', async () => {
+      permissions = createSimulatedPermissions();
+      permissions.check = () => new Promise(() => {});
+      const actor = startMachine({ permissions, input: { timeouts: { permissions: 5 } } });
+      actor.send({ type: 'START' });
+
+      const rationale = await waitFor(permissionsOf(actor), (s) => s.matches('rationale'));
+      expect(rationale.context.error).toBe('Permission check timed out after 5 ms');
+
+      actor.send({ type: 'REQUEST_PERMISSIONS' });
+      await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+    });
+
+    it('explains and asks when the status cannot be read', async () => {
+      permissions = createSimulatedPermissions();
+      permissions.check = async () => {
+        throw new Error('Permission service unavailable');
+      };
+      const actor = startMachine({ permissions });
+      actor.send({ type: 'START' });
+
+      const rationale = await waitFor(permissionsOf(actor), (s) => s.matches('rationale'));
+      expect(rationale.context.error).toBe('Permission service unavailable');
+
+      actor.send({ type: 'REQUEST_PERMISSIONS' });
+      expect(permissionsOf(actor).getSnapshot().context.error).toBeNull();
+      await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+    });
+
+    it('restarts the check on START', async () => {
+      const actor = await startAsking({ status: 'undetermined' });
+      permissions.status = 'granted';
+
+      actor.send({ type: 'START' });
+      expect(permissionsOf(actor).getSnapshot().value).toBe('checking');
+      await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+      expect(permissions.requests).toBe(0);
+    });
+  });
+
+  describe('Bluetooth adapter', () => {
+    it('only records adapter changes while idle', () => {
+      const actor = startMachine();
+      transport.setAdapterState('off');
+
+      expect(actor.getSnapshot().value).toBe('idle');
+      expect(actor.getSnapshot().context.adapterState).toBe('off');
+    });
+
+    it('waits for the adapter when the user refuses to turn Bluetooth on', async () => {
+      Platform.OS = 'android';
+      transport.adapterState = 'off';
+      transport.failNext('enableBluetooth', new Error('User refused to enable'));
+      const enableBluetooth = jest.spyOn(transport, 'enableBluetooth');
+      const actor = startMachine();
+      actor.send({ type: 'START' });
+
+      try {
+        await waitFor(actor, (s) => s.matches({ bluetoothOff: 'off' }));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'off' });
+        expect(enableBluetooth).toHaveBeenCalledTimes(1);
+      } finally {
+        Platform.OS = 'ios';
+      }
+    });
+
+    it(
+      'waits for the adapter instead of polling when it is off at startup',
+      reaching({ bleMachine: ['bluetoothOff.off'] }, async () => {
+        transport.adapterState = 'off';
+        const start = jest.spyOn(transport, 'start');
+        const actor = startMachine();
+        actor.send({ type: 'START' });
+
+        await waitFor(actor, (s) => s.matches({ bluetoothOff: 'off' }));
+        expect(actor.getSnapshot().context.error).toBeNull();
+        expect(start).toHaveBeenCalledTimes(1);
+
+        transport.setAdapterState('on');
+        expect(actor.getSnapshot().value).toBe('init');
+        await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+        expect(start).toHaveBeenCalledTimes(2);
+      })
+    );
+
+    it(
+      'tells resetting, unauthorized and unsupported adapters apart',
+      reaching(
+        {
+          bleMachine: [
+            'bluetoothOff.resetting',
+            'bluetoothOff.unauthorized',
+            'bluetoothOff.unsupported',
+          ],
+        },
+        async () => {
+          const actor = startMachine();
+          await discover(actor);
+
+          transport.setAdapterState('resetting');
+          expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'resetting' });
+          transport.setAdapterState('unauthorized');
+          expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'unauthorized' });
+          transport.setAdapterState('unsupported');
+          expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'unsupported' });
+          transport.setAdapterState('turning_on');
+          expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'unsupported' });
+          expect(actor.getSnapshot().context.adapterState).toBe('turning_on');
+          transport.setAdapterState('turning_off');
+          expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'off' });
+        }
+      )
+    );
+
+    it('resumes an interrupted scan when the adapter comes back on', async () => {
+      const actor = startMachine();
+      await discover(actor);
+
+      transport.setAdapterState('off');
+      expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'off' });
+      expect(transport.scanning).toBe(false);
+
+      transport.setAdapterState('on');
+      expect(actor.getSnapshot().matches('scanning')).toBe(true);
+      await waitFor(actor, (s) => s.context.discoveredDevices.length > 0);
+    });
+
+    it('keeps the results of a completed scan', async () => {
+      const actor = startMachine({ input: { scanSettings: { duration: 0 } } });
+      await discover(actor);
+      actor.send({ type: 'STOP_SCAN' });
+      await waitFor(actor, (s) => s.matches('scanComplete'));
+
+      transport.setAdapterState('off');
+      transport.setAdapterState('on');
+      expect(actor.getSnapshot().value).toBe('scanComplete');
+      expect(actor.getSnapshot().context.discoveredDevices).toHaveLength(1);
+    });
+
+    it('suspends connections while Bluetooth is off and reconnects them after', async () => {
+      const actor = startMachine();
+      await connect(actor);
+
+      transport.setAdapterState('off');
+      expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'off' });
+      expect(actor.getSnapshot().context.devices).toEqual({});
+      expect(actor.getSnapshot().context.suspendedDevices).toEqual([
+        { id: peripheral.id, name: peripheral.name },
+      ]);
+
+      transport.setAdapterState('on');
+      expect(actor.getSnapshot().value).toBe('ready');
+      expect(actor.getSnapshot().context.suspendedDevices).toEqual([]);
+      const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+      expect(device.context.deviceName).toBe(peripheral.name);
+    });
+  });
+
+  describe('scanning', () => {
+    it('returns to init when the scan fails', async () => {
+      transport.failNext('scan', new Error('Scan throttled'));
+      const actor = startMachine();
+      actor.send({ type: 'START' });
+
+      await waitFor(actor, (s) => s.context.error === 'Scan throttled');
+    });
+
+    it('clears discovered devices when the scan restarts', async () => {
+      const actor = startMachine();
+      await discover(actor);
+
+      actor.send({ type: 'SCAN' });
+      expect(actor.getSnapshot().context.discoveredDevices).toEqual([]);
+    });
+
+    it('keeps the advertisement of discovered devices for decoding', async () => {
+      peripheral = createSimulatedLbsPeripheral({
+        advertisingData: [2, 0x01, 0x06, 5, 0xff, 0x59, 0x00, 0x01, 0x02],
+      });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+      await discover(actor);
+
+      const [discovered] = actor.getSnapshot().context.discoveredDevices;
+      expect(decodeAdvertising(discovered.advertising)).toMatchObject({
+        flags: { generalDiscoverable: true, brEdrNotSupported: true },
+        manufacturerData: [
+          { companyId: 0x0059, companyName: 'Nordic Semiconductor', data: [1, 2] },
+        ],
+      });
+    });
+
+    it('spawns a connection and goes to ready on SELECT_DEVICE', async () => {
+      const actor = startMachine({ device: { connectToDevice: hang() } });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      expect(actor.getSnapshot().value).toBe('ready');
+      expect(deviceOf(actor).getSnapshot().value).toEqual({ connecting: 'linking' });
+    });
+
+    it('scans with the configured settings', async () => {
+      const other = createSimulatedPeripheral({ id: 'SIM-OTHER', services: [] });
+      transport.addPeripheral(other);
+      const scan = jest.spyOn(transport, 'scan');
+      const actor = startMachine({
+        input: { scanSettings: { duration: 0, filterByProfiles: false, scanMode: 'lowLatency' } },
+      });
+      actor.send({ type: 'START' });
+
+      await waitFor(actor, (s) => s.context.discoveredDevices.length === 2);
+      expect(scan).toHaveBeenCalledWith({
+        serviceUUIDs: [],
+        seconds: 0,
+        allowDuplicates: false,
+        scanMode: 'lowLatency',
+        matchMode: 'aggressive',
+      });
+      expect(transport.scanning).toBe(true);
+    });
+
+    it('applies new scan settings from the next scan', async () => {
+      const scan = jest.spyOn(transport, 'scan');
+      const actor = startMachine();
+      await discover(actor);
+
+      actor.send({ type: 'SET_SCAN_SETTINGS', settings: { allowDuplicates: true } });
+      expect(scan).toHaveBeenLastCalledWith(expect.objectContaining({ allowDuplicates: false }));
+
+      actor.send({ type: 'SCAN' });
+      await waitFor(actor, (s) => s.matches({ scanning: 'active' }));
+      expect(scan).toHaveBeenLastCalledWith(
+        expect.objectContaining({ allowDuplicates: true, seconds: 10 })
+      );
+    });
+
+    it(
+      'completes when the scan duration runs out and keeps the results',
+      reaching({ bleMachine: ['scanComplete'] }, async () => {
+        const actor = startMachine({ input: { scanSettings: { duration: 0.05 } } });
+        await discover(actor);
+
+        await waitFor(actor, (s) => s.matches('scanComplete'));
+        expect(actor.getSnapshot().context.discoveredDevices.map((d) => d.id)).toEqual([
+          peripheral.id,
+        ]);
+
+        actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+        expect(actor.getSnapshot().value).toBe('ready');
+        await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+      })
+    );
+
+    it(
+      'stops a continuous scan on STOP_SCAN and scans again on SCAN',
+      reaching({ bleMachine: ['scanning.stopping'] }, async () => {
+        const actor = startMachine({ input: { scanSettings: { duration: 0 } } });
+        await discover(actor);
+
+        actor.send({ type: 'STOP_SCAN' });
+        await waitFor(actor, (s) => s.matches('scanComplete'));
+        expect(transport.scanning).toBe(false);
+        expect(actor.getSnapshot().context.discoveredDevices).toHaveLength(1);
+
+        actor.send({ type: 'SCAN' });
+        expect(actor.getSnapshot().matches('scanning')).toBe(true);
+        expect(actor.getSnapshot().context.discoveredDevices).toEqual([]);
+        await waitFor(actor, (s) => s.context.discoveredDevices.length === 1);
+        expect(transport.scanning).toBe(true);
+      })
+    );
+
+    it('tracks repeated advertisements of a device', async () => {
+      const actor = startMachine();
+      await discover(actor);
+      const [first] = actor.getSnapshot().context.discoveredDevices;
+
+      actor.send({ type: 'DEVICE_DISCOVERED', peripheral: { ...peripheral.getInfo(), rssi: -40 } });
+
+      const [device] = actor.getSnapshot().context.discoveredDevices;
+      expect(device).toMatchObject({
+        firstSeen: first.firstSeen,
+        advertisementCount: 2,
+        rssi: -40,
+      });
+      expect(device.lastSeen).toBeGreaterThanOrEqual(first.lastSeen);
+      expect(device.smoothedRssi).toBeGreaterThan(first.smoothedRssi);
+      expect(device.smoothedRssi).toBeLessThan(-40);
+    });
+
+    it('prunes devices that stop advertising', async () => {
+      const actor = startMachine({
+        input: {
+          discoveryPolicy: { staleAfter: 30, pruneInterval: 10 },
+          scanSettings: { allowDuplicates: true },
+        },
+      });
+      await discover(actor);
+
+      await waitFor(actor, (s) => s.context.discoveredDevices.length === 0);
+      expect(actor.getSnapshot().matches('scanning')).toBe(true);
+    });
+
+    it('keeps every device through a long scan that reports each one once', async () => {
+      const actor = startMachine({
+        input: { discoveryPolicy: { staleAfter: 30, pruneInterval: 10 } },
+      });
+      await discover(actor);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(actor.getSnapshot().context.discoveredDevices.map((d) => d.id)).toEqual([
+        peripheral.id,
+      ]);
+    });
+
+    it('completes the scan even when stopping it hangs', async () => {
+      const actor = startMachine({
+        ble: { stopScanning: hang() },
+        input: { timeouts: { scan: 5 }, scanSettings: { duration: 0 } },
+      });
+      await discover(actor);
+
+      actor.send({ type: 'STOP_SCAN' });
+      expect(actor.getSnapshot().value).toEqual({ scanning: 'stopping' });
+      await waitFor(actor, (s) => s.matches('scanComplete'));
+    });
+  });
+
+  describe('connecting', () => {
+    it(
+      'connects, subscribes to the button and remembers the device',
+      reaching(
+        {
+          bleMachine: ['ready'],
+          device: [
+            'connecting.linking',
+            'connecting.discovering',
+            'connecting.negotiating',
+            'connecting.subscribing',
+            'connecting.reading',
+            'connected.ready',
+          ],
+          terminal: ['closed'],
+        },
+        async () => {
+          peripheral = createSimulatedLbsPeripheral({ buttonPressed: true });
+          transport = createSimulatedTransport({ peripherals: [peripheral] });
+          const actor = startMachine();
+
+          const device = await connect(actor);
+          expect(buttonOf(device)).toBe(true);
+          expect(transport.connectedIds).toEqual([peripheral.id]);
+          expect(transport.scanning).toBe(false);
+          expect(await storedKnownDevices()).toEqual([
+            expect.objectContaining({
+              id: peripheral.id,
+              name: peripheral.name,
+              connectionCount: 1,
+            }),
+          ]);
+        }
+      )
+    );
+
+    it('reads the LED state instead of assuming it is off', async () => {
+      peripheral = createSimulatedLbsPeripheral({ ledOn: true });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+
+      const device = await connect(actor);
+      expect(ledOf(device)).toBe(true);
+      actor.send(writeLed(peripheral.id, false));
+      await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(peripheral.ledOn).toBe(false);
+    });
+
+    it('assumes the LED is off when it cannot be read', async () => {
+      peripheral = createSimulatedLbsPeripheral({ ledOn: true });
+      peripheral.findCharacteristic(LBS_SERVICE_UUID, LED_CHARACTERISTIC_UUID).properties = [
+        'Write',
+      ];
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const read = jest.spyOn(transport, 'read');
+      const actor = startMachine();
+
+      const device = await connect(actor);
+      expect(ledOf(device)).toBe(false);
+      expect(read).not.toHaveBeenCalledWith(
+        peripheral.id,
+        LBS_SERVICE_UUID,
+        LED_CHARACTERISTIC_UUID
+      );
+    });
+
+    it(
+      'removes the device and scans again when the connection fails',
+      reaching({ device: ['connecting.aborting', 'closed'] }, async () => {
+        transport.failNext('connect', new Error('GATT 133'));
+        const actor = startMachine();
+        await discover(actor);
+        actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+        const snapshot = await waitFor(actor, (s) => s.context.error === 'GATT 133');
+        expect(snapshot.context.devices).toEqual({});
+        expect(snapshot.matches('scanning')).toBe(true);
+      })
+    );
+
+    it('fails when the device matches no profile', async () => {
+      peripheral.services = [];
+      const actor = startMachine();
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      await waitFor(actor, (s) => s.context.error === 'No supported profile found on device');
+    });
+  });
+
+  describe('timeouts', () => {
+    it.each([
+      ['connectToDevice', { connect: 5 }, 'Connect timed out after 5 ms'],
+      ['discoverServices', { discovery: 5 }, 'Service discovery timed out after 5 ms'],
+    ] as const)('closes the connection when %s times out', async (phase, timeouts, error) => {
+      const actor = startMachine({ device: { [phase]: hang() }, input: { timeouts } });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      const snapshot = await waitFor(actor, (s) => s.context.error !== null);
+      expect(snapshot.context.error).toBe(error);
+      expect(snapshot.context.devices).toEqual({});
+      expect(transport.connectedIds).toEqual([]);
+    });
+
+    it.each([
+      ['startNotification', { notification: 5 }, 'Notification setup timed out after 5 ms'],
+      ['read', { read: 5 }, 'Read timed out after 5 ms'],
+    ] as const)('closes the connection when a setup %s times out', async (op, timeouts, error) => {
+      jest.spyOn(transport, op).mockReturnValue(new Promise<never>(() => {}));
+      const actor = startMachine({ input: { timeouts, gattQueuePolicy: { retryDelay: 0 } } });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      const snapshot = await waitFor(actor, (s) => s.context.error !== null);
+      expect(snapshot.context.error).toBe(error);
+      expect(snapshot.context.devices).toEqual({});
+      expect(transport.connectedIds).toEqual([]);
+    });
+
+    it('gives a slow device the read timeout for each setup read, not for all of them', async () => {
+      peripheral = createSimulatedLbsPeripheral({
+        extraServices: [
+          createBatteryService(64),
+          createDeviceInformationService({ manufacturer: 'Nordic', firmwareRevision: '2.1' }),
+        ],
+      });
+      transport = createSimulatedTransport({ peripherals: [peripheral], latency: 10 });
+      const actor = startMachine({ input: { timeouts: { read: 30 } } });
+
+      const device = await connect(actor);
+      expect(device.context.values.battery).toEqual({ level: 64 });
+    });
+
+    it('cancels an in-progress connection on CANCEL', async () => {
+      const actor = startMachine({ device: { discoverServices: hang() } });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+      await waitForDevice(actor, (s) => s.matches({ connecting: 'discovering' }));
+      actor.send({ type: 'CANCEL', deviceId: peripheral.id });
+
+      const snapshot = await waitFor(actor, (s) => s.matches('scanning'));
+      expect(snapshot.context.devices).toEqual({});
+      expect(snapshot.context.error).toBeNull();
+      expect(transport.connectedIds).toEqual([]);
+    });
+
+    it('gives up on a scan that does not start', async () => {
+      const actor = startMachine({
+        ble: { scanForDevices: hang() },
+        input: { timeouts: { scan: 5 } },
+      });
+      actor.send({ type: 'START' });
+
+      const snapshot = await waitFor(actor, (s) => s.context.error !== null);
+      expect(snapshot.context.error).toBe('Scan start timed out after 5 ms');
+    });
+
+    it(
+      'waits for Bluetooth when initialization hangs',
+      reaching({ bleMachine: ['waitingForBluetooth'] }, async () => {
+        const actor = startMachine({
+          ble: { initializeBle: hang() },
+          input: { timeouts: { initialize: 5 } },
+        });
+        actor.send({ type: 'START' });
+
+        const snapshot = await waitFor(actor, (s) => s.matches('waitingForBluetooth'));
+        expect(snapshot.context.error).toBe('Bluetooth initialization timed out after 5 ms');
+      })
+    );
+  });
+
+  describe('connected', () => {
+    it('tracks button notifications', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      peripheral.pressButton();
+      expect(buttonOf(deviceOf(actor).getSnapshot())).toBe(true);
+      peripheral.releaseButton();
+      expect(buttonOf(deviceOf(actor).getSnapshot())).toBe(false);
+    });
+
+    it('writes the LED optimistically', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      expect(ledOf(deviceOf(actor).getSnapshot())).toBe(false);
+      actor.send(writeLed(peripheral.id, true));
+      const pending = deviceOf(actor).getSnapshot();
+      expect(pending.context.gattQueueDepth).toBe(1);
+      expect(ledOf(pending)).toBe(true);
+      expect(selectIsValuePending('lbs', 'led')(pending)).toBe(true);
+      expect(selectConfirmedValue('lbs', 'led')(pending)).toBe(false);
+
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(device.context.pendingWrites).toEqual({});
+      expect(selectIsValuePending('lbs', 'led')(device)).toBe(false);
+      expect(selectConfirmedValue('lbs', 'led')(device)).toBe(true);
+      expect(peripheral.ledWrites).toEqual([true]);
+      expect(peripheral.ledOn).toBe(true);
+    });
+
+    it('rolls back the LED and stays connected when the write fails', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      transport.failNext('write', new Error('Write not permitted'));
+      actor.send(writeLed(peripheral.id, true));
+
+      const device = await waitForDevice(actor, (s) => s.context.operationError !== null);
+      expect(ledOf(device)).toBe(false);
+      expect(device.matches({ connected: 'ready' })).toBe(true);
+      expect(device.context.operationError).toEqual({
+        operation: 'write',
+        profileId: 'lbs',
+        key: 'led',
+        value: true,
+        error: 'Write not permitted',
+      });
+      expect(device.context.error).toBeNull();
+    });
+
+    it('sends the failed operation again on RETRY_OPERATION', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      transport.failNext('write', new Error('Write not permitted'));
+      actor.send(writeLed(peripheral.id, true));
+      await waitForDevice(actor, (s) => s.context.operationError !== null);
+
+      actor.send({ type: 'RETRY_OPERATION', deviceId: peripheral.id });
+      expect(deviceOf(actor).getSnapshot().context.operationError).toBeNull();
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(ledOf(device)).toBe(true);
+      expect(peripheral.ledWrites).toEqual([true]);
+    });
+
+    it('reconnects when a write fails because the link is gone', async () => {
+      const actor = startMachine({ input: { reconnectPolicy: { initialDelay: 60000 } } });
+      await connect(actor);
+      transport.failNext('write', new Error('Device is not connected'));
+      actor.send(writeLed(peripheral.id, true));
+
+      const device = await waitForDevice(actor, (s) => s.matches('reconnecting'));
+      expect(ledOf(device)).toBe(false);
+      expect(device.context.error).toBe('Device is not connected');
+      expect(device.context.operationError).toBeNull();
+    });
+
+    it('reads the button on demand', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      peripheral.findCharacteristic(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID).value = [1];
+      actor.send(readButton(peripheral.id));
+      expect(deviceOf(actor).getSnapshot().context.gattQueueDepth).toBe(1);
+
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(buttonOf(device)).toBe(true);
+    });
+
+    it('records a button read that fails after its retries and stays connected', async () => {
+      const actor = startMachine({ input: { gattQueuePolicy: { retryDelay: 0 } } });
+      await connect(actor);
+      transport.failNext('read', new Error('Read failed'));
+      transport.failNext('read', new Error('Read failed'));
+      transport.failNext('read', new Error('Read failed'));
+      actor.send(readButton(peripheral.id));
+
+      const device = await waitForDevice(actor, (s) => s.context.operationError !== null);
+      expect(device.context.operationError).toEqual({
+        operation: 'read',
+        profileId: 'lbs',
+        key: 'button',
+        error: 'Read failed',
+      });
+      expect(device.matches({ connected: 'ready' })).toBe(true);
+
+      actor.send(readButton(peripheral.id));
+      expect(deviceOf(actor).getSnapshot().context.operationError).toBeNull();
+    });
+
+    it('reconnects when a read fails because the link is gone', async () => {
+      const actor = startMachine({ input: { reconnectPolicy: { initialDelay: 60000 } } });
+      await connect(actor);
+      transport.failNext('read', new Error('Connection lost'));
+      transport.failNext('read', new Error('Connection lost'));
+      transport.failNext('read', new Error('Connection lost'));
+      actor.send(readButton(peripheral.id));
+
+      const device = await waitForDevice(actor, (s) => s.matches('reconnecting'));
+      expect(device.context.error).toBe('Connection lost');
+    });
+
+    it(
+      'starts reconnecting to the same device when the connection is lost',
+      reaching({ device: ['reconnecting.waiting'] }, async () => {
+        const actor = startMachine();
+        await connect(actor);
+        transport.dropConnection(peripheral.id);
+
+        const device = deviceOf(actor).getSnapshot();
+        expect(device.value).toEqual({ reconnecting: 'waiting' });
+        expect(device.context.reconnectAttempt).toBe(1);
+        expect(device.context.nextReconnectAt).not.toBeNull();
+        expect(device.context.error).toBe('Device disconnected unexpectedly');
+      })
+    );
+
+    it('disconnects on DISCONNECT and scans again', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+
+      const snapshot = await waitFor(actor, (s) => s.matches('scanning'));
+      expect(snapshot.context.devices).toEqual({});
+      expect(snapshot.context.error).toBeNull();
+      expect(transport.connectedIds).toEqual([]);
+    });
+
+    it('never reconnects to a device the user disconnected', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      const states: unknown[] = [];
+      deviceOf(actor).subscribe((s) => states.push(s.value));
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+
+      await waitFor(actor, (s) => s.matches('scanning'));
+      expect(states).not.toContainEqual(expect.objectContaining({ reconnecting: expect.anything() }));
+    });
+
+    it(
+      'lets nothing cancel a disconnect in progress',
+      reaching({ device: ['connected.disconnecting'] }, async () => {
+        const actor = startMachine({ device: { disconnectFromDevice: hang() } });
+        await connect(actor);
+        actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+        actor.send({
+          type: 'READ_CHARACTERISTIC',
+          deviceId: peripheral.id,
+          service: LBS_SERVICE_UUID,
+          characteristic: LED_CHARACTERISTIC_UUID,
+        });
+        expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'disconnecting' });
+
+        transport.dropConnection(peripheral.id);
+        await waitFor(actor, (s) => s.matches('scanning'));
+      })
+    );
+
+    it('still closes when the disconnect call fails', async () => {
+      const actor = startMachine({
+        device: { disconnectFromDevice: fromPromise(() => Promise.reject(new Error('Busy'))) },
+      });
+      await connect(actor);
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+
+      await waitFor(actor, (s) => s.matches('scanning'));
+    });
+
+    it('ignores device events for unknown devices', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      actor.send(writeLed('unknown', true));
+
+      expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'ready' });
+    });
+  });
+
+  describe('GATT queue', () => {
+    it('queues a read sent while an LED write is in flight', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      peripheral.findCharacteristic(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID).value = [1];
+
+      actor.send(writeLed(peripheral.id, true));
+      actor.send(readButton(peripheral.id));
+      actor.send(writeLed(peripheral.id, false));
+      const queued = deviceOf(actor).getSnapshot();
+      expect(queued.context.gattQueueDepth).toBe(3);
+      expect(queued.context.pendingWrites).toEqual({ 'lbs.led': { previous: false, count: 2 } });
+
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(peripheral.ledWrites).toEqual([true, false]);
+      expect(buttonOf(device)).toBe(true);
+      expect(ledOf(device)).toBe(false);
+      expect(device.context.pendingWrites).toEqual({});
+    });
+
+    it('retries a failed read', async () => {
+      const actor = startMachine({ input: { gattQueuePolicy: { retryDelay: 0 } } });
+      await connect(actor);
+      peripheral.findCharacteristic(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID).value = [1];
+      transport.failNext('read', new Error('Busy'));
+      actor.send(readButton(peripheral.id));
+
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(buttonOf(device)).toBe(true);
+      expect(device.matches({ connected: 'ready' })).toBe(true);
+    });
+
+    it('fails an operation that exceeds its timeout', async () => {
+      transport = createSimulatedTransport({ peripherals: [peripheral], latency: 20 });
+      const actor = startMachine({
+        input: { timeouts: { write: 5 } },
+      });
+      await connect(actor);
+      actor.send(writeLed(peripheral.id, true));
+
+      const device = await waitForDevice(actor, (s) => s.context.operationError !== null);
+      expect(device.context.operationError?.error).toBe('Write timed out after 5 ms');
+      expect(ledOf(device)).toBe(false);
+    });
+
+    it('cancels a queued operation by id', async () => {
+      transport = createSimulatedTransport({ peripherals: [peripheral], latency: 5 });
+      const actor = startMachine();
+      await connect(actor);
+      const read = jest.spyOn(transport, 'read');
+
+      actor.send(writeLed(peripheral.id, true));
+      actor.send(readButton(peripheral.id));
+      const operations = deviceOf(actor).getSnapshot().context.gattOperations;
+      expect(operations.map(({ label, running }) => ({ label, running }))).toEqual([
+        { label: 'Write lbs.led', running: true },
+        { label: 'Read lbs.button', running: false },
+      ]);
+
+      actor.send({
+        type: 'CANCEL_OPERATION',
+        deviceId: peripheral.id,
+        operationId: operations[1].id,
+      });
+      const device = await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+      expect(device.context.operationError?.error).toBe('GATT operation cancelled');
+      expect(peripheral.ledWrites).toEqual([true]);
+      expect(read).not.toHaveBeenCalled();
+    });
+
+    it('runs explorer and terminal operations behind profile operations', async () => {
+      transport = createSimulatedTransport({ peripherals: [peripheral], latency: 5 });
+      const actor = startMachine();
+      await connect(actor);
+
+      actor.send(writeLed(peripheral.id, true));
+      actor.send({
+        type: 'WRITE_CHARACTERISTIC',
+        deviceId: peripheral.id,
+        service: LBS_SERVICE_UUID,
+        characteristic: LED_CHARACTERISTIC_UUID,
+        value: [0],
+      });
+      expect(
+        deviceOf(actor)
+          .getSnapshot()
+          .context.gattOperations.map((o) => o.label)
+      ).toEqual(['Write lbs.led', `Write ${LED_CHARACTERISTIC_UUID}`]);
+
+      await waitForDevice(
+        actor,
+        (s) => s.matches({ connected: 'ready' }) && s.context.gattQueueDepth === 0
+      );
+      expect(peripheral.ledWrites).toEqual([true, false]);
+    });
+
+    it('cancels queued operations when the connection is lost', async () => {
+      const actor = startMachine({ input: { reconnectPolicy: { initialDelay: 60000 } } });
+      await connect(actor);
+      actor.send(writeLed(peripheral.id, true));
+      actor.send(readButton(peripheral.id));
+      transport.dropConnection(peripheral.id);
+
+      const device = deviceOf(actor).getSnapshot();
+      expect(device.value).toEqual({ reconnecting: 'waiting' });
+      expect(device.context.gattQueueDepth).toBe(0);
+      await flush();
+      expect(deviceOf(actor).getSnapshot().context.error).toBe('Device disconnected unexpectedly');
+    });
+  });
+
+  describe('MTU and long values', () => {
+    const NOTES_SERVICE = '0000bb00-0000-1000-8000-00805f9b34fb';
+    const NOTE = '0000bb01-0000-1000-8000-00805f9b34fb';
+    const LOG = '0000bb02-0000-1000-8000-00805f9b34fb';
+    const notesProfile: DeviceProfile = {
+      id: 'notes',
+      name: 'Notes',
+      serviceUUID: NOTES_SERVICE,
+      characteristics: [
+        { key: 'note', uuid: NOTE, label: 'Note', codec: utf8Codec },
+        {
+          key: 'log',
+          uuid: LOG,
+          label: 'Log',
+          codec: utf8Codec,
+          framing: lengthPrefixedFraming,
+          subscribe: true,
+        },
+      ],
+    };
+    let notes: ReturnType<typeof createSimulatedPeripheral>;
+
+    beforeEach(() => {
+      notes = createSimulatedPeripheral({
+        id: 'SIM-NOTES',
+        services: [
+          {
+            uuid: NOTES_SERVICE,
+            characteristics: [
+              { uuid: NOTE, properties: ['Read', 'Write'], value: [] },
+              { uuid: LOG, properties: ['Write', 'Notify'], value: [] },
+            ],
+          },
+        ],
+      });
+    });
+
+    async function connectNotes(actor: BleActor) {
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: notes.id });
+      return waitForDevice(actor, (s) => s.matches({ connected: 'ready' }), notes.id);
+    }
+    const writeNotes = (key: string, value: string) =>
+      ({ type: 'WRITE_VALUE', deviceId: notes.id, profileId: 'notes', key, value }) as const;
+
+    it('negotiates the requested MTU down to what the peripheral accepts', async () => {
+      transport = createSimulatedTransport({ peripherals: [peripheral], maxMtu: 185 });
+      const requestMTU = jest.spyOn(transport, 'requestMTU');
+      const actor = startMachine({ input: { mtu: 517 } });
+
+      const device = await connect(actor);
+      expect(requestMTU).toHaveBeenCalledWith(peripheral.id, 517);
+      expect(device.context.mtu).toBe(185);
+    });
+
+    it('keeps the default MTU when the request is rejected', async () => {
+      transport.failNext('requestMTU', new Error('MTU request rejected'));
+      const actor = startMachine();
+
+      const device = await connect(actor);
+      expect(device.context.mtu).toBe(23);
+      expect(device.context.error).toBeNull();
+    });
+
+    it('keeps the default MTU when the request goes unanswered', async () => {
+      const actor = startMachine({
+        device: { negotiateMtu: hang() },
+        input: { timeouts: { mtu: 5 } },
+      });
+
+      expect((await connect(actor)).context.mtu).toBe(23);
+    });
+
+    it('sends a value longer than the MTU as one long write', async () => {
+      transport = createSimulatedTransport({ peripherals: [notes], maxMtu: 23 });
+      const actor = startMachine({ profiles: [notesProfile] });
+      await connectNotes(actor);
+      const text = 'n'.repeat(300);
+
+      actor.send(writeNotes('note', text));
+      await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0, notes.id);
+      expect(notes.writes.map((w) => w.data.length)).toEqual([300]);
+
+      actor.send(writeNotes('note', 'n'.repeat(513)));
+      const device = await waitForDevice(actor, (s) => s.context.operationError !== null, notes.id);
+      expect(device.context.operationError?.error).toBe(
+        'Value of 513 bytes exceeds the 512-byte attribute limit'
+      );
+      expect(device.matches('connected')).toBe(true);
+    });
+
+    it('splits framed writes into MTU-sized packets and joins framed notifications', async () => {
+      transport = createSimulatedTransport({ peripherals: [notes], maxMtu: 23 });
+      const actor = startMachine({ profiles: [notesProfile] });
+      await connectNotes(actor);
+      const text = 'l'.repeat(50);
+
+      actor.send(writeNotes('log', text));
+      await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0, notes.id);
+      expect(notes.writes.map((w) => w.data.length)).toEqual([20, 20, 12]);
+
+      const packets = lengthPrefixedFraming.split(utf8Codec.encode!('received'), 4);
+      packets.slice(0, -1).forEach((packet) => notes.setValue(NOTES_SERVICE, LOG, packet));
+      expect(deviceOf(actor, notes.id).getSnapshot().context.values.notes.log).toBe(text);
+      notes.setValue(NOTES_SERVICE, LOG, packets[packets.length - 1]);
+      expect(deviceOf(actor, notes.id).getSnapshot().context.values.notes.log).toBe('received');
+    });
+  });
+
+  describe('RSSI monitoring', () => {
+    const fastPolling = { interval: 5, smoothing: 'none', historySize: 3 } as const;
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('polls the connected link and keeps a rolling history', async () => {
+      const actor = startMachine({ input: { rssiPolicy: fastPolling } });
+      await connect(actor);
+      peripheral.rssi = -72;
+
+      const device = await waitForDevice(
+        actor,
+        (s) => s.context.rssiHistory.length === 3 && s.context.rssiHistory[0].rssi === -72
+      );
+      expect(device.context.rssi).toBe(-72);
+      expect(selectRssiHistory(device).map((sample) => sample.smoothed)).toEqual([-72, -72, -72]);
+    });
+
+    it('smooths readings with the configured filter', async () => {
+      const actor = startMachine({
+        input: { rssiPolicy: { ...fastPolling, smoothing: 'movingAverage', window: 2 } },
+      });
+      await connect(actor);
+      await waitForDevice(actor, (s) => s.context.rssi === -50);
+      peripheral.rssi = -70;
+
+      const device = await waitForDevice(actor, (s) => s.context.rssiHistory.at(-1)?.rssi === -70);
+      expect(device.context.rssiHistory.at(-1)?.smoothed).toBe(-60);
+      expect(selectRssi(device)).toBe(-60);
+    });
+
+    it('pauses while the app is in the background', async () => {
+      let onAppStateChange: (state: AppStateStatus) => void = () => {};
+      jest.spyOn(AppState, 'addEventListener').mockImplementation((_, listener) => {
+        onAppStateChange = listener;
+        return { remove: jest.fn() };
+      });
+      const readRSSI = jest.spyOn(transport, 'readRSSI');
+      const actor = startMachine({ input: { rssiPolicy: fastPolling } });
+      await connect(actor);
+      await waitForDevice(actor, (s) => s.context.rssiHistory.length > 0);
+
+      onAppStateChange('background');
+      const calls = readRSSI.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(readRSSI).toHaveBeenCalledTimes(calls);
+
+      onAppStateChange('active');
+      expect(readRSSI).toHaveBeenCalledTimes(calls + 1);
+    });
+
+    it('stops polling and clears the live value when the connection ends', async () => {
+      const actor = startMachine({ input: { rssiPolicy: fastPolling } });
+      await connect(actor);
+      await waitForDevice(actor, (s) => s.context.rssi !== null);
+      const readRSSI = jest.spyOn(transport, 'readRSSI');
+      const deviceRef = deviceOf(actor);
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+
+      await waitFor(deviceRef, (s) => !s.matches('connected'));
+      const device = deviceRef.getSnapshot();
+      expect(device.context.rssi).toBeNull();
+      expect(device.context.rssiHistory.length).toBeGreaterThan(0);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(readRSSI).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconnecting', () => {
+    const fastPolicy = { initialDelay: 5, maxDelay: 20, multiplier: 2, jitter: 0, maxAttempts: 3 };
+
+    it(
+      'reconnects after a backoff delay',
+      reaching(
+        {
+          device: [
+            'reconnecting.attempting.linking',
+            'reconnecting.attempting.discovering',
+            'reconnecting.attempting.negotiating',
+            'reconnecting.attempting.subscribing',
+            'reconnecting.attempting.reading',
+          ],
+        },
+        async () => {
+          const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+          await connect(actor);
+          transport.dropConnection(peripheral.id);
+
+          await waitForDevice(actor, (s) => s.matches({ reconnecting: 'attempting' }));
+          const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+          expect(device.context.reconnectAttempt).toBe(0);
+          expect(device.context.nextReconnectAt).toBeNull();
+          expect(device.context.error).toBeNull();
+          expect(transport.connectedIds).toEqual([peripheral.id]);
+        }
+      )
+    );
+
+    it('leaves the scan the user started running while it reconnects', async () => {
+      const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+      await connect(actor);
+      actor.send({ type: 'SCAN' });
+      await waitFor(actor, (s) => s.matches({ scanning: 'active' }));
+      const stopScan = jest.spyOn(transport, 'stopScan');
+      transport.dropConnection(peripheral.id);
+
+      await waitForDevice(actor, (s) => s.matches('reconnecting'));
+      await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+      expect(stopScan).not.toHaveBeenCalled();
+      expect(transport.scanning).toBe(true);
+      expect(actor.getSnapshot().value).toEqual({ scanning: 'active' });
+    });
+
+    it(
+      'drops the link of a failed attempt and retries with growing delays',
+      reaching({ device: ['reconnecting.dropping'] }, async () => {
+        const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+        await connect(actor);
+        const disconnect = jest.spyOn(transport, 'disconnect');
+        transport.failNext('connect', new Error('Out of range'));
+        transport.dropConnection(peripheral.id);
+
+        const retry = await waitForDevice(actor, (s) => s.context.reconnectAttempt === 2);
+        expect(retry.value).toEqual({ reconnecting: 'waiting' });
+        expect(retry.context.error).toBe('Out of range');
+        expect(disconnect).toHaveBeenCalledWith(peripheral.id);
+
+        await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+      })
+    );
+
+    it(
+      'drops the link and falls back to scanning after the last attempt',
+      reaching({ device: ['reconnecting.aborting'] }, async () => {
+        const actor = startMachine({
+          input: { reconnectPolicy: { ...fastPolicy, maxAttempts: 2 } },
+        });
+        await connect(actor);
+        const disconnect = jest.spyOn(transport, 'disconnect');
+        transport.failNext('connect');
+        transport.failNext('connect');
+        transport.dropConnection(peripheral.id);
+
+        const snapshot = await waitFor(actor, (s) => s.matches('scanning'));
+        expect(snapshot.context.devices).toEqual({});
+        expect(snapshot.context.error).toBe('Reconnect failed after 2 attempts');
+        expect(disconnect).toHaveBeenCalledTimes(2);
+      })
+    );
+
+    it('stops reconnecting and scans on DISCONNECT', async () => {
+      const actor = startMachine({
+        input: { reconnectPolicy: { ...fastPolicy, initialDelay: 60000 } },
+      });
+      await connect(actor);
+      transport.dropConnection(peripheral.id);
+
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+      const snapshot = actor.getSnapshot();
+      expect(snapshot.matches('scanning')).toBe(true);
+      expect(snapshot.context.devices).toEqual({});
+      expect(snapshot.context.error).toBeNull();
+    });
+
+    it('stops reconnecting on CANCEL', async () => {
+      const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+      await connect(actor);
+      transport.dropConnection(peripheral.id);
+      await waitForDevice(actor, (s) => s.matches({ reconnecting: 'attempting' }));
+
+      actor.send({ type: 'CANCEL', deviceId: peripheral.id });
+      expect(actor.getSnapshot().context.devices).toEqual({});
+      expect(actor.getSnapshot().context.error).toBeNull();
+    });
+  });
+
+  describe('profiles', () => {
+    const THERMO_SERVICE = '0000aa00-0000-1000-8000-00805f9b34fb';
+    const TEMPERATURE = '0000aa01-0000-1000-8000-00805f9b34fb';
+    const thermoProfile: DeviceProfile = {
+      id: 'thermo',
+      name: 'Thermometer',
+      serviceUUID: THERMO_SERVICE,
+      characteristics: [
+        {
+          key: 'temperature',
+          uuid: TEMPERATURE,
+          label: 'Temperature',
+          // Decode-only codec - the value is read-only
+          codec: { decode: (bytes) => bytes[0] },
+          subscribe: true,
+          readOnConnect: true,
+        },
+      ],
+    };
+    const profiles = [...DEFAULT_PROFILES, thermoProfile];
+    const thermometer = () =>
+      createSimulatedPeripheral({
+        id: 'SIM-THERMO',
+        services: [
+          {
+            uuid: THERMO_SERVICE,
+            characteristics: [{ uuid: TEMPERATURE, properties: ['Read', 'Notify'], value: [21] }],
+          },
+        ],
+      });
+
+    it('scans for the union of registered profile services', async () => {
+      const scan = jest.spyOn(transport, 'scan');
+      const actor = startMachine({ profiles });
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('scanning'));
+
+      expect(scan).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceUUIDs: [LBS_SERVICE_UUID, HEART_RATE_SERVICE_UUID, THERMO_SERVICE],
+        })
+      );
+    });
+
+    it('sets up whichever profile the device matches', async () => {
+      const device = thermometer();
+      transport.addPeripheral(device);
+      const actor = startMachine({ profiles });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: device.id });
+
+      const snapshot = await waitForDevice(actor, (s) => s.matches('connected'), device.id);
+      expect(snapshot.context.profileIds).toEqual(['thermo']);
+      expect(snapshot.context.values).toEqual({ thermo: { temperature: 21 } });
+
+      device.setValue(THERMO_SERVICE, TEMPERATURE, [23]);
+      expect(deviceOf(actor, device.id).getSnapshot().context.values.thermo.temperature).toBe(23);
+    });
+
+    it('reports writing a read-only value without closing the connection', async () => {
+      const device = thermometer();
+      transport.addPeripheral(device);
+      const actor = startMachine({ profiles });
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: device.id });
+      await waitForDevice(actor, (s) => s.matches('connected'), device.id);
+      actor.send({
+        type: 'WRITE_VALUE',
+        deviceId: device.id,
+        profileId: 'thermo',
+        key: 'temperature',
+        value: 30,
+      });
+
+      const snapshot = await waitForDevice(
+        actor,
+        (s) => s.context.operationError !== null,
+        device.id
+      );
+      expect(snapshot.context.operationError?.error).toBe(
+        'Thermometer Temperature is not writable'
+      );
+      expect(snapshot.matches('connected')).toBe(true);
+    });
+  });
+
+  describe('heart rate profile', () => {
+    it('reads the sensor location and parses live measurements', async () => {
+      const strap = createSimulatedHeartRatePeripheral({ sensorLocation: 'Wrist' });
+      transport = createSimulatedTransport({ peripherals: [strap] });
+      const actor = startMachine();
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: strap.id });
+
+      const device = await waitForDevice(actor, (s) => s.matches('connected'), strap.id);
+      expect(device.context.profileIds).toEqual(['hrs', 'battery', 'dis']);
+      expect(device.context.values.hrs).toEqual({ bodySensorLocation: 'Wrist' });
+
+      strap.emitMeasurement({ bpm: 72, sensorContact: true, rrIntervals: [830] });
+      expect(deviceOf(actor, strap.id).getSnapshot().context.values.hrs.measurement).toEqual({
+        bpm: 72,
+        sensorContact: true,
+        energyExpended: 0,
+        rrIntervals: [830],
+      });
+    });
+
+    it('resets energy expended through the control point', async () => {
+      const strap = createSimulatedHeartRatePeripheral({ energyExpended: 120 });
+      transport = createSimulatedTransport({ peripherals: [strap] });
+      const actor = startMachine();
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: strap.id });
+      await waitForDevice(actor, (s) => s.matches('connected'), strap.id);
+
+      actor.send({
+        type: 'WRITE_VALUE',
+        deviceId: strap.id,
+        profileId: 'hrs',
+        key: 'controlPoint',
+        value: RESET_ENERGY_EXPENDED,
+      });
+      await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }), strap.id);
+      expect(strap.energyExpended).toBe(0);
+    });
+  });
+
+  describe('battery and device information', () => {
+    it('reads battery level and device information on connect', async () => {
+      peripheral = createSimulatedLbsPeripheral({
+        extraServices: [
+          createBatteryService(64),
+          createDeviceInformationService({ manufacturer: 'Nordic\0\0', firmwareRevision: '2.1' }),
+        ],
+      });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+
+      const device = await connect(actor);
+      expect(device.context.profileIds).toEqual(['lbs', 'battery', 'dis']);
+      expect(device.context.values.battery).toEqual({ level: 64 });
+      expect(device.context.values.dis).toEqual({
+        manufacturer: 'Nordic',
+        firmwareRevision: '2.1',
+      });
+
+      peripheral.setValue(BATTERY_SERVICE_UUID, BATTERY_LEVEL_UUID, [63]);
+      expect(deviceOf(actor).getSnapshot().context.values.battery.level).toBe(63);
+    });
+
+    it('still connects when the battery cannot be read or subscribed to', async () => {
+      peripheral = createSimulatedLbsPeripheral({ extraServices: [createBatteryService(64)] });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const isBattery = (uuid: string) => uuid === BATTERY_LEVEL_UUID;
+      const read = transport.read;
+      const startNotification = transport.startNotification;
+      jest
+        .spyOn(transport, 'read')
+        .mockImplementation((deviceId, service, characteristic) =>
+          isBattery(characteristic)
+            ? Promise.reject(new Error('Read not permitted'))
+            : read(deviceId, service, characteristic)
+        );
+      jest
+        .spyOn(transport, 'startNotification')
+        .mockImplementation((deviceId, service, characteristic) =>
+          isBattery(characteristic)
+            ? Promise.reject(new Error('Notify not permitted'))
+            : startNotification(deviceId, service, characteristic)
+        );
+      const actor = startMachine({ input: { gattQueuePolicy: { retryDelay: 0 } } });
+
+      const device = await connect(actor);
+      expect(device.matches({ connected: 'ready' })).toBe(true);
+      expect(device.context.values.battery).toEqual({});
+      expect(device.context.notifying).toEqual([
+        characteristicKey(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID),
+      ]);
+    });
+
+    it('only subscribes to battery notifications when supported', async () => {
+      peripheral = createSimulatedLbsPeripheral({
+        extraServices: [createBatteryService(50, { notify: false })],
+      });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+
+      const device = await connect(actor);
+      expect(device.context.values.battery).toEqual({ level: 50 });
+      expect(device.context.notifying).toEqual([
+        characteristicKey(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID),
+      ]);
+    });
+
+    it('does not accept a device that only has secondary services', async () => {
+      peripheral = createSimulatedLbsPeripheral();
+      peripheral.services = [createBatteryService(50)];
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+      await discover(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      await waitFor(actor, (s) => s.context.error === 'No supported profile found on device');
+    });
+  });
+
+  describe('GATT explorer', () => {
+    const button = { service: LBS_SERVICE_UUID, characteristic: BUTTON_CHARACTERISTIC_UUID };
+    const led = { service: LBS_SERVICE_UUID, characteristic: LED_CHARACTERISTIC_UUID };
+    const ledKey = characteristicKey(LBS_SERVICE_UUID, LED_CHARACTERISTIC_UUID);
+
+    it('stores the discovered GATT table on connect', async () => {
+      const actor = startMachine();
+      const device = await connect(actor);
+
+      expect(device.context.services).toEqual([
+        {
+          uuid: LBS_SERVICE_UUID,
+          characteristics: [
+            { uuid: BUTTON_CHARACTERISTIC_UUID, properties: ['Read', 'Notify'], descriptors: [] },
+            { uuid: LED_CHARACTERISTIC_UUID, properties: ['Read', 'Write'], descriptors: [] },
+          ],
+        },
+      ]);
+      expect(device.context.notifying).toEqual([
+        characteristicKey(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID),
+      ]);
+    });
+
+    it(
+      'reads any characteristic',
+      reaching({ device: ['connected.readingCharacteristic'] }, async () => {
+        peripheral = createSimulatedLbsPeripheral({ ledOn: true });
+        transport = createSimulatedTransport({ peripherals: [peripheral] });
+        const actor = startMachine();
+        await connect(actor);
+        actor.send({ type: 'READ_CHARACTERISTIC', deviceId: peripheral.id, ...led });
+        expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'readingCharacteristic' });
+
+        const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+        expect(device.context.characteristicValues[ledKey]).toEqual([1]);
+      })
+    );
+
+    it(
+      'writes raw bytes, with or without response',
+      reaching({ device: ['connected.writingCharacteristic'] }, async () => {
+        const actor = startMachine();
+        await connect(actor);
+        actor.send({ type: 'WRITE_CHARACTERISTIC', deviceId: peripheral.id, ...led, value: [1] });
+        expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'writingCharacteristic' });
+        await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+
+        actor.send({
+          type: 'WRITE_CHARACTERISTIC',
+          deviceId: peripheral.id,
+          ...led,
+          value: [0],
+          withoutResponse: true,
+        });
+        const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+        expect(peripheral.ledWrites).toEqual([true, false]);
+        expect(device.context.characteristicValues[ledKey]).toEqual([0]);
+      })
+    );
+
+    it(
+      'records notified values and stops them on unsubscribe',
+      reaching({ device: ['connected.settingNotification'] }, async () => {
+        const actor = startMachine();
+        await connect(actor);
+        const key = characteristicKey(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID);
+        peripheral.pressButton();
+        expect(deviceOf(actor).getSnapshot().context.characteristicValues[key]).toEqual([1]);
+
+        actor.send({
+          type: 'SET_NOTIFICATION',
+          deviceId: peripheral.id,
+          ...button,
+          enabled: false,
+        });
+        expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'settingNotification' });
+        const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+        expect(device.context.notifying).toEqual([]);
+
+        peripheral.releaseButton();
+        expect(deviceOf(actor).getSnapshot().context.characteristicValues[key]).toEqual([1]);
+      })
+    );
+
+    it('reports failed operations without dropping the connection', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'SET_NOTIFICATION', deviceId: peripheral.id, ...led, enabled: true });
+
+      const device = await waitForDevice(actor, (s) => s.context.gattError !== null);
+      expect(device.value).toEqual({ connected: 'ready' });
+      expect(device.context.gattError).toBe(
+        `Characteristic ${LED_CHARACTERISTIC_UUID} does not support notifications`
+      );
+      expect(actor.getSnapshot().context.error).toBeNull();
+
+      transport.failNext('read', new Error('Read not permitted'));
+      actor.send({ type: 'READ_CHARACTERISTIC', deviceId: peripheral.id, ...led });
+      await waitForDevice(actor, (s) => s.context.gattError === 'Read not permitted');
+
+      transport.failNext('write', new Error('Write not permitted'));
+      actor.send({ type: 'WRITE_CHARACTERISTIC', deviceId: peripheral.id, ...led, value: [1] });
+      await waitForDevice(actor, (s) => s.context.gattError === 'Write not permitted');
+      expect(deviceOf(actor).getSnapshot().matches({ connected: 'ready' })).toBe(true);
+    });
+  });
+
+  describe('UART terminal', () => {
+    const rxWrites = () =>
+      peripheral.writes.filter((w) => w.characteristic === NUS_RX_CHARACTERISTIC_UUID);
+    const notifyTx = (text: string) =>
+      peripheral.setValue(NUS_SERVICE_UUID, NUS_TX_CHARACTERISTIC_UUID, utf8Codec.encode!(text));
+
+    beforeEach(() => {
+      peripheral = createSimulatedLbsPeripheral({ extraServices: [createNusService()] });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+    });
+
+    async function openTerminal(actor: BleActor) {
+      await connect(actor);
+      actor.send({ type: 'OPEN_TERMINAL', deviceId: peripheral.id });
+      expect(terminalOf(actor).getSnapshot().value).toBe('opening');
+      return waitFor(terminalOf(actor), (s) => s.matches({ open: 'idle' }));
+    }
+
+    it(
+      'collects received text into scrollback lines',
+      reaching({ terminal: ['opening', 'open.idle'] }, async () => {
+        const actor = startMachine();
+        await openTerminal(actor);
+
+        notifyTx('hel');
+        notifyTx('lo\r\nwor');
+        const terminal = terminalOf(actor).getSnapshot();
+        expect(terminal.context.lines.map((l) => [l.direction, l.text])).toEqual([['rx', 'hello']]);
+        expect(terminal.context.partial).toBe('wor');
+      })
+    );
+
+    it('joins a character split across notifications', async () => {
+      const actor = startMachine();
+      await openTerminal(actor);
+      const notifyBytes = (bytes: number[]) =>
+        peripheral.setValue(NUS_SERVICE_UUID, NUS_TX_CHARACTERISTIC_UUID, bytes);
+
+      // 'é€\n' is C3 A9, E2 82 AC, 0A
+      notifyBytes([0xc3]);
+      notifyBytes([0xa9, 0xe2]);
+      expect(terminalOf(actor).getSnapshot().context.partial).toBe('é');
+      notifyBytes([0x82, 0xac, 0x0a]);
+
+      const terminal = terminalOf(actor).getSnapshot();
+      expect(terminal.context.lines.map((l) => l.text)).toEqual(['é€']);
+      expect(terminal.context.partialBytes).toEqual([]);
+    });
+
+    it('sends lines in chunks of the negotiated MTU and keeps the LBS controls working', async () => {
+      transport = createSimulatedTransport({ peripherals: [peripheral], maxMtu: 30 });
+      const actor = startMachine();
+      await openTerminal(actor);
+      const text = 'x'.repeat(30);
+
+      actor.send({ type: 'SEND_TERMINAL', deviceId: peripheral.id, text });
+      expect(terminalOf(actor).getSnapshot().value).toEqual({ open: 'sending' });
+      actor.send(writeLed(peripheral.id, true));
+      const terminal = await waitFor(terminalOf(actor), (s) => s.matches({ open: 'idle' }));
+      await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+
+      expect(rxWrites().map((w) => w.data.length)).toEqual([27, 4]);
+      expect(terminal.context.lines.map((l) => [l.direction, l.text])).toEqual([
+        ['tx', text],
+        ['rx', `echo: ${text}`],
+      ]);
+      expect(terminal.context.history).toEqual([text]);
+      expect(peripheral.ledOn).toBe(true);
+    });
+
+    it(
+      'applies the selected line ending and keeps a send history',
+      reaching({ terminal: ['open.sending'] }, async () => {
+        const actor = startMachine();
+        await openTerminal(actor);
+        const send = async (text: string) => {
+          actor.send({ type: 'SEND_TERMINAL', deviceId: peripheral.id, text });
+          await waitFor(terminalOf(actor), (s) => s.matches({ open: 'idle' }));
+        };
+
+        actor.send({ type: 'SET_LINE_ENDING', deviceId: peripheral.id, lineEnding: 'crlf' });
+        await send('a');
+        await send('a');
+        actor.send({ type: 'SET_LINE_ENDING', deviceId: peripheral.id, lineEnding: 'none' });
+        await send('b');
+        await send('');
+
+        expect(rxWrites().map((w) => w.data)).toEqual([[97, 13, 10], [97, 13, 10], [98]]);
+        expect(terminalOf(actor).getSnapshot().context.history).toEqual(['a', 'b']);
+
+        actor.send({ type: 'CLEAR_TERMINAL', deviceId: peripheral.id });
+        expect(terminalOf(actor).getSnapshot().context.lines).toEqual([]);
+      })
+    );
+
+    it(
+      'stops receiving after CLOSE_TERMINAL',
+      reaching({ terminal: ['closing'] }, async () => {
+        const actor = startMachine();
+        await openTerminal(actor);
+        actor.send({ type: 'CLOSE_TERMINAL', deviceId: peripheral.id });
+        expect(terminalOf(actor).getSnapshot().value).toBe('closing');
+
+        const terminal = await waitFor(terminalOf(actor), (s) => s.matches('closed'));
+        notifyTx('late\n');
+        expect(terminal.context.lines).toEqual([]);
+        expect(deviceOf(actor).getSnapshot().matches({ connected: 'ready' })).toBe(true);
+      })
+    );
+
+    it('reports terminal failures without dropping the connection', async () => {
+      const actor = startMachine();
+      await openTerminal(actor);
+      transport.failNext('write', new Error('Write not permitted'));
+      actor.send({ type: 'SEND_TERMINAL', deviceId: peripheral.id, text: 'hi' });
+
+      const terminal = await waitFor(terminalOf(actor), (s) => s.context.error !== null);
+      expect(terminal.context.error).toBe('Write not permitted');
+      expect(terminal.matches({ open: 'idle' })).toBe(true);
+      expect(deviceOf(actor).getSnapshot().matches({ connected: 'ready' })).toBe(true);
+    });
+
+    it('fails to open on a device without NUS', async () => {
+      peripheral = createSimulatedLbsPeripheral();
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'OPEN_TERMINAL', deviceId: peripheral.id });
+
+      const terminal = await waitFor(terminalOf(actor), (s) => s.context.error !== null);
+      expect(terminal.value).toBe('closed');
+      expect(terminal.context.error).toBe(`Characteristic ${NUS_TX_CHARACTERISTIC_UUID} not found`);
+    });
+  });
+
+  describe('firmware update', () => {
+    const fastPolicy = { initialDelay: 5, maxDelay: 20, multiplier: 2, jitter: 0, maxAttempts: 3 };
+    const dfuPackage = {
+      type: 'application' as const,
+      initPacket: Array.from({ length: 40 }, (_, i) => i),
+      firmware: Array.from({ length: 600 }, (_, i) => (i * 3) & 0xff),
+    };
+    let bootloader: SimulatedBootloader;
+
+    // The application disappears while its bootloader advertises, and comes back after the update
+    const replace = (from: SimulatedBootloader | SimulatedLbsPeripheral, to: typeof from) => {
+      transport.peripherals.splice(transport.peripherals.indexOf(from), 1);
+      transport.addPeripheral(to);
+    };
+
+    beforeEach(() => {
+      bootloader = createSimulatedBootloader({ maxObjectSize: 256 });
+      peripheral = createSimulatedLbsPeripheral({
+        extraServices: [
+          createButtonlessDfuService(() => {
+            transport.dropConnection(peripheral.id);
+            replace(peripheral, bootloader);
+          }),
+        ],
+      });
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+    });
+
+    async function startUpdate(actor: BleActor) {
+      await connect(actor);
+      actor.send({ type: 'START_DFU', deviceId: peripheral.id, dfuPackage });
+      expect(deviceOf(actor).getSnapshot().value).toEqual({ updating: 'enteringBootloader' });
+      await waitForDevice(actor, (s) => s.matches({ updating: 'connectingBootloader' }));
+      return waitForDevice(actor, (s) => s.matches({ updating: 'transferring' }));
+    }
+
+    it(
+      'flashes the bootloader and reconnects to the restarted application',
+      reaching(
+        {
+          device: [
+            'updating.enteringBootloader',
+            'updating.connectingBootloader',
+            'updating.transferring',
+            'updating.restarting',
+          ],
+        },
+        async () => {
+          const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+          await startUpdate(actor);
+          await waitForDevice(actor, (s) => s.matches({ updating: 'restarting' }));
+          replace(bootloader, peripheral);
+
+          const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+          expect(bootloader.initPacket).toEqual(dfuPackage.initPacket);
+          expect(bootloader.firmware).toEqual(dfuPackage.firmware);
+          expect(device.context.dfu).toMatchObject({
+            bootloaderId: bootloader.id,
+            stage: 'complete',
+            sentBytes: 600,
+            totalBytes: 600,
+            error: null,
+          });
+          expect(transport.connectedIds).toEqual([peripheral.id]);
+        }
+      )
+    );
+
+    it(
+      'resumes a failed transfer on RESUME_DFU',
+      reaching({ device: ['updating.failed'] }, async () => {
+        const actor = startMachine({ input: { reconnectPolicy: fastPolicy } });
+        transport.failNext('writeWithoutResponse', new Error('Link lost'));
+        await startUpdate(actor);
+
+        const failed = await waitForDevice(actor, (s) => s.matches({ updating: 'failed' }));
+        expect(failed.context.dfu?.error).toBe('Link lost');
+
+        actor.send({ type: 'RESUME_DFU', deviceId: peripheral.id });
+        await waitForDevice(actor, (s) => s.matches({ updating: 'restarting' }));
+        expect(bootloader.firmware).toEqual(dfuPackage.firmware);
+      })
+    );
+
+    it(
+      'disconnects the bootloader and closes on CANCEL_DFU',
+      reaching({ device: ['updating.aborting'] }, async () => {
+        const actor = startMachine();
+        await startUpdate(actor);
+        actor.send({ type: 'CANCEL_DFU', deviceId: peripheral.id });
+        expect(deviceOf(actor).getSnapshot().value).toEqual({ updating: 'aborting' });
+
+        const snapshot = await waitFor(actor, (s) => !(peripheral.id in s.context.devices));
+        expect(snapshot.matches('scanning')).toBe(true);
+        expect(transport.connectedIds).toEqual([]);
+        expect(bootloader.firmware.length).toBeLessThan(600);
+      })
+    );
+
+    it('ignores START_DFU on a device without buttonless DFU', async () => {
+      peripheral = createSimulatedLbsPeripheral();
+      transport = createSimulatedTransport({ peripherals: [peripheral] });
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'START_DFU', deviceId: peripheral.id, dfuPackage });
+
+      expect(deviceOf(actor).getSnapshot().value).toEqual({ connected: 'ready' });
+    });
+  });
+
+  describe('multiple devices', () => {
+    let second: SimulatedLbsPeripheral;
+
+    beforeEach(() => {
+      second = createSimulatedLbsPeripheral({ id: 'SIM-LBS-0002', name: 'Second' });
+      transport.addPeripheral(second);
+    });
+
+    it('runs one independent connection per device', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'SCAN' });
+      await waitFor(actor, (s) => s.context.discoveredDevices.some((d) => d.id === second.id));
+      await connect(actor, second);
+
+      expect(Object.keys(actor.getSnapshot().context.devices)).toEqual([peripheral.id, second.id]);
+
+      actor.send(writeLed(second.id, true));
+      await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }), second.id);
+      second.pressButton();
+
+      expect(second.ledWrites).toEqual([true]);
+      expect(peripheral.ledWrites).toEqual([]);
+      expect(buttonOf(deviceOf(actor, second.id).getSnapshot())).toBe(true);
+      expect(buttonOf(deviceOf(actor).getSnapshot())).toBe(false);
+    });
+
+    it('keeps other devices connected when one disconnects', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      await connect(actor, second);
+
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+      const snapshot = await waitFor(actor, (s) => s.context.devices[peripheral.id] === undefined);
+
+      expect(snapshot.value).toBe('ready');
+      expect(deviceOf(actor, second.id).getSnapshot().matches('connected')).toBe(true);
+      expect(transport.connectedIds).toEqual([second.id]);
+    });
+
+    it('does not spawn a second connection for the same device', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      const first = deviceOf(actor);
+      actor.send({ type: 'SELECT_DEVICE', deviceId: peripheral.id });
+
+      expect(deviceOf(actor)).toBe(first);
+    });
+  });
+
+  describe('known devices', () => {
+    let second: SimulatedLbsPeripheral;
+
+    const known = (device: SimulatedLbsPeripheral, changes: Partial<KnownDevice> = {}) => ({
+      ...createKnownDevice(device.id, device.name),
+      connectionCount: 1,
+      lastConnected: 1000,
+      ...changes,
+    });
+
+    beforeEach(() => {
+      second = createSimulatedLbsPeripheral({ id: 'SIM-LBS-0002', name: 'Second' });
+      transport.addPeripheral(second);
+    });
+
+    it('counts every connection and keeps the last connection time', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      const firstConnected = actor.getSnapshot().context.knownDevices[0].lastConnected!;
+      actor.send({ type: 'DISCONNECT', deviceId: peripheral.id });
+      await waitFor(actor, (s) => s.context.devices[peripheral.id] === undefined);
+      await connect(actor);
+
+      const [device] = actor.getSnapshot().context.knownDevices;
+      expect(device.connectionCount).toBe(2);
+      expect(device.lastConnected).toBeGreaterThanOrEqual(firstConnected);
+      expect(await storedKnownDevices()).toEqual([device]);
+    });
+
+    it('auto-connects favourites first, up to the limit', async () => {
+      await AsyncStorage.setItem(
+        KNOWN_DEVICES_KEY,
+        JSON.stringify([
+          known(peripheral, { lastConnected: 2000 }),
+          known(second, { favourite: true }),
+        ])
+      );
+      const actor = startMachine();
+      actor.send({ type: 'START' });
+
+      const snapshot = await waitFor(actor, (s) => s.matches('ready'));
+      expect(Object.keys(snapshot.context.devices)).toEqual([second.id]);
+      expect(snapshot.context.knownDevices).toHaveLength(2);
+    });
+
+    it('skips devices that opted out of auto-connect', async () => {
+      await AsyncStorage.setItem(
+        KNOWN_DEVICES_KEY,
+        JSON.stringify([known(peripheral, { autoConnect: false }), known(second)])
+      );
+      const actor = startMachine({ input: { autoConnectLimit: 2 } });
+      actor.send({ type: 'START' });
+
+      const snapshot = await waitFor(actor, (s) => s.matches('ready'));
+      expect(Object.keys(snapshot.context.devices)).toEqual([second.id]);
+    });
+
+    it('scans when no known device auto-connects', async () => {
+      await AsyncStorage.setItem(
+        KNOWN_DEVICES_KEY,
+        JSON.stringify([known(peripheral, { autoConnect: false })])
+      );
+      const actor = startMachine();
+      await discover(actor);
+
+      expect(actor.getSnapshot().context.devices).toEqual({});
+      expect(actor.getSnapshot().context.knownDevices).toHaveLength(1);
+    });
+
+    it('starts an empty registry when the stored one is unreadable', async () => {
+      await AsyncStorage.setItem(KNOWN_DEVICES_KEY, '{not json');
+      await AsyncStorage.setItem(STORAGE_KEY, peripheral.id);
+      const actor = startMachine();
+      await discover(actor);
+
+      expect(actor.getSnapshot().context.knownDevices).toEqual([]);
+    });
+
+    it('renames, favourites and changes auto-connect, saving each change', async () => {
+      const actor = startMachine();
+      await connect(actor);
+
+      actor.send({ type: 'RENAME_KNOWN_DEVICE', deviceId: peripheral.id, nickname: ' Bench ' });
+      actor.send({ type: 'SET_FAVOURITE', deviceId: peripheral.id, favourite: true });
+      actor.send({ type: 'SET_AUTO_CONNECT', deviceId: peripheral.id, autoConnect: false });
+
+      const expected = expect.objectContaining({
+        nickname: 'Bench',
+        favourite: true,
+        autoConnect: false,
+      });
+      expect(actor.getSnapshot().context.knownDevices).toEqual([expected]);
+      await flush();
+      expect(await storedKnownDevices()).toEqual([expected]);
+
+      actor.send({ type: 'RENAME_KNOWN_DEVICE', deviceId: peripheral.id, nickname: '' });
+      expect(actor.getSnapshot().context.knownDevices[0].nickname).toBeNull();
+    });
+
+    it('forgets one device and ignores devices it does not know', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      await connect(actor, second);
+
+      actor.send({ type: 'FORGET_KNOWN_DEVICE', deviceId: peripheral.id });
+      actor.send({ type: 'SET_FAVOURITE', deviceId: 'unknown', favourite: true });
+
+      expect(actor.getSnapshot().context.knownDevices.map((d) => d.id)).toEqual([second.id]);
+      await flush();
+      expect((await storedKnownDevices()).map((d) => d.id)).toEqual([second.id]);
+    });
+
+    it('reports a save that fails', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('Disk full'));
+      actor.send({ type: 'FORGET_KNOWN_DEVICE', deviceId: peripheral.id });
+
+      await waitFor(actor, (s) => s.context.error !== null);
+      expect(actor.getSnapshot().context.error).toBe('Could not save known devices: Disk full');
+    });
+
+    it('forgets every device on CLEAR_KNOWN_DEVICES', async () => {
+      const actor = startMachine();
+      await connect(actor);
+      await AsyncStorage.setItem(STORAGE_KEY, peripheral.id);
+      actor.send({ type: 'CLEAR_KNOWN_DEVICES' });
+
+      expect(actor.getSnapshot().context.knownDevices).toEqual([]);
+      await flush();
+      expect(await AsyncStorage.getItem(KNOWN_DEVICES_KEY)).toBeNull();
+      expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe('snapshot persistence', () => {
+    // What the app saves: the restorable state after a trip through JSON
+    const persist = (actor: BleActor): PersistedBleState =>
+      JSON.parse(JSON.stringify(pickPersistedState(actor.getSnapshot())));
+
+    const rehydrate = (persisted: PersistedBleState, options: MachineOptions = {}) =>
+      rehydrateBleSnapshot(
+        persisted,
+        createActor(provideMachine(options), {
+          input: {},
+        }).getPersistedSnapshot() as PersistedBleSnapshot
+      );
+
+    async function persistConnectedApp() {
+      const actor = startMachine();
+      await connect(actor);
+      actor.send({ type: 'SET_SCAN_SETTINGS', settings: { duration: 0 } });
+      actor.send(writeLed(peripheral.id, true));
+      await waitForDevice(actor, (s) => s.context.gattQueueDepth === 0);
+
+      const persisted = persist(actor);
+      // The app is killed - the native link goes with it
+      actor.stop();
+      transport.dropConnection(peripheral.id);
+      return persisted;
+    }
+
+    it('restores settings, known devices and profile values but no connection', async () => {
+      const { snapshot, resume } = rehydrate(await persistConnectedApp());
+      const actor = startMachine({ snapshot });
+
+      const { value, context } = actor.getSnapshot();
+      expect(resume).toBe(true);
+      expect(value).toBe('idle');
+      expect(context.devices).toEqual({});
+      expect(context.discoveredDevices).toEqual([]);
+      expect(context.scanSettings.duration).toBe(0);
+      expect(context.knownDevices.map((d) => d.id)).toEqual([peripheral.id]);
+      expect(context.lastValues[peripheral.id]).toEqual({ lbs: { led: true, button: false } });
+    });
+
+    it('resumes through init and shows the last values until the device is read', async () => {
+      const { snapshot } = rehydrate(await persistConnectedApp());
+      const actor = startMachine({ snapshot, device: { connectToDevice: hang() } });
+      actor.send({ type: 'START' });
+
+      await waitFor(actor, (s) => s.matches('ready'));
+      expect(ledOf(deviceOf(actor).getSnapshot())).toBe(true);
+      expect(deviceOf(actor).getSnapshot().context.staleValues).toBe(true);
+    });
+
+    it('marks restored values fresh once the device is read', async () => {
+      const { snapshot } = rehydrate(await persistConnectedApp());
+      const actor = startMachine({ snapshot });
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('ready'));
+
+      const device = await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+      expect(device.context.staleValues).toBe(false);
+    });
+
+    it('keeps listening to the adapter after a restore', async () => {
+      const { snapshot } = rehydrate(await persistConnectedApp());
+      const actor = startMachine({ snapshot });
+      actor.send({ type: 'START' });
+      await waitFor(actor, (s) => s.matches('ready'));
+      await waitForDevice(actor, (s) => s.matches({ connected: 'ready' }));
+
+      transport.setAdapterState('off');
+      expect(actor.getSnapshot().value).toEqual({ bluetoothOff: 'off' });
+    });
+
+    it('forgets the last values of a forgotten device', async () => {
+      const { snapshot } = rehydrate(await persistConnectedApp());
+      const actor = startMachine({ snapshot });
+      actor.send({ type: 'FORGET_KNOWN_DEVICE', deviceId: peripheral.id });
+
+      expect(actor.getSnapshot().context.lastValues).toEqual({});
+      expect(persist(actor).context.lastValues).toEqual({});
+    });
+
+    it('leaves an app that was never started idle', () => {
+      expect(rehydrate(persist(startMachine())).resume).toBe(false);
+    });
+  });
+
+  // Fails when a state is added to any machine without a test declaring it reaches it
+  it.each(coveredMachines as AnyStateMachine[])('reaches every $id state node', (machine) => {
+    const uncovered = getStateNodes(machine.root)
+      .filter((node) => node.path.length > 0)
+      .map((node) => node.path.join('.'))
+      .filter(
+        (path) => ![...declared[machine.id]].some((covered) => `${covered}.`.startsWith(`${path}.`))
+      );
+
+    expect(uncovered).toEqual([]);
+  });
+});
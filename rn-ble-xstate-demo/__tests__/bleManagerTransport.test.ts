@@ -0,0 +1,27 @@
+import BleManager from 'react-native-ble-manager';
+import { bleManagerTransport } from '@/app/bluetooth/transport';
+
+jest.mock('react-native-ble-manager', () => ({
+  __esModule: true,
+  default: { write: jest.fn(() => Promise.resolve()) },
+}));
+
+describe('bleManagerTransport.write', () => {
+  const write = jest.mocked(BleManager.write);
+
+  beforeEach(() => {
+    write.mockClear();
+  });
+
+  it('writes the whole value as one chunk', async () => {
+    await bleManagerTransport.write('A', 'service', 'characteristic', [1, 2, 3]);
+
+    expect(write).toHaveBeenCalledWith('A', 'service', 'characteristic', [1, 2, 3], 3);
+  });
+
+  it('still passes a chunk size of 1 for an empty value', async () => {
+    await bleManagerTransport.write('A', 'service', 'characteristic', []);
+
+    expect(write).toHaveBeenCalledWith('A', 'service', 'characteristic', [], 1);
+  });
+});
@@ -0,0 +1,155 @@
+import { strToU8, zipSync } from 'fflate';
+import { DFU_PACKET_UUID } from '@/app/bluetooth/constants';
+import {
+  bootloaderAddress,
+  crc32,
+  DfuPackage,
+  DfuProgress,
+  parseDfuPackage,
+  performSecureDfu,
+} from '@/app/bluetooth/dfu';
+import {
+  createSimulatedBootloader,
+  createSimulatedTransport,
+  SimulatedBootloader,
+  SimulatedTransport,
+} from '@/app/bluetooth/transport';
+
+const bytes = (length: number, seed = 0) => Array.from({ length }, (_, i) => (i * 7 + seed) & 0xff);
+
+const dfuZip = (manifest: object, files: Record<string, number[]>) =>
+  zipSync({
+    'manifest.json': strToU8(JSON.stringify({ manifest })),
+    ...Object.fromEntries(Object.entries(files).map(([name, data]) => [name, Uint8Array.from(data)])),
+  });
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(strToU8('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('continues a running checksum', () => {
+    const data = bytes(100);
+    expect(crc32(data.slice(40), crc32(data.slice(0, 40)))).toBe(crc32(data));
+  });
+});
+
+describe('parseDfuPackage', () => {
+  it('reads the init packet and firmware named in the manifest', () => {
+    const zip = dfuZip(
+      { application: { bin_file: 'app.bin', dat_file: 'app.dat' } },
+      { 'app.bin': bytes(300), 'app.dat': bytes(20, 1) }
+    );
+
+    expect(parseDfuPackage(zip)).toEqual({
+      type: 'application',
+      initPacket: bytes(20, 1),
+      firmware: bytes(300),
+    });
+  });
+
+  it('rejects anything but a single-image package', () => {
+    expect(() => parseDfuPackage(Uint8Array.from([1, 2, 3]))).toThrow(
+      'DFU package is not a valid zip file'
+    );
+    expect(() => parseDfuPackage(zipSync({ 'app.bin': Uint8Array.from([1]) }))).toThrow(
+      'DFU package has no manifest.json'
+    );
+    expect(() =>
+      parseDfuPackage(
+        dfuZip(
+          {
+            application: { bin_file: 'app.bin', dat_file: 'app.dat' },
+            softdevice_bootloader: { bin_file: 'sd.bin', dat_file: 'sd.dat' },
+          },
+          {}
+        )
+      )
+    ).toThrow('Multi-image DFU packages are not supported');
+    expect(() =>
+      parseDfuPackage(dfuZip({ application: { bin_file: 'app.bin', dat_file: 'app.dat' } }, {}))
+    ).toThrow('DFU package is missing app.dat');
+  });
+});
+
+describe('bootloaderAddress', () => {
+  it('increments the last byte of a MAC address', () => {
+    expect(bootloaderAddress('aa:bb:cc:dd:ee:0f')).toBe('AA:BB:CC:DD:EE:10');
+    expect(bootloaderAddress('AA:BB:CC:DD:EE:FF')).toBe('AA:BB:CC:DD:EE:00');
+    expect(bootloaderAddress('4C2E9F6A-0000-4000-8000-000000000001')).toBeNull();
+  });
+});
+
+describe('performSecureDfu', () => {
+  const dfuPackage: DfuPackage = {
+    type: 'application',
+    initPacket: bytes(40, 3),
+    firmware: bytes(2500),
+  };
+  let bootloader: SimulatedBootloader;
+  let transport: SimulatedTransport;
+
+  beforeEach(async () => {
+    bootloader = createSimulatedBootloader({ maxObjectSize: 1024 });
+    transport = createSimulatedTransport({ peripherals: [bootloader] });
+    await transport.connect(bootloader.id);
+  });
+
+  it('transfers the init packet and firmware object by object', async () => {
+    const progress: DfuProgress[] = [];
+    await performSecureDfu(transport, bootloader.id, dfuPackage, {
+      prn: 4,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(bootloader.initPacket).toEqual(dfuPackage.initPacket);
+    expect(bootloader.firmware).toEqual(dfuPackage.firmware);
+    expect(progress[0]).toEqual({ stage: 'init', sentBytes: 0, totalBytes: 2500 });
+    expect(progress).toContainEqual({ stage: 'firmware', sentBytes: 1024, totalBytes: 2500 });
+    expect(progress[progress.length - 1]).toEqual({
+      stage: 'complete',
+      sentBytes: 2500,
+      totalBytes: 2500,
+    });
+  });
+
+  it('resends an object whose checksum does not match', async () => {
+    bootloader.corruptNextPacket();
+    await performSecureDfu(transport, bootloader.id, dfuPackage, { prn: 0 });
+
+    expect(bootloader.initPacket).toEqual(dfuPackage.initPacket);
+    expect(bootloader.firmware).toEqual(dfuPackage.firmware);
+  });
+
+  it('resumes from the offset the bootloader already holds', async () => {
+    const firmwareBytes = () =>
+      bootloader.writes
+        .filter((w) => w.characteristic === DFU_PACKET_UUID)
+        .reduce((sum, w) => sum + w.data.length, 0);
+    await expect(
+      performSecureDfu(transport, bootloader.id, dfuPackage, {
+        prn: 4,
+        onProgress: (p) => {
+          if (p.sentBytes >= 1500) transport.failNext('writeWithoutResponse');
+        },
+      })
+    ).rejects.toThrow('Simulated writeWithoutResponse failure');
+    const sentBefore = firmwareBytes();
+
+    const progress: DfuProgress[] = [];
+    await performSecureDfu(transport, bootloader.id, dfuPackage, {
+      prn: 4,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(bootloader.firmware).toEqual(dfuPackage.firmware);
+    expect(progress[1]).toEqual({ stage: 'firmware', sentBytes: 1504, totalBytes: 2500 });
+    expect(firmwareBytes() - sentBefore).toBe(2500 - 1504);
+  });
+
+  it('reports bootloader errors', async () => {
+    await expect(
+      performSecureDfu(transport, bootloader.id, { ...dfuPackage, initPacket: bytes(300) })
+    ).rejects.toThrow('Init packet is larger than the bootloader accepts');
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  arrangeDiscoveredDevices,
+  DEFAULT_DISCOVERY_POLICY,
+  DiscoveredDevice,
+  pruneStaleDevices,
+  recordAdvertisement,
+} from '@/app/bluetooth/state-machine';
+
+const peripheral = (id: string, rssi: number, name?: string) => ({
+  id,
+  name,
+  rssi,
+  advertising: {},
+});
+
+const device = (
+  id: string,
+  smoothedRssi: number,
+  lastSeen: number,
+  name?: string
+): DiscoveredDevice => ({
+  ...peripheral(id, smoothedRssi, name),
+  firstSeen: 0,
+  lastSeen,
+  advertisementCount: 1,
+  smoothedRssi,
+});
+
+describe('recordAdvertisement', () => {
+  it('starts an entry at the first advertisement', () => {
+    expect(
+      recordAdvertisement(undefined, peripheral('A', -60), 1000, DEFAULT_DISCOVERY_POLICY)
+    ).toMatchObject({ firstSeen: 1000, lastSeen: 1000, advertisementCount: 1, smoothedRssi: -60 });
+  });
+
+  it('counts later advertisements and smooths their RSSI', () => {
+    const policy = { ...DEFAULT_DISCOVERY_POLICY, rssiSmoothing: 0.5 };
+    const first = recordAdvertisement(undefined, peripheral('A', -60), 1000, policy);
+    const second = recordAdvertisement(first, peripheral('A', -80, 'Renamed'), 1500, policy);
+
+    expect(second).toMatchObject({
+      name: 'Renamed',
+      rssi: -80,
+      firstSeen: 1000,
+      lastSeen: 1500,
+      advertisementCount: 2,
+      smoothedRssi: -70,
+    });
+  });
+});
+
+describe('pruneStaleDevices', () => {
+  const devices = [device('A', -60, 1000), device('B', -60, 9000)];
+
+  it('drops devices not heard from within the window', () => {
+    expect(pruneStaleDevices(devices, 10000, 5000).map((d) => d.id)).toEqual(['B']);
+  });
+
+  it('keeps everything when pruning is off', () => {
+    expect(pruneStaleDevices(devices, 10000, 0)).toBe(devices);
+  });
+});
+
+describe('arrangeDiscoveredDevices', () => {
+  const devices = [
+    device('A', -80, 3000, 'Thermometer'),
+    device('B', -50, 1000),
+    device('C', -65, 2000, 'LED Board'),
+  ];
+  const ids = (list: DiscoveredDevice[]) => list.map((d) => d.id);
+
+  it('sorts by signal, name with unnamed last, or recency', () => {
+    expect(ids(arrangeDiscoveredDevices(devices, { sortBy: 'rssi' }))).toEqual(['B', 'C', 'A']);
+    expect(ids(arrangeDiscoveredDevices(devices, { sortBy: 'name' }))).toEqual(['C', 'A', 'B']);
+    expect(ids(arrangeDiscoveredDevices(devices, { sortBy: 'recency' }))).toEqual(['A', 'C', 'B']);
+    expect(ids(devices)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('filters by name or id substring and minimum RSSI', () => {
+    expect(
+      ids(arrangeDiscoveredDevices(devices, { sortBy: 'rssi', nameFilter: ' board' }))
+    ).toEqual(['C']);
+    expect(ids(arrangeDiscoveredDevices(devices, { sortBy: 'rssi', nameFilter: 'b' }))).toEqual([
+      'B',
+      'C',
+    ]);
+    expect(ids(arrangeDiscoveredDevices(devices, { sortBy: 'rssi', minRssi: -70 }))).toEqual([
+      'B',
+      'C',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  buildGattTable,
+  characteristicKey,
+  chunkPayload,
+  formatGattValue,
+  parseGattValue,
+} from '@/app/bluetooth/state-machine';
+
+describe('parseGattValue', () => {
+  it('accepts spaced, packed and 0x-prefixed hex', () => {
+    expect(parseGattValue('0a ff', 'hex')).toEqual([0x0a, 0xff]);
+    expect(parseGattValue('0AFF', 'hex')).toEqual([0x0a, 0xff]);
+    expect(parseGattValue('0x0a,0xff', 'hex')).toEqual([0x0a, 0xff]);
+  });
+
+  it('rejects malformed hex', () => {
+    expect(() => parseGattValue('abc', 'hex')).toThrow('Invalid hex value: abc');
+    expect(() => parseGattValue('zz', 'hex')).toThrow();
+  });
+
+  it('accepts decimal bytes and rejects values out of range', () => {
+    expect(parseGattValue('10, 255 0', 'decimal')).toEqual([10, 255, 0]);
+    expect(() => parseGattValue('256', 'decimal')).toThrow('Invalid byte: 256');
+    expect(() => parseGattValue('-1', 'decimal')).toThrow();
+  });
+
+  it('encodes text as UTF-8', () => {
+    expect(parseGattValue('Hi', 'utf8')).toEqual([0x48, 0x69]);
+    expect(parseGattValue('é€', 'utf8')).toEqual([0xc3, 0xa9, 0xe2, 0x82, 0xac]);
+  });
+});
+
+describe('formatGattValue', () => {
+  it('renders every format', () => {
+    expect(formatGattValue([0x48, 0x69, 0x0a], 'hex')).toBe('48 69 0a');
+    expect(formatGattValue([0x48, 0x69], 'decimal')).toBe('72 105');
+    expect(formatGattValue([0xc3, 0xa9], 'utf8')).toBe('é');
+  });
+
+  it('round-trips with parseGattValue', () => {
+    const bytes = parseGattValue('héllo', 'utf8');
+    expect(parseGattValue(formatGattValue(bytes, 'hex'), 'hex')).toEqual(bytes);
+  });
+});
+
+describe('chunkPayload', () => {
+  it('splits payloads to fit the MTU minus the ATT header', () => {
+    const bytes = Array.from({ length: 45 }, (_, i) => i);
+    expect(chunkPayload(bytes).map((c) => c.length)).toEqual([20, 20, 5]);
+    expect(chunkPayload(bytes, 50)).toEqual([bytes]);
+    expect(chunkPayload([])).toEqual([]);
+  });
+});
+
+describe('buildGattTable', () => {
+  it('groups characteristics under their service', () => {
+    const table = buildGattTable({
+      id: 'AA',
+      rssi: -40,
+      advertising: {},
+      services: [{ uuid: '180F' }, { uuid: '180A' }],
+      characteristics: [
+        {
+          service: '180f',
+          characteristic: '2A19',
+          properties: { Read: 'Read', Notify: 'Notify' },
+          descriptors: [{ uuid: '2902', value: 'AAA=' }],
+        },
+        { service: '1234', characteristic: '5678', properties: { Write: 'Write' } },
+      ],
+    });
+
+    expect(table).toEqual([
+      {
+        uuid: '180F',
+        characteristics: [
+          {
+            uuid: '2A19',
+            properties: ['Read', 'Notify'],
+            descriptors: [{ uuid: '2902', value: 'AAA=' }],
+          },
+        ],
+      },
+      { uuid: '180A', characteristics: [] },
+      {
+        uuid: '1234',
+        characteristics: [{ uuid: '5678', properties: ['Write'], descriptors: [] }],
+      },
+    ]);
+  });
+
+  it('keys characteristics case-insensitively', () => {
+    expect(characteristicKey('180F', '2A19')).toBe(characteristicKey('180f', '2a19'));
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  chooseAutoConnectDevices,
+  createKnownDevice,
+  forgetKnownDevice,
+  KnownDevice,
+  knownDeviceLabel,
+  recordConnection,
+  sortKnownDevices,
+  updateKnownDevice,
+} from '@/app/bluetooth/state-machine';
+
+const device = (id: string, changes: Partial<KnownDevice> = {}): KnownDevice => ({
+  ...createKnownDevice(id, `Device ${id}`),
+  ...changes,
+});
+
+const ids = (list: KnownDevice[]) => list.map((d) => d.id);
+
+describe('recordConnection', () => {
+  it('adds a device on its first connection', () => {
+    expect(recordConnection([], 'A', 'Board', 1000)).toEqual([
+      {
+        id: 'A',
+        name: 'Board',
+        nickname: null,
+        lastConnected: 1000,
+        connectionCount: 1,
+        favourite: false,
+        autoConnect: true,
+      },
+    ]);
+  });
+
+  it('counts later connections and keeps preferences and the last known name', () => {
+    const devices = [device('A', { nickname: 'Bench', favourite: true, connectionCount: 3 })];
+
+    expect(recordConnection(devices, 'A', null, 2000)).toEqual([
+      { ...devices[0], lastConnected: 2000, connectionCount: 4 },
+    ]);
+    expect(recordConnection(devices, 'A', 'Renamed', 2000)[0].name).toBe('Renamed');
+  });
+});
+
+describe('updateKnownDevice', () => {
+  const devices = [device('A'), device('B')];
+
+  it('changes only the given device', () => {
+    const updated = updateKnownDevice(devices, 'B', { favourite: true, autoConnect: false });
+
+    expect(updated[0]).toBe(devices[0]);
+    expect(updated[1]).toMatchObject({ favourite: true, autoConnect: false });
+  });
+
+  it('trims nicknames and clears blank ones', () => {
+    expect(updateKnownDevice(devices, 'A', { nickname: ' Bench ' })[0].nickname).toBe('Bench');
+    expect(updateKnownDevice(devices, 'A', { nickname: '  ' })[0].nickname).toBeNull();
+  });
+});
+
+describe('forgetKnownDevice', () => {
+  it('drops the device', () => {
+    expect(ids(forgetKnownDevice([device('A'), device('B')], 'A'))).toEqual(['B']);
+  });
+});
+
+describe('sortKnownDevices', () => {
+  it('puts favourites first, then the most recently connected, never-connected last', () => {
+    const devices = [
+      device('A', { lastConnected: 1000 }),
+      device('B'),
+      device('C', { lastConnected: 3000 }),
+      device('D', { lastConnected: 500, favourite: true }),
+    ];
+
+    expect(ids(sortKnownDevices(devices))).toEqual(['D', 'C', 'A', 'B']);
+    expect(ids(devices)).toEqual(['A', 'B', 'C', 'D']);
+  });
+});
+
+describe('chooseAutoConnectDevices', () => {
+  const devices = [
+    device('A', { lastConnected: 3000, autoConnect: false }),
+    device('B', { lastConnected: 2000 }),
+    device('C', { lastConnected: 1000, favourite: true }),
+  ];
+
+  it('picks auto-connect devices in display order up to the limit', () => {
+    expect(ids(chooseAutoConnectDevices(devices, 1))).toEqual(['C']);
+    expect(ids(chooseAutoConnectDevices(devices, 5))).toEqual(['C', 'B']);
+    expect(chooseAutoConnectDevices(devices, 0)).toEqual([]);
+  });
+});
+
+describe('knownDeviceLabel', () => {
+  it('prefers the nickname over the advertised name', () => {
+    expect(knownDeviceLabel(device('A'))).toBe('Device A');
+    expect(knownDeviceLabel(device('A', { nickname: 'Bench' }))).toBe('Bench');
+  });
+});
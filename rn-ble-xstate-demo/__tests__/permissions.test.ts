@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { createPlatformPermissions } from '@/app/bluetooth/permissions';
+import { permissionPromptStorage } from '@/app/bluetooth/storage';
+import { createSimulatedTransport, SimulatedTransport } from '@/app/bluetooth/transport';
+
+describe('createPlatformPermissions on iOS', () => {
+  let transport: SimulatedTransport;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    Platform.OS = 'ios';
+    transport = createSimulatedTransport({ adapterState: 'unknown' });
+  });
+
+  it('reports undetermined without starting Bluetooth before the prompt was shown', async () => {
+    const start = jest.spyOn(transport, 'start');
+
+    await expect(createPlatformPermissions(transport).check()).resolves.toBe('undetermined');
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('starts Bluetooth to prompt and waits for the answer', async () => {
+    const permissions = createPlatformPermissions(transport);
+    const start = jest.spyOn(transport, 'start');
+
+    const request = permissions.request();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(start).toHaveBeenCalledTimes(1);
+
+    transport.setAdapterState('on');
+    await expect(request).resolves.toBe('granted');
+    expect((await permissionPromptStorage.load()).data).toBe(true);
+    await expect(permissions.check()).resolves.toBe('granted');
+  });
+
+  it('reports a refusal as denied, then blocked since iOS never asks again', async () => {
+    transport.adapterState = 'unauthorized';
+    const permissions = createPlatformPermissions(transport);
+
+    await expect(permissions.request()).resolves.toBe('denied');
+    await expect(permissions.request()).resolves.toBe('blocked');
+    await expect(permissions.check()).resolves.toBe('blocked');
+  });
+
+  it('fails when Bluetooth cannot start', async () => {
+    transport.failNext('start', new Error('NSBluetoothAlwaysUsageDescription is not set'));
+
+    await expect(createPlatformPermissions(transport).request()).rejects.toThrow(
+      'NSBluetoothAlwaysUsageDescription is not set'
+    );
+    expect((await permissionPromptStorage.load()).data).toBe(false);
+  });
+});
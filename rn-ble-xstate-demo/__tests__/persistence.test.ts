@@ -0,0 +1,161 @@
+import { InspectionEvent, StateValue } from 'xstate';
+import {
+  BleContext,
+  createKnownDevice,
+  createSnapshotSaver,
+  DEFAULT_SCAN_SETTINGS,
+  PersistedBleSnapshot,
+  pickPersistedState,
+  rehydrateBleSnapshot,
+  storageFailed,
+} from '@/app/bluetooth/state-machine';
+
+const persisted = (value: StateValue, context: Partial<BleContext> = {}) =>
+  ({
+    status: 'active',
+    output: undefined,
+    error: undefined,
+    value,
+    context: {
+      scanSettings: DEFAULT_SCAN_SETTINGS,
+      knownDevices: [],
+      lastValues: {},
+      ...context,
+    },
+    children: {},
+  }) as PersistedBleSnapshot;
+
+describe('pickPersistedState', () => {
+  const running = (value: StateValue, context: Partial<BleContext> = {}) =>
+    ({ value, context: persisted(value, { devices: {}, ...context }).context }) as Parameters<
+      typeof pickPersistedState
+    >[0];
+  const deviceRef = (deviceId: string, led: boolean) =>
+    ({ getSnapshot: () => ({ context: { deviceId, values: { lbs: { led } } } }) }) as never;
+
+  it('keeps only settings, known devices and last values', () => {
+    const knownDevices = [createKnownDevice('A', 'Board')];
+    const state = running('ready', { knownDevices, error: 'Lost', adapterState: 'off' });
+
+    expect(pickPersistedState(state)).toEqual({
+      started: true,
+      context: { knownDevices, scanSettings: DEFAULT_SCAN_SETTINGS, lastValues: {} },
+    });
+    expect(pickPersistedState(running('idle')).started).toBe(false);
+  });
+
+  it('takes last values from connected devices over restored ones', () => {
+    const state = running('ready', {
+      knownDevices: [createKnownDevice('A', 'Board'), createKnownDevice('B', 'Board')],
+      lastValues: { A: { lbs: { led: false } }, B: { lbs: { led: false } } },
+      devices: { A: deviceRef('A', true) },
+    });
+
+    expect(pickPersistedState(state).context.lastValues).toEqual({
+      A: { lbs: { led: true } },
+      B: { lbs: { led: false } },
+    });
+  });
+
+  it('drops the values of devices that are no longer known', () => {
+    const state = running('ready', {
+      knownDevices: [createKnownDevice('B', 'Board')],
+      lastValues: { B: { lbs: { led: false } }, C: { lbs: { led: false } } },
+      devices: { A: deviceRef('A', true) },
+    });
+
+    expect(pickPersistedState(state).context.lastValues).toEqual({ B: { lbs: { led: false } } });
+  });
+});
+
+describe('rehydrateBleSnapshot', () => {
+  const initial = persisted('idle');
+
+  const saved = (started: boolean, context: Partial<BleContext> = {}) => ({
+    started,
+    context: { scanSettings: DEFAULT_SCAN_SETTINGS, knownDevices: [], lastValues: {}, ...context },
+  });
+
+  it('starts from the initial snapshot with the restorable context', () => {
+    const knownDevices = [createKnownDevice('A', 'Board')];
+    const { snapshot } = rehydrateBleSnapshot(saved(true, { knownDevices }), initial);
+
+    expect(snapshot.value).toBe('idle');
+    expect(snapshot.children).toEqual({});
+    expect(snapshot.context.knownDevices).toBe(knownDevices);
+  });
+
+  it('resumes only when the app had started', () => {
+    expect(rehydrateBleSnapshot(saved(true), initial).resume).toBe(true);
+    expect(rehydrateBleSnapshot(saved(false), initial).resume).toBe(false);
+  });
+});
+
+describe('storageFailed', () => {
+  it('names what failed and why', () => {
+    expect(storageFailed('save the app state', new Error('Disk full'))).toEqual({
+      type: 'STORAGE_FAILED',
+      error: 'Could not save the app state: Disk full',
+    });
+  });
+});
+
+describe('createSnapshotSaver', () => {
+  const ble = {};
+  const device = {};
+  const snapshotEvent = (actorRef: object, snapshot: object) =>
+    ({ type: '@xstate.snapshot', actorRef, snapshot }) as unknown as InspectionEvent;
+  const bleSnapshot = (value: StateValue, knownDevices: BleContext['knownDevices'] = []) => ({
+    value,
+    context: { scanSettings: DEFAULT_SCAN_SETTINGS, knownDevices },
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves once after a change worth keeping', () => {
+    const save = jest.fn();
+    const inspect = createSnapshotSaver(save, 100);
+
+    inspect(snapshotEvent(ble, bleSnapshot('idle')));
+    inspect(snapshotEvent(ble, bleSnapshot('scanning')));
+    expect(save).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores snapshots that change nothing it tracks', () => {
+    const save = jest.fn();
+    const inspect = createSnapshotSaver(save, 100);
+    const knownDevices = [createKnownDevice('A', 'Board')];
+
+    inspect(snapshotEvent(ble, bleSnapshot({ scanning: 'active' }, knownDevices)));
+    inspect(snapshotEvent(ble, bleSnapshot({ scanning: 'paused' }, knownDevices)));
+    inspect(snapshotEvent(device, { context: { deviceId: 'A' } }));
+    jest.advanceTimersByTime(100);
+
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('coalesces a burst of changes into one save', () => {
+    const save = jest.fn();
+    const inspect = createSnapshotSaver(save, 100);
+
+    inspect(snapshotEvent(device, { context: { deviceId: 'A', values: {} } }));
+    inspect(snapshotEvent(device, { context: { deviceId: 'A', values: { lbs: { led: true } } } }));
+    jest.advanceTimersByTime(50);
+    inspect(snapshotEvent(device, { context: { deviceId: 'A', values: { lbs: { led: false } } } }));
+    jest.advanceTimersByTime(100);
+    expect(save).toHaveBeenCalledTimes(1);
+
+    inspect(snapshotEvent(device, { context: { deviceId: 'A', values: { lbs: { led: true } } } }));
+    jest.advanceTimersByTime(100);
+    expect(save).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  batteryProfile,
+  booleanCodec,
+  deviceInformationProfile,
+  DEFAULT_PROFILES,
+  encodeHeartRateMeasurement,
+  findProfile,
+  getProfileCharacteristic,
+  getScanServiceUUIDs,
+  lbsProfile,
+  heartRateProfile,
+  matchProfiles,
+  normalizeUuid,
+  parseHeartRateMeasurement,
+  sameUuid,
+  uint8Codec,
+  utf8Codec,
+} from '@/app/bluetooth/profiles';
+import { LBS_SERVICE_UUID } from '@/app/bluetooth/constants';
+
+describe('codecs', () => {
+  it('round-trips booleans and bytes', () => {
+    expect(booleanCodec.decode(booleanCodec.encode!(true))).toBe(true);
+    expect(booleanCodec.decode([0])).toBe(false);
+    expect(booleanCodec.decode([])).toBe(false);
+    expect(uint8Codec.encode!(300)).toEqual([44]);
+  });
+
+  it('round-trips UTF-8 text', () => {
+    expect(utf8Codec.decode(utf8Codec.encode!('héllo €'))).toBe('héllo €');
+  });
+});
+
+describe('profile registry', () => {
+  it('ships LBS, Heart Rate, Battery and Device Information as default profiles', () => {
+    expect(DEFAULT_PROFILES).toEqual([
+      lbsProfile,
+      heartRateProfile,
+      batteryProfile,
+      deviceInformationProfile,
+    ]);
+    expect(findProfile('lbs')).toBe(lbsProfile);
+    expect(findProfile('missing')).toBeUndefined();
+  });
+
+  it('matches profiles by service UUID, ignoring case', () => {
+    expect(matchProfiles(DEFAULT_PROFILES, [LBS_SERVICE_UUID.toLowerCase()])).toEqual([lbsProfile]);
+    expect(matchProfiles(DEFAULT_PROFILES, ['180D'])).toEqual([heartRateProfile]);
+    expect(matchProfiles(DEFAULT_PROFILES, ['1811'])).toEqual([]);
+  });
+
+  it('scans for each primary profile service once', () => {
+    expect(getScanServiceUUIDs([lbsProfile, lbsProfile])).toEqual([LBS_SERVICE_UUID]);
+    expect(getScanServiceUUIDs([batteryProfile, deviceInformationProfile])).toEqual([]);
+  });
+
+  it('rejects unknown profile values', () => {
+    expect(getProfileCharacteristic(DEFAULT_PROFILES, 'lbs', 'led').characteristic.label).toBe('LED');
+    expect(() => getProfileCharacteristic(DEFAULT_PROFILES, 'lbs', 'buzzer')).toThrow(
+      'Unknown profile value lbs.buzzer'
+    );
+  });
+});
+
+describe('uuids', () => {
+  it('expands 16- and 32-bit SIG UUIDs', () => {
+    expect(normalizeUuid('180D')).toBe('0000180d-0000-1000-8000-00805f9b34fb');
+    expect(normalizeUuid('0000180D')).toBe('0000180d-0000-1000-8000-00805f9b34fb');
+    expect(sameUuid('2a37', '00002A37-0000-1000-8000-00805F9B34FB')).toBe(true);
+    expect(sameUuid(LBS_SERVICE_UUID, '1523')).toBe(false);
+  });
+});
+
+describe('parseHeartRateMeasurement', () => {
+  it('parses a uint8 BPM without optional fields', () => {
+    expect(parseHeartRateMeasurement([0x00, 72])).toEqual({
+      bpm: 72,
+      sensorContact: null,
+      energyExpended: null,
+      rrIntervals: [],
+    });
+  });
+
+  it('parses a uint16 BPM', () => {
+    expect(parseHeartRateMeasurement([0x01, 0x2c, 0x01]).bpm).toBe(300);
+  });
+
+  it('reports sensor contact only when supported', () => {
+    expect(parseHeartRateMeasurement([0x06, 60]).sensorContact).toBe(true);
+    expect(parseHeartRateMeasurement([0x04, 60]).sensorContact).toBe(false);
+    expect(parseHeartRateMeasurement([0x02, 60]).sensorContact).toBeNull();
+  });
+
+  it('parses energy expended and RR intervals in 1/1024 s', () => {
+    // flags: energy + RR; 80 BPM; 500 kJ; RR 1024 and 512 units
+    expect(parseHeartRateMeasurement([0x18, 80, 0xf4, 0x01, 0x00, 0x04, 0x00, 0x02])).toEqual({
+      bpm: 80,
+      sensorContact: null,
+      energyExpended: 500,
+      rrIntervals: [1000, 500],
+    });
+  });
+
+  it('rejects truncated payloads', () => {
+    expect(() => parseHeartRateMeasurement([0x00])).toThrow('Heart Rate Measurement too short');
+  });
+
+  it('round-trips with encodeHeartRateMeasurement', () => {
+    const measurement = { bpm: 260, sensorContact: false, energyExpended: 12, rrIntervals: [750] };
+    expect(parseHeartRateMeasurement(encodeHeartRateMeasurement(measurement))).toEqual(measurement);
+  });
+});
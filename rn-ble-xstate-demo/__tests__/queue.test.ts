@@ -0,0 +1,166 @@
+import { createOperationQueue, getDeviceQueue } from '@/app/bluetooth/state-machine';
+import { createSimulatedTransport } from '@/app/bluetooth/transport';
+
+// Resolves when `release` is called - lets a test hold an operation mid-flight
+const deferred = <T = void>() => {
+  let release!: (value: T) => void;
+  const promise = new Promise<T>((resolve) => {
+    release = resolve;
+  });
+  return { promise, release };
+};
+
+describe('createOperationQueue', () => {
+  it('runs one operation at a time, in order', async () => {
+    const queue = createOperationQueue();
+    const started: string[] = [];
+    const first = deferred();
+    const run = (name: string, wait?: Promise<void>) => async () => {
+      started.push(name);
+      await wait;
+      return name;
+    };
+
+    const results = [
+      queue.enqueue(run('a', first.promise)),
+      queue.enqueue(run('b')),
+      queue.enqueue(run('c')),
+    ];
+    expect(started).toEqual(['a']);
+    expect(queue.depth).toBe(3);
+
+    first.release();
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(queue.depth).toBe(0);
+  });
+
+  it('runs higher priorities first and keeps FIFO order within a priority', async () => {
+    const queue = createOperationQueue();
+    const order: string[] = [];
+    const blocker = deferred();
+    const run = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const results = [
+      queue.enqueue(() => blocker.promise),
+      queue.enqueue(run('low'), { priority: 'low' }),
+      queue.enqueue(run('normal 1')),
+      queue.enqueue(run('high 1'), { priority: 'high' }),
+      queue.enqueue(run('normal 2'), { priority: 'normal' }),
+      queue.enqueue(run('high 2'), { priority: 'high' }),
+    ];
+    blocker.release();
+    await Promise.all(results);
+
+    expect(order).toEqual(['high 1', 'high 2', 'normal 1', 'normal 2', 'low']);
+  });
+
+  it('retries a failing operation up to its retry count', async () => {
+    const queue = createOperationQueue();
+    let attempts = 0;
+    const flaky = async () => {
+      attempts++;
+      if (attempts < 3) throw new Error(`Attempt ${attempts} failed`);
+      return attempts;
+    };
+
+    await expect(queue.enqueue(flaky, { retries: 2, retryDelay: 0 })).resolves.toBe(3);
+
+    attempts = 0;
+    await expect(queue.enqueue(flaky, { retries: 1, retryDelay: 0 })).rejects.toThrow(
+      'Attempt 2 failed'
+    );
+  });
+
+  it('times out an attempt and moves on', async () => {
+    const queue = createOperationQueue({ timeout: 10 });
+    const hung = queue.enqueue(() => new Promise(() => {}));
+    const next = queue.enqueue(async () => 'next');
+
+    await expect(hung).rejects.toThrow('GATT operation timed out');
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('removes an aborted operation before it starts', async () => {
+    const queue = createOperationQueue();
+    const blocker = deferred();
+    const controller = new AbortController();
+    const skipped = jest.fn(async () => {});
+
+    const running = queue.enqueue(() => blocker.promise);
+    const aborted = queue.enqueue(skipped, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow('GATT operation cancelled');
+    expect(queue.depth).toBe(1);
+    blocker.release();
+    await running;
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('cancels everything queued on clear and stops retrying the running operation', async () => {
+    const queue = createOperationQueue();
+    let fail!: (error: Error) => void;
+    const attempts = jest.fn(
+      () =>
+        new Promise<never>((_, reject) => {
+          fail = reject;
+        })
+    );
+
+    const running = queue.enqueue(attempts, { retries: 5, retryDelay: 0 });
+    const queued = queue.enqueue(async () => 'never');
+    queue.clear();
+    fail(new Error('Link lost'));
+
+    await expect(running).rejects.toThrow('Link lost');
+    await expect(queued).rejects.toThrow('GATT operation cancelled');
+    expect(attempts).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a queued operation by id and lists the rest', async () => {
+    const queue = createOperationQueue();
+    const blocker = deferred();
+    const skipped = jest.fn(async () => {});
+    const changes = jest.fn();
+    queue.subscribe(changes);
+
+    const running = queue.enqueue(() => blocker.promise, { label: 'Write lbs.led' });
+    const cancelled = queue.enqueue(skipped, { label: 'Read lbs.button' });
+    queue.enqueue(async () => {}, { label: 'Subscribe', priority: 'high' });
+    const [, setup, read] = queue.operations;
+    expect(queue.operations).toEqual([
+      { id: expect.any(Number), label: 'Write lbs.led', priority: 'normal', running: true },
+      { id: setup.id, label: 'Subscribe', priority: 'high', running: false },
+      { id: read.id, label: 'Read lbs.button', priority: 'normal', running: false },
+    ]);
+
+    changes.mockClear();
+    expect(queue.cancel(read.id)).toBe(true);
+    expect(queue.cancel(read.id)).toBe(false);
+    await expect(cancelled).rejects.toThrow('GATT operation cancelled');
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect(queue.operations.map((operation) => operation.label)).toEqual([
+      'Write lbs.led',
+      'Subscribe',
+    ]);
+
+    blocker.release();
+    await running;
+    expect(skipped).not.toHaveBeenCalled();
+  });
+});
+
+describe('getDeviceQueue', () => {
+  it('shares one queue per device and transport', () => {
+    const transport = createSimulatedTransport();
+
+    expect(getDeviceQueue(transport, 'A')).toBe(getDeviceQueue(transport, 'A'));
+    expect(getDeviceQueue(transport, 'A')).not.toBe(getDeviceQueue(transport, 'B'));
+    expect(getDeviceQueue(transport, 'A')).not.toBe(
+      getDeviceQueue(createSimulatedTransport(), 'A')
+    );
+  });
+});
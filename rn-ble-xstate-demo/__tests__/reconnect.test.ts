@@ -0,0 +1,39 @@
+import {
+  DEFAULT_RECONNECT_POLICY,
+  getReconnectDelay,
+  isLinkLossError,
+} from '@/app/bluetooth/state-machine';
+
+describe('getReconnectDelay', () => {
+  const policy = { ...DEFAULT_RECONNECT_POLICY, jitter: 0 };
+  const noJitter = () => 0.5;
+
+  it('grows exponentially from the initial delay', () => {
+    expect([1, 2, 3, 4].map((attempt) => getReconnectDelay(policy, attempt, noJitter))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+  });
+
+  it('never exceeds the maximum delay', () => {
+    expect(getReconnectDelay(policy, 20, noJitter)).toBe(policy.maxDelay);
+  });
+
+  it('spreads delays by the jitter ratio', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    expect(getReconnectDelay(jittered, 1, () => 0)).toBe(500);
+    expect(getReconnectDelay(jittered, 1, () => 1)).toBe(1500);
+  });
+});
+
+describe('isLinkLossError', () => {
+  it('recognizes errors that mean the link is gone', () => {
+    expect(isLinkLossError('Peripheral SIM-LBS-1 is not connected')).toBe(true);
+    expect(isLinkLossError('Device disconnected unexpectedly')).toBe(true);
+    expect(isLinkLossError('Connection lost')).toBe(true);
+  });
+
+  it('treats other GATT failures as transient', () => {
+    expect(isLinkLossError('Write not permitted')).toBe(false);
+    expect(isLinkLossError('Write timed out after 5000 ms')).toBe(false);
+  });
+});
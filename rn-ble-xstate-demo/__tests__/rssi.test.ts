@@ -0,0 +1,36 @@
+import { createRssiFilter, DEFAULT_RSSI_POLICY } from '@/app/bluetooth/state-machine';
+
+describe('createRssiFilter', () => {
+  const readings = [-60, -70, -62, -80, -58];
+  const run = (filter: (rssi: number) => number) => readings.map(filter);
+
+  it('passes readings through without smoothing', () => {
+    expect(run(createRssiFilter({ ...DEFAULT_RSSI_POLICY, smoothing: 'none' }))).toEqual(readings);
+  });
+
+  it('averages the last window of readings', () => {
+    const filter = createRssiFilter({
+      ...DEFAULT_RSSI_POLICY,
+      smoothing: 'movingAverage',
+      window: 2,
+    });
+    expect(run(filter)).toEqual([-60, -65, -66, -71, -69]);
+  });
+
+  it('starts a Kalman estimate at the first reading and damps jumps', () => {
+    const filter = createRssiFilter({ ...DEFAULT_RSSI_POLICY, smoothing: 'kalman' });
+    expect(filter(-60)).toBe(-60);
+
+    const afterJump = filter(-80);
+    expect(afterJump).toBeLessThan(-60);
+    expect(afterJump).toBeGreaterThan(-70);
+  });
+
+  it('converges on a steady Kalman signal', () => {
+    const filter = createRssiFilter({ ...DEFAULT_RSSI_POLICY, smoothing: 'kalman' });
+    filter(-50);
+    let estimate = 0;
+    for (let i = 0; i < 100; i++) estimate = filter(-75);
+    expect(estimate).toBeCloseTo(-75, 0);
+  });
+});
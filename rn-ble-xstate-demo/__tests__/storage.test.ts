@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KNOWN_DEVICES_KEY, STORAGE_KEY } from '@/app/bluetooth/constants';
+import { createKnownDevice, DEFAULT_SCAN_SETTINGS } from '@/app/bluetooth/state-machine';
+import {
+  createVersionedStorage,
+  KNOWN_DEVICES_SCHEMA,
+  knownDevicesStorage,
+  migrate,
+  migrateUnversionedDevices,
+  readStored,
+  StorageMigrationError,
+  StorageSchema,
+  validateBleSnapshot,
+  validateKnownDevices,
+} from '@/app/bluetooth/storage';
+
+// v0 is a number, v1 wraps it in { count }, v2 adds a label
+const counterSchema: StorageSchema<{ count: number; label: string }> = {
+  key: 'counter',
+  legacyKey: 'old_counter',
+  version: 2,
+  migrations: [(data) => ({ count: data }), (data) => ({ ...(data as object), label: 'none' })],
+  validate: (data) =>
+    typeof (data as { count?: unknown })?.count === 'number'
+      ? (data as { count: number; label: string })
+      : null,
+  fallback: { count: 0, label: 'none' },
+};
+
+const envelope = (version: number, data: unknown) => JSON.stringify({ version, data });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('migrate', () => {
+  it('runs every migration from the stored version in order', () => {
+    expect(migrate(counterSchema, 0, 3)).toEqual({ count: 3, label: 'none' });
+    expect(migrate(counterSchema, 1, { count: 3 })).toEqual({ count: 3, label: 'none' });
+    expect(migrate(counterSchema, 2, { count: 3, label: 'a' })).toEqual({ count: 3, label: 'a' });
+  });
+
+  it('rejects versions it does not know and data that fails validation', () => {
+    expect(() => migrate(counterSchema, 3, {})).toThrow(StorageMigrationError);
+    expect(() => migrate(counterSchema, 2, { label: 'a' })).toThrow('invalid data for version 2');
+  });
+});
+
+describe('readStored', () => {
+  it('reports an empty store', () => {
+    expect(readStored(counterSchema, null)).toEqual({
+      data: counterSchema.fallback,
+      status: 'empty',
+      storedVersion: null,
+      error: null,
+    });
+  });
+
+  it('loads current data and migrates older envelopes', () => {
+    expect(readStored(counterSchema, envelope(2, { count: 1, label: 'a' }))).toMatchObject({
+      data: { count: 1, label: 'a' },
+      status: 'loaded',
+    });
+    expect(readStored(counterSchema, envelope(1, { count: 1 }))).toMatchObject({
+      status: 'migrated',
+      storedVersion: 1,
+    });
+  });
+
+  it('treats values without an envelope, and the legacy key, as version 0', () => {
+    expect(readStored(counterSchema, '5').data).toEqual({ count: 5, label: 'none' });
+    expect(readStored(counterSchema, null, '7')).toMatchObject({
+      data: { count: 7 },
+      status: 'migrated',
+      storedVersion: 0,
+    });
+  });
+
+  it('recovers from unreadable data', () => {
+    expect(readStored(counterSchema, '{oops')).toMatchObject({
+      data: counterSchema.fallback,
+      status: 'recovered',
+      error: 'counter: unreadable JSON',
+    });
+  });
+
+  it('ignores newer and invalid data', () => {
+    expect(readStored(counterSchema, envelope(9, {}))).toMatchObject({
+      data: counterSchema.fallback,
+      status: 'ignored',
+      storedVersion: 9,
+      error: 'counter: unsupported version 9 (current is 2)',
+    });
+    expect(readStored(counterSchema, envelope(2, 'text')).status).toBe('ignored');
+  });
+});
+
+describe('createVersionedStorage', () => {
+  const storage = createVersionedStorage(counterSchema);
+
+  it('saves in an envelope and loads it back', async () => {
+    await storage.save({ count: 2, label: 'b' });
+
+    expect(await AsyncStorage.getItem('counter')).toBe(envelope(2, { count: 2, label: 'b' }));
+    expect((await storage.load()).data).toEqual({ count: 2, label: 'b' });
+  });
+
+  it('saves migrated data back and drops the legacy key', async () => {
+    await AsyncStorage.setItem('old_counter', '4');
+
+    expect((await storage.load()).status).toBe('migrated');
+    expect(await AsyncStorage.getItem('counter')).toBe(envelope(2, { count: 4, label: 'none' }));
+    expect(await AsyncStorage.getItem('old_counter')).toBeNull();
+  });
+
+  it('removes values that are not JSON', async () => {
+    await AsyncStorage.setItem('counter', '{oops');
+
+    expect((await storage.load()).status).toBe('recovered');
+    expect(await AsyncStorage.getItem('counter')).toBeNull();
+  });
+
+  it('keeps values from a newer version', async () => {
+    await AsyncStorage.setItem('counter', envelope(3, { count: 1 }));
+
+    expect(await storage.load()).toMatchObject({ data: counterSchema.fallback, status: 'ignored' });
+    expect(await AsyncStorage.getItem('counter')).toBe(envelope(3, { count: 1 }));
+  });
+
+  it('rejects a value it cannot serialize', async () => {
+    const cyclic: { count: number; label: string; self?: unknown } = { count: 1, label: 'a' };
+    cyclic.self = cyclic;
+
+    await expect(storage.save(cyclic)).rejects.toThrow(TypeError);
+    expect(await AsyncStorage.getItem('counter')).toBeNull();
+  });
+});
+
+describe('known devices v0 → v1', () => {
+  it('turns a bare legacy id into a device', () => {
+    expect(migrateUnversionedDevices('SIM-LBS-0001')).toEqual([
+      createKnownDevice('SIM-LBS-0001', null),
+    ]);
+    expect(migrateUnversionedDevices('')).toEqual([]);
+  });
+
+  it('turns the single stored device into a device', () => {
+    expect(migrateUnversionedDevices({ id: 'A', name: 'Board' })).toEqual([
+      createKnownDevice('A', 'Board'),
+    ]);
+  });
+
+  it('keeps a list saved without a version', () => {
+    const devices = [createKnownDevice('A', 'Board')];
+    expect(migrateUnversionedDevices(devices)).toBe(devices);
+  });
+
+  it('reads both legacy formats from the old key', () => {
+    expect(readStored(KNOWN_DEVICES_SCHEMA, null, 'SIM-LBS-0001').data).toEqual([
+      createKnownDevice('SIM-LBS-0001', null),
+    ]);
+    expect(
+      readStored(KNOWN_DEVICES_SCHEMA, null, JSON.stringify({ id: 'A', name: 'Board' })).data
+    ).toEqual([createKnownDevice('A', 'Board')]);
+  });
+
+  it('ignores data it cannot migrate', () => {
+    expect(readStored(KNOWN_DEVICES_SCHEMA, null, '42').status).toBe('ignored');
+  });
+});
+
+describe('validateKnownDevices', () => {
+  it('fills in missing fields and drops malformed and repeated entries', () => {
+    expect(
+      validateKnownDevices([
+        { id: 'A', name: 'Board', favourite: 'yes', connectionCount: -1 },
+        { name: 'No id' },
+        null,
+        { id: 'A', name: 'Again' },
+      ])
+    ).toEqual([createKnownDevice('A', 'Board')]);
+  });
+
+  it('rejects anything but a list', () => {
+    expect(validateKnownDevices({ id: 'A' })).toBeNull();
+  });
+});
+
+describe('knownDevicesStorage', () => {
+  it('migrates the legacy stored device on load', async () => {
+    await AsyncStorage.setItem(STORAGE_KEY, 'SIM-LBS-0001');
+
+    expect((await knownDevicesStorage.load()).data).toEqual([
+      createKnownDevice('SIM-LBS-0001', null),
+    ]);
+    expect(JSON.parse((await AsyncStorage.getItem(KNOWN_DEVICES_KEY))!).version).toBe(1);
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('validateBleSnapshot', () => {
+  const context = { scanSettings: DEFAULT_SCAN_SETTINGS, knownDevices: [] };
+
+  it('accepts saved state with settings and known devices', () => {
+    expect(validateBleSnapshot({ started: false, context })).toEqual({
+      started: false,
+      context: { ...context, lastValues: {} },
+    });
+  });
+
+  it('rejects state rehydration cannot read', () => {
+    expect(validateBleSnapshot({ context })).toBeNull();
+    expect(
+      validateBleSnapshot({ started: true, context: { ...context, knownDevices: {} } })
+    ).toBeNull();
+    expect(validateBleSnapshot('idle')).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useBluetoothRehydrated } from './bluetooth/state-machine';
 import HomeScreen from './bluetooth/ui/index';
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -10,10 +11,12 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  // The BLE actor starts from the snapshot saved by the last session
+  const rehydrated = useBluetoothRehydrated();
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <HomeScreen />
+      {rehydrated && <HomeScreen />}
       <StatusBar style="auto" />
     </ThemeProvider>
   );
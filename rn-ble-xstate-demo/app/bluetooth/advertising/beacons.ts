@@ -0,0 +1,124 @@
+import { uuid16 } from '../profiles';
+import { APPLE_COMPANY_ID } from './companies';
+import { Beacon, IBeacon, ManufacturerData } from './types';
+
+/**
+ * Service data UUID Eddystone frames are advertised under
+ */
+export const EDDYSTONE_SERVICE_UUID = uuid16(0xfeaa);
+
+const IBEACON_TYPE = 0x02;
+const IBEACON_LENGTH = 0x15;
+
+const EDDYSTONE_FRAME = {
+  uid: 0x00,
+  url: 0x10,
+  tlm: 0x20,
+} as const;
+
+const URL_SCHEMES = ['http://www.', 'https://www.', 'http://', 'https://'];
+const URL_EXPANSIONS = [
+  '.com/',
+  '.org/',
+  '.edu/',
+  '.net/',
+  '.info/',
+  '.biz/',
+  '.gov/',
+  '.com',
+  '.org',
+  '.edu',
+  '.net',
+  '.info',
+  '.biz',
+  '.gov',
+];
+
+export const toHex = (bytes: number[]) =>
+  bytes.map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const int8 = (byte: number) => (byte > 0x7f ? byte - 0x100 : byte);
+const uint16BE = (bytes: number[], offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const uint32BE = (bytes: number[], offset: number) =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + uint16BE(bytes, offset + 2);
+
+/**
+ * Formats 16 bytes in transmission order as a dashed UUID
+ */
+export function formatUuid(bytes: number[]): string {
+  const hex = toHex(bytes);
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)]
+    .join('-')
+    .toUpperCase();
+}
+
+/**
+ * Reads an iBeacon from manufacturer data - null for anything else
+ */
+export function decodeIBeacon({ companyId, data }: ManufacturerData): IBeacon | null {
+  if (companyId !== APPLE_COMPANY_ID || data.length < 23) return null;
+  if (data[0] !== IBEACON_TYPE || data[1] !== IBEACON_LENGTH) return null;
+
+  return {
+    type: 'iBeacon',
+    uuid: formatUuid(data.slice(2, 18)),
+    major: uint16BE(data, 18),
+    minor: uint16BE(data, 20),
+    measuredPower: int8(data[22]),
+  };
+}
+
+function decodeEddystoneUrl(data: number[]): string | null {
+  const scheme = URL_SCHEMES[data[2]];
+  if (scheme === undefined) return null;
+  return data
+    .slice(3)
+    .reduce(
+      (url, byte) =>
+        url + (byte < URL_EXPANSIONS.length ? URL_EXPANSIONS[byte] : String.fromCharCode(byte)),
+      scheme
+    );
+}
+
+/**
+ * Reads an Eddystone UID, URL or TLM frame from Eddystone service data - null for other
+ * frame types (EID, encrypted TLM) and truncated frames
+ */
+export function decodeEddystone(data: number[]): Beacon | null {
+  switch (data[0]) {
+    case EDDYSTONE_FRAME.uid:
+      if (data.length < 18) return null;
+      return {
+        type: 'eddystoneUid',
+        txPower: int8(data[1]),
+        namespace: toHex(data.slice(2, 12)),
+        instance: toHex(data.slice(12, 18)),
+      };
+
+    case EDDYSTONE_FRAME.url: {
+      const url = data.length >= 3 ? decodeEddystoneUrl(data) : null;
+      return url === null ? null : { type: 'eddystoneUrl', txPower: int8(data[1]), url };
+    }
+
+    case EDDYSTONE_FRAME.tlm: {
+      // Version 0 is the only unencrypted layout
+      if (data.length < 14 || data[1] !== 0) return null;
+      const battery = uint16BE(data, 2);
+      const temperature = uint16BE(data, 4);
+      return {
+        type: 'eddystoneTlm',
+        batteryVoltage: battery === 0 ? null : battery,
+        // Signed 8.8 fixed point; 0x8000 means not supported
+        temperature:
+          temperature === 0x8000
+            ? null
+            : (temperature > 0x7fff ? temperature - 0x10000 : temperature) / 256,
+        advertisementCount: uint32BE(data, 6),
+        uptime: uint32BE(data, 10) / 10,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Bluetooth SIG company identifiers → names, for manufacturer data - add entries for the
+ * vendors your devices come from
+ */
+export const COMPANY_NAMES: Record<number, string> = {
+  0x0000: 'Ericsson',
+  0x0001: 'Nokia',
+  0x0002: 'Intel',
+  0x0003: 'IBM',
+  0x0006: 'Microsoft',
+  0x000d: 'Texas Instruments',
+  0x000f: 'Broadcom',
+  0x004c: 'Apple',
+  0x0059: 'Nordic Semiconductor',
+  0x0075: 'Samsung Electronics',
+  0x0087: 'Garmin International',
+  0x00e0: 'Google',
+  0x02e5: 'Espressif',
+};
+
+export const APPLE_COMPANY_ID = 0x004c;
+
+export const companyName = (companyId: number) => COMPANY_NAMES[companyId] ?? null;
@@ -0,0 +1,26 @@
+export {
+  decodeEddystone,
+  decodeIBeacon,
+  EDDYSTONE_SERVICE_UUID,
+  formatUuid,
+  toHex,
+} from './beacons';
+export { APPLE_COMPANY_ID, COMPANY_NAMES, companyName } from './companies';
+export {
+  AD_TYPE,
+  decodeAdvertising,
+  parseAdStructures,
+  parseAdvertisement,
+  type AdStructure,
+} from './parser';
+export {
+  type Advertisement,
+  type AdvertisementFlags,
+  type Beacon,
+  type EddystoneTlm,
+  type EddystoneUid,
+  type EddystoneUrl,
+  type IBeacon,
+  type ManufacturerData,
+  type ServiceData,
+} from './types';
@@ -0,0 +1,192 @@
+import { AdvertisingData } from 'react-native-ble-manager';
+import { normalizeUuid, sameUuid, utf8Codec, uuid16 } from '../profiles';
+import {
+  decodeEddystone,
+  decodeIBeacon,
+  EDDYSTONE_SERVICE_UUID,
+  formatUuid,
+  toHex,
+} from './beacons';
+import { companyName } from './companies';
+import { Advertisement, Beacon, ManufacturerData, ServiceData } from './types';
+
+/**
+ * AD structure types the decoder understands (Bluetooth Assigned Numbers, "Common Data Types")
+ */
+export const AD_TYPE = {
+  flags: 0x01,
+  incompleteUuid16: 0x02,
+  completeUuid16: 0x03,
+  incompleteUuid32: 0x04,
+  completeUuid32: 0x05,
+  incompleteUuid128: 0x06,
+  completeUuid128: 0x07,
+  shortenedLocalName: 0x08,
+  completeLocalName: 0x09,
+  txPowerLevel: 0x0a,
+  serviceData16: 0x16,
+  serviceData32: 0x20,
+  serviceData128: 0x21,
+  manufacturerData: 0xff,
+} as const;
+
+/**
+ * One length-type-value entry of an advertisement
+ */
+export interface AdStructure {
+  type: number;
+  data: number[];
+}
+
+const int8 = (byte: number) => (byte > 0x7f ? byte - 0x100 : byte);
+
+// UUIDs are sent least significant byte first
+const readUuid = (bytes: number[]) => {
+  const reversed = [...bytes].reverse();
+  if (bytes.length === 2) return uuid16((reversed[0] << 8) | reversed[1]);
+  if (bytes.length === 4) return normalizeUuid(toHex(reversed));
+  return formatUuid(reversed).toLowerCase();
+};
+
+const readUuidList = (data: number[], size: number) => {
+  const uuids: string[] = [];
+  for (let offset = 0; offset + size <= data.length; offset += size) {
+    uuids.push(readUuid(data.slice(offset, offset + size)));
+  }
+  return uuids;
+};
+
+const readManufacturerData = (bytes: number[]): ManufacturerData => {
+  const companyId = bytes[0] | (bytes[1] << 8);
+  return { companyId, companyName: companyName(companyId), data: bytes.slice(2) };
+};
+
+/**
+ * Splits raw advertising bytes into AD structures - stops at the zero padding that fills a
+ * fixed-size advertising buffer, and at a structure that runs past the end
+ */
+export function parseAdStructures(bytes: number[]): AdStructure[] {
+  const structures: AdStructure[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const length = bytes[offset];
+    if (length === 0 || offset + 1 + length > bytes.length) break;
+    structures.push({
+      type: bytes[offset + 1],
+      data: bytes.slice(offset + 2, offset + 1 + length),
+    });
+    offset += 1 + length;
+  }
+  return structures;
+}
+
+const findBeacons = (manufacturerData: ManufacturerData[], serviceData: ServiceData[]) =>
+  [
+    ...manufacturerData.map(decodeIBeacon),
+    ...serviceData
+      .filter((entry) => sameUuid(entry.uuid, EDDYSTONE_SERVICE_UUID))
+      .map((entry) => decodeEddystone(entry.data)),
+  ].filter((beacon): beacon is Beacon => beacon !== null);
+
+/**
+ * Decodes raw advertising (and scan response) bytes. Unknown AD types are skipped.
+ */
+export function parseAdvertisement(bytes: number[]): Advertisement {
+  const advertisement: Advertisement = {
+    flags: null,
+    localName: null,
+    txPower: null,
+    serviceUUIDs: [],
+    serviceData: [],
+    manufacturerData: [],
+    beacons: [],
+  };
+  let shortenedName: string | null = null;
+
+  parseAdStructures(bytes).forEach(({ type, data }) => {
+    switch (type) {
+      case AD_TYPE.flags:
+        advertisement.flags = {
+          limitedDiscoverable: (data[0] & 0x01) !== 0,
+          generalDiscoverable: (data[0] & 0x02) !== 0,
+          brEdrNotSupported: (data[0] & 0x04) !== 0,
+          leBrEdrController: (data[0] & 0x08) !== 0,
+          leBrEdrHost: (data[0] & 0x10) !== 0,
+          raw: data[0] ?? 0,
+        };
+        break;
+      case AD_TYPE.incompleteUuid16:
+      case AD_TYPE.completeUuid16:
+        advertisement.serviceUUIDs.push(...readUuidList(data, 2));
+        break;
+      case AD_TYPE.incompleteUuid32:
+      case AD_TYPE.completeUuid32:
+        advertisement.serviceUUIDs.push(...readUuidList(data, 4));
+        break;
+      case AD_TYPE.incompleteUuid128:
+      case AD_TYPE.completeUuid128:
+        advertisement.serviceUUIDs.push(...readUuidList(data, 16));
+        break;
+      case AD_TYPE.shortenedLocalName:
+        shortenedName = utf8Codec.decode(data);
+        break;
+      case AD_TYPE.completeLocalName:
+        advertisement.localName = utf8Codec.decode(data);
+        break;
+      case AD_TYPE.txPowerLevel:
+        if (data.length > 0) advertisement.txPower = int8(data[0]);
+        break;
+      case AD_TYPE.serviceData16:
+      case AD_TYPE.serviceData32:
+      case AD_TYPE.serviceData128: {
+        const size = type === AD_TYPE.serviceData16 ? 2 : type === AD_TYPE.serviceData32 ? 4 : 16;
+        if (data.length >= size) {
+          advertisement.serviceData.push({
+            uuid: readUuid(data.slice(0, size)),
+            data: data.slice(size),
+          });
+        }
+        break;
+      }
+      case AD_TYPE.manufacturerData:
+        if (data.length >= 2) advertisement.manufacturerData.push(readManufacturerData(data));
+        break;
+    }
+  });
+
+  advertisement.localName ??= shortenedName;
+  advertisement.beacons = findBeacons(advertisement.manufacturerData, advertisement.serviceData);
+  return advertisement;
+}
+
+/**
+ * Decodes a discovered peripheral's advertising - from the raw bytes where the platform
+ * reports them (Android), otherwise from the fields it pre-parsed (iOS, which has no flags)
+ */
+export function decodeAdvertising(advertising: AdvertisingData | undefined): Advertisement {
+  if (advertising?.rawData?.bytes?.length) {
+    return parseAdvertisement(advertising.rawData.bytes);
+  }
+
+  const serviceData = Object.entries(advertising?.serviceData ?? {}).map(([uuid, value]) => ({
+    uuid: normalizeUuid(uuid),
+    data: value.bytes,
+  }));
+  // Keyed by the company id as 4 hex digits, payload without it
+  const manufacturerData = Object.entries(advertising?.manufacturerData ?? {}).map(
+    ([key, value]): ManufacturerData => {
+      const companyId = parseInt(key, 16);
+      return { companyId, companyName: companyName(companyId), data: value.bytes };
+    }
+  );
+
+  return {
+    flags: null,
+    localName: advertising?.localName ?? null,
+    txPower: advertising?.txPowerLevel ?? null,
+    serviceUUIDs: (advertising?.serviceUUIDs ?? []).map(normalizeUuid),
+    serviceData,
+    manufacturerData,
+    beacons: findBeacons(manufacturerData, serviceData),
+  };
+}
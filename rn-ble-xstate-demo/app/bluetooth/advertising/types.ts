@@ -0,0 +1,94 @@
+/**
+ * Flags AD structure - how the device can be discovered and which radios it has
+ */
+export interface AdvertisementFlags {
+  limitedDiscoverable: boolean;
+  generalDiscoverable: boolean;
+  brEdrNotSupported: boolean;
+  /** Simultaneous LE and BR/EDR, controller and host */
+  leBrEdrController: boolean;
+  leBrEdrHost: boolean;
+  raw: number;
+}
+
+export interface ServiceData {
+  /** 128-bit lower-case service UUID */
+  uuid: string;
+  data: number[];
+}
+
+export interface ManufacturerData {
+  /** Bluetooth SIG company identifier */
+  companyId: number;
+  /** Registered company name - null for ids missing from COMPANY_NAMES */
+  companyName: string | null;
+  /** Payload after the company identifier */
+  data: number[];
+}
+
+/**
+ * Apple iBeacon, carried in Apple manufacturer data
+ */
+export interface IBeacon {
+  type: 'iBeacon';
+  uuid: string;
+  major: number;
+  minor: number;
+  /** Calibrated RSSI at 1 m, in dBm */
+  measuredPower: number;
+}
+
+/**
+ * Eddystone-UID frame - 10-byte namespace and 6-byte instance, as hex
+ */
+export interface EddystoneUid {
+  type: 'eddystoneUid';
+  /** Calibrated TX power at 0 m, in dBm */
+  txPower: number;
+  namespace: string;
+  instance: string;
+}
+
+/**
+ * Eddystone-URL frame - the compressed URL expanded back to text
+ */
+export interface EddystoneUrl {
+  type: 'eddystoneUrl';
+  /** Calibrated TX power at 0 m, in dBm */
+  txPower: number;
+  url: string;
+}
+
+/**
+ * Unencrypted Eddystone-TLM frame - telemetry of a beacon advertising UID or URL frames
+ */
+export interface EddystoneTlm {
+  type: 'eddystoneTlm';
+  /** Battery voltage in mV - null when the beacon does not report it */
+  batteryVoltage: number | null;
+  /** Temperature in °C - null when the beacon does not report it */
+  temperature: number | null;
+  /** Advertisements sent since boot */
+  advertisementCount: number;
+  /** Time since boot, in seconds */
+  uptime: number;
+}
+
+export type Beacon = IBeacon | EddystoneUid | EddystoneUrl | EddystoneTlm;
+
+/**
+ * Decoded advertisement - every field is empty when the advertisement does not carry it
+ */
+export interface Advertisement {
+  flags: AdvertisementFlags | null;
+  /** Complete local name, or the shortened one when that is all there is */
+  localName: string | null;
+  /** TX power level, in dBm */
+  txPower: number | null;
+  /** Complete and incomplete service UUID lists, as 128-bit lower-case UUIDs */
+  serviceUUIDs: string[];
+  serviceData: ServiceData[];
+  manufacturerData: ManufacturerData[];
+  /** iBeacon and Eddystone frames found in the manufacturer and service data */
+  beacons: Beacon[];
+}
@@ -3,4 +3,21 @@ export const LBS_SERVICE_UUID = '00001523-1212-EFDE-1523-785FEABCD123';
 export const BUTTON_CHARACTERISTIC_UUID = '00001524-1212-EFDE-1523-785FEABCD123';
 export const LED_CHARACTERISTIC_UUID = '00001525-1212-EFDE-1523-785FEABCD123';
 
-export const STORAGE_KEY = 'ble_device_id';
\ No newline at end of file
+// Nordic UART Service (NUS) GATT UUIDs - RX is written by the central, TX notifies it
+export const NUS_SERVICE_UUID = '6E400001-B5A3-F393-E0A9-E50E24DCCA9E';
+export const NUS_RX_CHARACTERISTIC_UUID = '6E400002-B5A3-F393-E0A9-E50E24DCCA9E';
+export const NUS_TX_CHARACTERISTIC_UUID = '6E400003-B5A3-F393-E0A9-E50E24DCCA9E';
+
+// Nordic Secure DFU GATT UUIDs - the app exposes buttonless DFU, the bootloader control point and packet
+export const SECURE_DFU_SERVICE_UUID = '0000FE59-0000-1000-8000-00805F9B34FB';
+export const DFU_CONTROL_POINT_UUID = '8EC90001-F315-4F60-9FB8-838830DAEA50';
+export const DFU_PACKET_UUID = '8EC90002-F315-4F60-9FB8-838830DAEA50';
+export const BUTTONLESS_DFU_UUID = '8EC90003-F315-4F60-9FB8-838830DAEA50';
+
+// Known-device registry, and the single stored device it replaced - see storage/knownDevicesStorage
+export const KNOWN_DEVICES_KEY = 'ble_known_devices';
+export const STORAGE_KEY = 'ble_device_id';
+// bleMachine's persisted snapshot - see state-machine/persistence
+export const SNAPSHOT_KEY = 'ble_snapshot';
+// Whether iOS has shown its Bluetooth prompt - see permissions/platformPermissions
+export const PERMISSION_PROMPTED_KEY = 'ble_permission_prompted';
\ No newline at end of file
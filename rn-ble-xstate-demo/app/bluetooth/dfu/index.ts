@@ -0,0 +1,28 @@
+export { crc32 } from './crc32';
+export { parseDfuPackage, type DfuImageType, type DfuPackage } from './package';
+export {
+  BUTTONLESS_ENTER_BOOTLOADER,
+  BUTTONLESS_RESPONSE,
+  describeDfuResult,
+  DFU_OBJECT,
+  DFU_OP,
+  DFU_RESULT,
+  parseChecksum,
+  parseDfuResponse,
+  parseSelect,
+  readUint32,
+  uint32,
+  type DfuResponse,
+} from './protocol';
+export {
+  bootloaderAddress,
+  DEFAULT_DFU_TIMEOUT,
+  DEFAULT_PRN,
+  DFU_BOOTLOADER_NAME,
+  enterBootloader,
+  findBootloader,
+  performSecureDfu,
+  type DfuProgress,
+  type DfuStage,
+  type SecureDfuOptions,
+} from './secureDfu';
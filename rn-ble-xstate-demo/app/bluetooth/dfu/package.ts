@@ -0,0 +1,62 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+/**
+ * Image types a DFU zip can carry, in manifest key order
+ */
+export type DfuImageType = 'application' | 'bootloader' | 'softdevice' | 'softdevice_bootloader';
+
+const IMAGE_TYPES: DfuImageType[] = [
+  'application',
+  'bootloader',
+  'softdevice',
+  'softdevice_bootloader',
+];
+
+/**
+ * One firmware image ready to transfer - init packet (.dat) and firmware (.bin)
+ */
+export interface DfuPackage {
+  type: DfuImageType;
+  initPacket: number[];
+  firmware: number[];
+}
+
+interface DfuManifest {
+  manifest: Partial<Record<DfuImageType, { bin_file: string; dat_file: string }>>;
+}
+
+/**
+ * Reads a DFU zip as produced by nrfutil - throws if the zip is not a single-image package
+ */
+export function parseDfuPackage(zip: Uint8Array): DfuPackage {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(zip);
+  } catch {
+    throw new Error('DFU package is not a valid zip file');
+  }
+
+  if (!files['manifest.json']) {
+    throw new Error('DFU package has no manifest.json');
+  }
+  const { manifest } = JSON.parse(strFromU8(files['manifest.json'])) as DfuManifest;
+
+  const types = IMAGE_TYPES.filter((type) => manifest?.[type]);
+  if (types.length !== 1) {
+    throw new Error(
+      types.length === 0
+        ? 'DFU package manifest lists no firmware image'
+        : 'Multi-image DFU packages are not supported'
+    );
+  }
+
+  const [type] = types;
+  const image = manifest[type]!;
+  const initPacket = files[image.dat_file];
+  const firmware = files[image.bin_file];
+  if (!initPacket || !firmware) {
+    throw new Error(`DFU package is missing ${!initPacket ? image.dat_file : image.bin_file}`);
+  }
+
+  return { type, initPacket: Array.from(initPacket), firmware: Array.from(firmware) };
+}
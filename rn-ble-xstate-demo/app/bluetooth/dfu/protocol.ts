@@ -0,0 +1,88 @@
+/**
+ * Secure DFU control point opcodes
+ */
+export const DFU_OP = {
+  CREATE: 0x01,
+  SET_PRN: 0x02,
+  CALCULATE_CHECKSUM: 0x03,
+  EXECUTE: 0x04,
+  SELECT: 0x06,
+  RESPONSE: 0x60,
+} as const;
+
+/**
+ * Object types - the init packet is a command object, firmware is sent as data objects
+ */
+export const DFU_OBJECT = {
+  COMMAND: 0x01,
+  DATA: 0x02,
+} as const;
+
+export const DFU_RESULT = {
+  SUCCESS: 0x01,
+  OPERATION_NOT_PERMITTED: 0x08,
+} as const;
+
+const RESULT_MESSAGES: Record<number, string> = {
+  0x00: 'Invalid opcode',
+  0x02: 'Opcode not supported',
+  0x03: 'Invalid parameter',
+  0x04: 'Insufficient resources',
+  0x05: 'Invalid object',
+  0x07: 'Unsupported type',
+  0x08: 'Operation not permitted',
+  0x0a: 'Operation failed',
+  0x0b: 'Extended error',
+};
+
+// Buttonless DFU characteristic (application side)
+export const BUTTONLESS_ENTER_BOOTLOADER = 0x01;
+export const BUTTONLESS_RESPONSE = 0x20;
+
+/**
+ * Parsed control point notification: [0x60, request opcode, result, ...payload]
+ */
+export interface DfuResponse {
+  opcode: number;
+  result: number;
+  payload: number[];
+}
+
+export const uint32 = (value: number) => [
+  value & 0xff,
+  (value >>> 8) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 24) & 0xff,
+];
+
+export const readUint32 = (bytes: number[], offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>>
+  0;
+
+export const encodeCreate = (type: number, size: number) => [DFU_OP.CREATE, type, ...uint32(size)];
+export const encodeSetPrn = (prn: number) => [DFU_OP.SET_PRN, prn & 0xff, (prn >>> 8) & 0xff];
+export const encodeSelect = (type: number) => [DFU_OP.SELECT, type];
+
+export function parseDfuResponse(bytes: number[]): DfuResponse {
+  if (bytes.length < 3 || bytes[0] !== DFU_OP.RESPONSE) {
+    throw new Error('Malformed DFU response');
+  }
+  return { opcode: bytes[1], result: bytes[2], payload: bytes.slice(3) };
+}
+
+export const describeDfuResult = (result: number) =>
+  RESULT_MESSAGES[result] ?? `Unknown result 0x${result.toString(16).padStart(2, '0')}`;
+
+/**
+ * Offset and CRC reported by SELECT (with the maximum object size) and CALCULATE_CHECKSUM
+ */
+export const parseSelect = (payload: number[]) => ({
+  maxSize: readUint32(payload, 0),
+  offset: readUint32(payload, 4),
+  crc: readUint32(payload, 8),
+});
+
+export const parseChecksum = (payload: number[]) => ({
+  offset: readUint32(payload, 0),
+  crc: readUint32(payload, 4),
+});
@@ -0,0 +1,365 @@
+import {
+  BUTTONLESS_DFU_UUID,
+  DFU_CONTROL_POINT_UUID,
+  DFU_PACKET_UUID,
+  SECURE_DFU_SERVICE_UUID,
+} from '../constants';
+import { sameUuid } from '../profiles';
+import { chunkPayload, DEFAULT_MTU } from '../state-machine/gatt';
+import { BleTransport } from '../transport';
+import { crc32 } from './crc32';
+import { DfuPackage } from './package';
+import {
+  BUTTONLESS_ENTER_BOOTLOADER,
+  BUTTONLESS_RESPONSE,
+  describeDfuResult,
+  DFU_OBJECT,
+  DFU_OP,
+  DFU_RESULT,
+  DfuResponse,
+  encodeCreate,
+  encodeSelect,
+  encodeSetPrn,
+  parseChecksum,
+  parseDfuResponse,
+  parseSelect,
+} from './protocol';
+
+/** Packets between checksum notifications (Nordic's default) */
+export const DEFAULT_PRN = 12;
+/** How long to wait for any single bootloader response or discovery, in ms */
+export const DEFAULT_DFU_TIMEOUT = 10000;
+/** Advertised name of a Nordic bootloader waiting for an update */
+export const DFU_BOOTLOADER_NAME = 'DfuTarg';
+
+const MAX_OBJECT_RETRIES = 3;
+
+const OP_NAMES: Record<number, string> = {
+  [DFU_OP.CREATE]: 'create',
+  [DFU_OP.SET_PRN]: 'set PRN',
+  [DFU_OP.CALCULATE_CHECKSUM]: 'checksum',
+  [DFU_OP.EXECUTE]: 'execute',
+  [DFU_OP.SELECT]: 'select',
+};
+
+export type DfuStage = 'bootloader' | 'init' | 'firmware' | 'complete';
+
+export interface DfuProgress {
+  stage: DfuStage;
+  /** Firmware bytes confirmed by the bootloader */
+  sentBytes: number;
+  totalBytes: number;
+}
+
+export interface SecureDfuOptions {
+  /** Packet receipt notification interval - 0 disables PRN */
+  prn?: number;
+  mtu?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: DfuProgress) => void;
+}
+
+/**
+ * Queues notifications of one characteristic so responses that arrive before
+ * anyone waits for them are not lost
+ */
+function listenForResponses(
+  transport: BleTransport,
+  deviceId: string,
+  characteristicUUID: string,
+  timeout: number
+) {
+  const queue: number[][] = [];
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const values = transport.onCharacteristicValue((event) => {
+    if (event.peripheral !== deviceId || !sameUuid(event.characteristic, characteristicUUID)) return;
+    queue.push(event.value);
+    wake?.();
+  });
+  const disconnects = transport.onDisconnectPeripheral((event) => {
+    if (event?.peripheral && event.peripheral !== deviceId) return;
+    failure = new Error('Device disconnected during DFU');
+    wake?.();
+  });
+
+  const next = () =>
+    new Promise<number[]>((resolve, reject) => {
+      const timer = setTimeout(() => settle(() => reject(new Error('DFU response timeout'))), timeout);
+      const settle = (done: () => void) => {
+        clearTimeout(timer);
+        wake = null;
+        done();
+      };
+      const check = () => {
+        const value = queue.shift();
+        if (value) {
+          settle(() => resolve(value));
+        } else if (failure) {
+          settle(() => reject(failure));
+        }
+      };
+      wake = check;
+      check();
+    });
+
+  return {
+    next,
+    close: () => {
+      values.remove();
+      disconnects.remove();
+    },
+  };
+}
+
+/**
+ * Asks an application with buttonless DFU to reboot into its bootloader
+ */
+export async function enterBootloader(
+  transport: BleTransport,
+  deviceId: string,
+  timeout = DEFAULT_DFU_TIMEOUT
+) {
+  const indications = listenForResponses(transport, deviceId, BUTTONLESS_DFU_UUID, timeout);
+  try {
+    await transport.startNotification(deviceId, SECURE_DFU_SERVICE_UUID, BUTTONLESS_DFU_UUID);
+    await transport.write(deviceId, SECURE_DFU_SERVICE_UUID, BUTTONLESS_DFU_UUID, [
+      BUTTONLESS_ENTER_BOOTLOADER,
+    ]);
+    const [opcode, request, result] = await indications.next();
+    if (
+      opcode !== BUTTONLESS_RESPONSE ||
+      request !== BUTTONLESS_ENTER_BOOTLOADER ||
+      result !== DFU_RESULT.SUCCESS
+    ) {
+      throw new Error('Device refused to enter the bootloader');
+    }
+  } finally {
+    indications.close();
+  }
+
+  // The device resets on its own; make sure our side of the link is gone too
+  await transport.disconnect(deviceId).catch(() => {});
+}
+
+/**
+ * Address a Nordic bootloader advertises with after a buttonless jump without bonds
+ * (the application's MAC address + 1) - null for platform ids that are not MAC addresses
+ */
+export function bootloaderAddress(deviceId: string): string | null {
+  if (!/^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i.test(deviceId)) return null;
+  const bytes = deviceId.split(':');
+  bytes[5] = ((parseInt(bytes[5], 16) + 1) & 0xff).toString(16).padStart(2, '0');
+  return bytes.join(':').toUpperCase();
+}
+
+/**
+ * Scans for the bootloader of the given device - same id, MAC + 1, or advertised as DfuTarg
+ */
+export function findBootloader(
+  transport: BleTransport,
+  deviceId: string,
+  timeout = DEFAULT_DFU_TIMEOUT
+): Promise<string> {
+  const expected = bootloaderAddress(deviceId);
+
+  return new Promise((resolve, reject) => {
+    const discovery = transport.onDiscoverPeripheral((peripheral) => {
+      if (
+        peripheral.id === deviceId ||
+        peripheral.id === expected ||
+        peripheral.name === DFU_BOOTLOADER_NAME
+      ) {
+        finish(() => resolve(peripheral.id));
+      }
+    });
+    const timer = setTimeout(
+      () => finish(() => reject(new Error('DFU bootloader not found'))),
+      timeout
+    );
+    const finish = (done: () => void) => {
+      clearTimeout(timer);
+      discovery.remove();
+      transport.stopScan().catch(() => {});
+      done();
+    };
+
+    transport
+      .scan({
+        serviceUUIDs: [SECURE_DFU_SERVICE_UUID],
+        seconds: Math.ceil(timeout / 1000),
+        allowDuplicates: false,
+      })
+      .catch((error) => finish(() => reject(error)));
+  });
+}
+
+/**
+ * Runs the Secure DFU transfer against a connected bootloader: init packet as a command
+ * object, then the firmware as data objects with PRN flow control and CRC checks.
+ * Resumes from whatever the bootloader already holds when its CRC matches.
+ */
+export async function performSecureDfu(
+  transport: BleTransport,
+  deviceId: string,
+  dfuPackage: DfuPackage,
+  options: SecureDfuOptions = {}
+) {
+  const prn = options.prn ?? DEFAULT_PRN;
+  const mtu = options.mtu ?? DEFAULT_MTU;
+  const totalBytes = dfuPackage.firmware.length;
+  const controlPoint = listenForResponses(
+    transport,
+    deviceId,
+    DFU_CONTROL_POINT_UUID,
+    options.timeout ?? DEFAULT_DFU_TIMEOUT
+  );
+
+  const report = (stage: DfuStage, sentBytes: number) =>
+    options.onProgress?.({ stage, sentBytes, totalBytes });
+
+  const checkCancelled = () => {
+    if (options.signal?.aborted) {
+      throw new Error('DFU cancelled');
+    }
+  };
+
+  const receive = async (opcode: number): Promise<DfuResponse> => {
+    const response = parseDfuResponse(await controlPoint.next());
+    if (response.opcode !== opcode) {
+      throw new Error(`Unexpected DFU response to ${OP_NAMES[opcode] ?? opcode}`);
+    }
+    return response;
+  };
+
+  const expectSuccess = (response: DfuResponse) => {
+    if (response.result !== DFU_RESULT.SUCCESS) {
+      throw new Error(
+        `DFU ${OP_NAMES[response.opcode]} failed: ${describeDfuResult(response.result)}`
+      );
+    }
+    return response;
+  };
+
+  const send = async (request: number[]) => {
+    checkCancelled();
+    await transport.write(deviceId, SECURE_DFU_SERVICE_UUID, DFU_CONTROL_POINT_UUID, request);
+    return receive(request[0]);
+  };
+
+  const call = async (request: number[]) => expectSuccess(await send(request));
+
+  // Streams bytes[from, to) to the packet characteristic - resolves with the CRC of
+  // bytes[0, to), or null when the bootloader reports a different offset or CRC
+  const stream = async (
+    bytes: number[],
+    from: number,
+    to: number,
+    crcAtFrom: number,
+    onSent?: (offset: number) => void
+  ): Promise<number | null> => {
+    let offset = from;
+    let crc = crcAtFrom;
+    let packets = 0;
+
+    for (const chunk of chunkPayload(bytes.slice(from, to), mtu)) {
+      checkCancelled();
+      await transport.writeWithoutResponse(deviceId, SECURE_DFU_SERVICE_UUID, DFU_PACKET_UUID, chunk);
+      offset += chunk.length;
+      crc = crc32(chunk, crc);
+      packets++;
+
+      if (prn > 0 && packets % prn === 0) {
+        const receipt = parseChecksum(expectSuccess(await receive(DFU_OP.CALCULATE_CHECKSUM)).payload);
+        if (receipt.offset !== offset || receipt.crc !== crc) return null;
+        onSent?.(offset);
+      }
+    }
+
+    const checksum = parseChecksum((await call([DFU_OP.CALCULATE_CHECKSUM])).payload);
+    return checksum.offset === to && checksum.crc === crc ? crc : null;
+  };
+
+  // Sends bytes as objects of at most maxSize, starting at `offset` (already verified)
+  const transferObjects = async (
+    type: number,
+    bytes: number[],
+    maxSize: number,
+    offset: number,
+    onSent?: (offset: number) => void
+  ) => {
+    let crc = crc32(bytes.slice(0, offset));
+
+    // A fully received object may not have been executed before the link dropped
+    if (offset > 0 && (offset % maxSize === 0 || offset === bytes.length)) {
+      const response = await send([DFU_OP.EXECUTE]);
+      if (response.result !== DFU_RESULT.OPERATION_NOT_PERMITTED) {
+        expectSuccess(response);
+      }
+    }
+
+    let retries = 0;
+    while (offset < bytes.length) {
+      const objectStart = offset - (offset % maxSize);
+      const objectEnd = Math.min(objectStart + maxSize, bytes.length);
+      if (offset === objectStart) {
+        await call(encodeCreate(type, objectEnd - objectStart));
+      }
+
+      const objectCrc = await stream(bytes, offset, objectEnd, crc, onSent);
+      if (objectCrc === null) {
+        // Corrupted object - start it again from its first byte
+        if (++retries > MAX_OBJECT_RETRIES) {
+          throw new Error('DFU checksum mismatch');
+        }
+        offset = objectStart;
+        crc = crc32(bytes.slice(0, objectStart));
+        continue;
+      }
+
+      await call([DFU_OP.EXECUTE]);
+      retries = 0;
+      offset = objectEnd;
+      crc = objectCrc;
+      onSent?.(offset);
+    }
+  };
+
+  try {
+    await transport.startNotification(deviceId, SECURE_DFU_SERVICE_UUID, DFU_CONTROL_POINT_UUID);
+    await call(encodeSetPrn(prn));
+
+    // Init packet - only skipped when the bootloader already holds all of it
+    report('init', 0);
+    const { initPacket, firmware } = dfuPackage;
+    const command = parseSelect((await call(encodeSelect(DFU_OBJECT.COMMAND))).payload);
+    if (initPacket.length > command.maxSize) {
+      throw new Error('Init packet is larger than the bootloader accepts');
+    }
+    const hasInitPacket =
+      command.offset === initPacket.length && command.crc === crc32(initPacket);
+    await transferObjects(
+      DFU_OBJECT.COMMAND,
+      initPacket,
+      command.maxSize,
+      hasInitPacket ? initPacket.length : 0
+    );
+
+    // Firmware - resumes after the last byte the bootloader confirms
+    const data = parseSelect((await call(encodeSelect(DFU_OBJECT.DATA))).payload);
+    const canResume =
+      data.offset <= firmware.length && data.crc === crc32(firmware.slice(0, data.offset));
+    // Executed objects passed their checksum - only a partial object can be corrupt
+    const resumeAt = canResume ? data.offset : data.offset - (data.offset % data.maxSize);
+    report('firmware', resumeAt);
+    await transferObjects(DFU_OBJECT.DATA, firmware, data.maxSize, resumeAt, (sent) =>
+      report('firmware', sent)
+    );
+
+    report('complete', totalBytes);
+  } finally {
+    controlPoint.close();
+  }
+}
@@ -0,0 +1,7 @@
+export { type BlePermissions, type PermissionStatus } from './types';
+export { createPlatformPermissions } from './platformPermissions';
+export {
+  createSimulatedPermissions,
+  type SimulatedPermissions,
+  type SimulatedPermissionsOptions,
+} from './simulatedPermissions';
@@ -0,0 +1,79 @@
+import { Linking, Permission, PermissionsAndroid, Platform } from 'react-native';
+import { permissionPromptStorage, VersionedStorage } from '../storage';
+import { BleAdapterState, BleTransport } from '../transport';
+import { BlePermissions, PermissionStatus } from './types';
+
+// Android 12 split Bluetooth out of the location permission
+const ANDROID_12 = 31;
+
+const androidPermissions = (): Permission[] =>
+  Number(Platform.Version) >= ANDROID_12
+    ? [
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+      ]
+    : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+
+async function checkAndroid(): Promise<PermissionStatus> {
+  const granted = await Promise.all(androidPermissions().map((p) => PermissionsAndroid.check(p)));
+  // Android cannot tell a refused permission from one never asked for until it prompts
+  return granted.every(Boolean) ? 'granted' : 'undetermined';
+}
+
+async function requestAndroid(): Promise<PermissionStatus> {
+  const results = Object.values(await PermissionsAndroid.requestMultiple(androidPermissions()));
+  if (results.every((result) => result === PermissionsAndroid.RESULTS.GRANTED)) return 'granted';
+  if (results.includes(PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN)) return 'blocked';
+  return 'denied';
+}
+
+// Starts the BLE stack and waits for a known state - iOS reports unknown while its prompt is up
+const startAndSettle = (transport: BleTransport) =>
+  new Promise<BleAdapterState>((resolve, reject) => {
+    const settle = (state: BleAdapterState) => {
+      if (state === 'unknown' || state === 'resetting') return;
+      subscription.remove();
+      resolve(state);
+    };
+    const subscription = transport.onDidUpdateState(settle);
+    transport
+      .start()
+      .then(() => transport.checkState())
+      .then(settle, (error) => {
+        subscription.remove();
+        reject(error);
+      });
+  });
+
+/**
+ * Permissions of the platform the app runs on. Android asks for BLUETOOTH_SCAN and
+ * BLUETOOTH_CONNECT (12+) or ACCESS_FINE_LOCATION (older). iOS has no separate prompt - the
+ * system asks when the BLE stack first starts, and the adapter reports unauthorized once the
+ * user has said no. Starting the stack is the only way to read the answer, so whether the
+ * prompt was shown is kept in storage: until then check() reports undetermined without
+ * starting it. A refusal at the prompt is denied; iOS never asks again, so after that it is
+ * blocked.
+ */
+export const createPlatformPermissions = (
+  transport: BleTransport,
+  promptStorage: VersionedStorage<boolean> = permissionPromptStorage
+): BlePermissions => {
+  const checkIos = async (): Promise<PermissionStatus> => {
+    if (!(await promptStorage.load()).data) return 'undetermined';
+    return (await startAndSettle(transport)) === 'unauthorized' ? 'blocked' : 'granted';
+  };
+
+  const requestIos = async (): Promise<PermissionStatus> => {
+    const prompted = (await promptStorage.load()).data;
+    const state = await startAndSettle(transport);
+    await promptStorage.save(true);
+    if (state !== 'unauthorized') return 'granted';
+    return prompted ? 'blocked' : 'denied';
+  };
+
+  return {
+    check: () => (Platform.OS === 'android' ? checkAndroid() : checkIos()),
+    request: () => (Platform.OS === 'android' ? requestAndroid() : requestIos()),
+    openSettings: () => Linking.openSettings(),
+  };
+};
@@ -0,0 +1,52 @@
+import { BlePermissions, PermissionStatus } from './types';
+
+/**
+ * Scripted permissions - `status` is what check() reports, `answers` what the next prompts
+ * return (granted once they run out)
+ */
+export interface SimulatedPermissions extends BlePermissions {
+  status: PermissionStatus;
+  answers: PermissionStatus[];
+  /** Prompts shown so far */
+  readonly requests: number;
+  /** Times the settings page was opened */
+  readonly settingsOpened: number;
+}
+
+export interface SimulatedPermissionsOptions {
+  /** Status before any prompt - defaults to granted */
+  status?: PermissionStatus;
+  answers?: PermissionStatus[];
+}
+
+export function createSimulatedPermissions(
+  options: SimulatedPermissionsOptions = {}
+): SimulatedPermissions {
+  let requests = 0;
+  let settingsOpened = 0;
+
+  const permissions: SimulatedPermissions = {
+    status: options.status ?? 'granted',
+    answers: [...(options.answers ?? [])],
+
+    get requests() {
+      return requests;
+    },
+
+    get settingsOpened() {
+      return settingsOpened;
+    },
+
+    check: async () => permissions.status,
+    request: async () => {
+      requests += 1;
+      permissions.status = permissions.answers.shift() ?? 'granted';
+      return permissions.status;
+    },
+    openSettings: async () => {
+      settingsOpened += 1;
+    },
+  };
+
+  return permissions;
+}
@@ -0,0 +1,20 @@
+/**
+ * Where the app stands with the platform's Bluetooth permissions
+ * - undetermined: not granted yet and the user can still be asked
+ * - denied: refused the last prompt, can be asked again
+ * - blocked: refused for good ("never ask again", or off in iOS Settings) - only Settings can fix it
+ */
+export type PermissionStatus = 'undetermined' | 'granted' | 'denied' | 'blocked';
+
+/**
+ * Platform permission backend - the machine only talks to this, so tests and the simulator
+ * can script the user's answers
+ */
+export interface BlePermissions {
+  /** Current status, without prompting */
+  check: () => Promise<PermissionStatus>;
+  /** Shows the system prompt where the platform has one and returns the answer */
+  request: () => Promise<PermissionStatus>;
+  /** Opens the app's page in the system settings */
+  openSettings: () => Promise<void>;
+}
@@ -0,0 +1,27 @@
+import { uint8Codec } from './codecs';
+import { DeviceProfile } from './types';
+import { uuid16 } from './uuid';
+
+export const BATTERY_SERVICE_UUID = uuid16(0x180f);
+export const BATTERY_LEVEL_UUID = uuid16(0x2a19);
+
+/**
+ * Bluetooth SIG Battery Service (0x180F) - level in percent, notified when supported
+ */
+export const batteryProfile: DeviceProfile = {
+  id: 'battery',
+  name: 'Battery',
+  serviceUUID: BATTERY_SERVICE_UUID,
+  secondary: true,
+  characteristics: [
+    {
+      key: 'level',
+      uuid: BATTERY_LEVEL_UUID,
+      label: 'Battery',
+      codec: uint8Codec,
+      readOnConnect: true,
+      subscribe: true,
+      format: (level) => `🔋 ${level}%`,
+    },
+  ],
+};
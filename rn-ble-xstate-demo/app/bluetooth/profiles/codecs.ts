@@ -0,0 +1,46 @@
+import { ValueCodec } from './types';
+
+/**
+ * Single byte, any non-zero value is true
+ */
+export const booleanCodec: ValueCodec<boolean> = {
+  decode: (bytes) => (bytes[0] ?? 0) !== 0,
+  encode: (value) => [value ? 1 : 0],
+};
+
+export const uint8Codec: ValueCodec<number> = {
+  decode: (bytes) => bytes[0] ?? 0,
+  encode: (value) => [value & 0xff],
+};
+
+export const utf8Codec: ValueCodec<string> = {
+  decode: (bytes) => {
+    try {
+      return decodeURIComponent(bytes.map((b) => `%${b.toString(16).padStart(2, '0')}`).join(''));
+    } catch {
+      // Not valid UTF-8 - fall back to one character per byte
+      return String.fromCharCode(...bytes);
+    }
+  },
+  encode: (text) => {
+    const bytes: number[] = [];
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code < 0x80) {
+        bytes.push(code);
+      } else if (code < 0x800) {
+        bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+      } else if (code < 0x10000) {
+        bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+      } else {
+        bytes.push(
+          0xf0 | (code >> 18),
+          0x80 | ((code >> 12) & 0x3f),
+          0x80 | ((code >> 6) & 0x3f),
+          0x80 | (code & 0x3f)
+        );
+      }
+    }
+    return bytes;
+  },
+};
@@ -0,0 +1,52 @@
+import { utf8Codec } from './codecs';
+import { DeviceProfile, ProfileCharacteristic } from './types';
+import { uuid16 } from './uuid';
+
+export const DEVICE_INFORMATION_SERVICE_UUID = uuid16(0x180a);
+export const MANUFACTURER_NAME_UUID = uuid16(0x2a29);
+export const MODEL_NUMBER_UUID = uuid16(0x2a24);
+export const SERIAL_NUMBER_UUID = uuid16(0x2a25);
+export const HARDWARE_REVISION_UUID = uuid16(0x2a27);
+export const FIRMWARE_REVISION_UUID = uuid16(0x2a26);
+
+/**
+ * Device Information strings - each one is optional in the spec
+ */
+export interface DeviceInformation {
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  hardwareRevision?: string;
+  firmwareRevision?: string;
+}
+
+const infoString = (
+  key: keyof DeviceInformation,
+  uuid: string,
+  label: string
+): ProfileCharacteristic<string> => ({
+  key,
+  uuid,
+  label,
+  // Many devices pad strings with NULs
+  codec: { decode: (bytes) => utf8Codec.decode(bytes).replace(/\0+$/, '') },
+  readOnConnect: true,
+  optional: true,
+});
+
+/**
+ * Bluetooth SIG Device Information Service (0x180A)
+ */
+export const deviceInformationProfile: DeviceProfile = {
+  id: 'dis',
+  name: 'Device Information',
+  serviceUUID: DEVICE_INFORMATION_SERVICE_UUID,
+  secondary: true,
+  characteristics: [
+    infoString('manufacturer', MANUFACTURER_NAME_UUID, 'Manufacturer'),
+    infoString('model', MODEL_NUMBER_UUID, 'Model'),
+    infoString('serialNumber', SERIAL_NUMBER_UUID, 'Serial'),
+    infoString('hardwareRevision', HARDWARE_REVISION_UUID, 'Hardware'),
+    infoString('firmwareRevision', FIRMWARE_REVISION_UUID, 'Firmware'),
+  ],
+};
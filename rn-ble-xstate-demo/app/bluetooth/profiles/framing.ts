@@ -0,0 +1,23 @@
+import { ValueFraming } from './types';
+
+/**
+ * Length-prefixed framing - a value is sent as its length (uint16, little endian) followed by
+ * its bytes, cut into packets; the receiver collects packets until that many bytes arrived
+ */
+export const lengthPrefixedFraming: ValueFraming = {
+  split: (bytes, maxPacket) => {
+    const framed = [bytes.length & 0xff, (bytes.length >> 8) & 0xff, ...bytes];
+    const packets: number[][] = [];
+    for (let offset = 0; offset < framed.length; offset += maxPacket) {
+      packets.push(framed.slice(offset, offset + maxPacket));
+    }
+    return packets;
+  },
+  join: (partial, packet) => {
+    const buffer = [...partial, ...packet];
+    if (buffer.length < 2) return { partial: buffer };
+    const length = buffer[0] | (buffer[1] << 8);
+    if (buffer.length - 2 < length) return { partial: buffer };
+    return { partial: [], value: buffer.slice(2, 2 + length) };
+  },
+};
@@ -0,0 +1,154 @@
+import { uint8Codec } from './codecs';
+import { DeviceProfile, ProfileCharacteristic, ValueCodec } from './types';
+import { uuid16 } from './uuid';
+
+export const HEART_RATE_SERVICE_UUID = uuid16(0x180d);
+export const HEART_RATE_MEASUREMENT_UUID = uuid16(0x2a37);
+export const BODY_SENSOR_LOCATION_UUID = uuid16(0x2a38);
+export const HEART_RATE_CONTROL_POINT_UUID = uuid16(0x2a39);
+
+/** Control point opcode that resets the energy expended counter */
+export const RESET_ENERGY_EXPENDED = 0x01;
+
+/**
+ * Parsed Heart Rate Measurement (0x2A37)
+ */
+export interface HeartRateMeasurement {
+  bpm: number;
+  /** null when the sensor does not support contact detection */
+  sensorContact: boolean | null;
+  /** Kilojoules since the last reset, null when not included */
+  energyExpended: number | null;
+  /** RR intervals in ms, oldest first */
+  rrIntervals: number[];
+}
+
+const FLAG_UINT16_BPM = 0x01;
+const FLAG_CONTACT_DETECTED = 0x02;
+const FLAG_CONTACT_SUPPORTED = 0x04;
+const FLAG_ENERGY_EXPENDED = 0x08;
+const FLAG_RR_INTERVALS = 0x10;
+
+const readUint16 = (bytes: number[], offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+/**
+ * Parses a Heart Rate Measurement notification per the HRS 1.0 spec
+ */
+export function parseHeartRateMeasurement(bytes: number[]): HeartRateMeasurement {
+  if (bytes.length < 2) {
+    throw new Error('Heart Rate Measurement too short');
+  }
+  const flags = bytes[0];
+  let offset = 1;
+
+  let bpm: number;
+  if (flags & FLAG_UINT16_BPM) {
+    bpm = readUint16(bytes, offset);
+    offset += 2;
+  } else {
+    bpm = bytes[offset];
+    offset += 1;
+  }
+
+  const sensorContact =
+    flags & FLAG_CONTACT_SUPPORTED ? (flags & FLAG_CONTACT_DETECTED) !== 0 : null;
+
+  let energyExpended: number | null = null;
+  if (flags & FLAG_ENERGY_EXPENDED) {
+    energyExpended = readUint16(bytes, offset);
+    offset += 2;
+  }
+
+  const rrIntervals: number[] = [];
+  if (flags & FLAG_RR_INTERVALS) {
+    for (; offset + 1 < bytes.length; offset += 2) {
+      // Transmitted in 1/1024 s units
+      rrIntervals.push(Math.round((readUint16(bytes, offset) * 1000) / 1024));
+    }
+  }
+
+  return { bpm, sensorContact, energyExpended, rrIntervals };
+}
+
+/**
+ * Builds a Heart Rate Measurement payload - the inverse of parseHeartRateMeasurement
+ */
+export function encodeHeartRateMeasurement(
+  measurement: Partial<HeartRateMeasurement> & { bpm: number }
+): number[] {
+  const wide = measurement.bpm > 0xff;
+  let flags = wide ? FLAG_UINT16_BPM : 0;
+  const body = wide ? [measurement.bpm & 0xff, measurement.bpm >> 8] : [measurement.bpm];
+
+  if (measurement.sensorContact !== undefined && measurement.sensorContact !== null) {
+    flags |= FLAG_CONTACT_SUPPORTED | (measurement.sensorContact ? FLAG_CONTACT_DETECTED : 0);
+  }
+  if (measurement.energyExpended !== undefined && measurement.energyExpended !== null) {
+    flags |= FLAG_ENERGY_EXPENDED;
+    body.push(measurement.energyExpended & 0xff, (measurement.energyExpended >> 8) & 0xff);
+  }
+  if (measurement.rrIntervals?.length) {
+    flags |= FLAG_RR_INTERVALS;
+    measurement.rrIntervals.forEach((ms) => {
+      const units = Math.round((ms * 1024) / 1000);
+      body.push(units & 0xff, (units >> 8) & 0xff);
+    });
+  }
+
+  return [flags, ...body];
+}
+
+export const BODY_SENSOR_LOCATIONS = ['Other', 'Chest', 'Wrist', 'Finger', 'Hand', 'Ear Lobe', 'Foot'];
+
+const heartRateMeasurementCodec: ValueCodec<HeartRateMeasurement> = {
+  decode: parseHeartRateMeasurement,
+};
+
+const bodySensorLocationCodec: ValueCodec<string> = {
+  decode: (bytes) => BODY_SENSOR_LOCATIONS[bytes[0]] ?? `Reserved (${bytes[0]})`,
+};
+
+const measurement: ProfileCharacteristic<HeartRateMeasurement> = {
+  key: 'measurement',
+  uuid: HEART_RATE_MEASUREMENT_UUID,
+  label: 'Heart Rate',
+  codec: heartRateMeasurementCodec,
+  subscribe: true,
+  format: (m) =>
+    [
+      `❤️ ${m.bpm} BPM`,
+      m.sensorContact === false ? 'no contact' : null,
+      m.energyExpended !== null ? `${m.energyExpended} kJ` : null,
+      m.rrIntervals.length ? `RR ${m.rrIntervals.join('/')} ms` : null,
+    ]
+      .filter(Boolean)
+      .join(' · '),
+};
+
+const bodySensorLocation: ProfileCharacteristic<string> = {
+  key: 'bodySensorLocation',
+  uuid: BODY_SENSOR_LOCATION_UUID,
+  label: 'Sensor Location',
+  codec: bodySensorLocationCodec,
+  readOnConnect: true,
+  optional: true,
+};
+
+const controlPoint: ProfileCharacteristic<number> = {
+  key: 'controlPoint',
+  uuid: HEART_RATE_CONTROL_POINT_UUID,
+  label: 'Energy Expended',
+  codec: uint8Codec,
+  optional: true,
+  controls: [{ label: 'Reset', value: RESET_ENERGY_EXPENDED }],
+};
+
+/**
+ * Bluetooth SIG Heart Rate Service (0x180D)
+ */
+export const heartRateProfile: DeviceProfile = {
+  id: 'hrs',
+  name: 'Heart Rate',
+  serviceUUID: HEART_RATE_SERVICE_UUID,
+  characteristics: [measurement, bodySensorLocation, controlPoint],
+};
@@ -0,0 +1,42 @@
+export {
+  type DeviceProfile,
+  type ProfileCharacteristic,
+  type ProfileControl,
+  type ProfileValues,
+  type ValueCodec,
+  type ValueFraming,
+} from './types';
+export { booleanCodec, uint8Codec, utf8Codec } from './codecs';
+export { lengthPrefixedFraming } from './framing';
+export { lbsProfile } from './lbs';
+export { BATTERY_LEVEL_UUID, BATTERY_SERVICE_UUID, batteryProfile } from './battery';
+export {
+  DEVICE_INFORMATION_SERVICE_UUID,
+  deviceInformationProfile,
+  FIRMWARE_REVISION_UUID,
+  HARDWARE_REVISION_UUID,
+  MANUFACTURER_NAME_UUID,
+  MODEL_NUMBER_UUID,
+  SERIAL_NUMBER_UUID,
+  type DeviceInformation,
+} from './deviceInformation';
+export {
+  BODY_SENSOR_LOCATION_UUID,
+  BODY_SENSOR_LOCATIONS,
+  encodeHeartRateMeasurement,
+  HEART_RATE_CONTROL_POINT_UUID,
+  HEART_RATE_MEASUREMENT_UUID,
+  HEART_RATE_SERVICE_UUID,
+  heartRateProfile,
+  parseHeartRateMeasurement,
+  RESET_ENERGY_EXPENDED,
+  type HeartRateMeasurement,
+} from './heartRate';
+export {
+  DEFAULT_PROFILES,
+  findProfile,
+  getProfileCharacteristic,
+  getScanServiceUUIDs,
+  matchProfiles,
+} from './registry';
+export { normalizeUuid, sameUuid, uuid16 } from './uuid';
@@ -0,0 +1,40 @@
+import {
+  BUTTON_CHARACTERISTIC_UUID,
+  LBS_SERVICE_UUID,
+  LED_CHARACTERISTIC_UUID,
+} from '../constants';
+import { booleanCodec } from './codecs';
+import { DeviceProfile, ProfileCharacteristic } from './types';
+
+const button: ProfileCharacteristic<boolean> = {
+  key: 'button',
+  uuid: BUTTON_CHARACTERISTIC_UUID,
+  label: 'Button',
+  codec: booleanCodec,
+  subscribe: true,
+  readOnConnect: true,
+  controls: ['read'],
+  format: (pressed) => (pressed ? '🔵 PRESSED' : '⚪ RELEASED'),
+};
+
+const led: ProfileCharacteristic<boolean> = {
+  key: 'led',
+  uuid: LED_CHARACTERISTIC_UUID,
+  label: 'LED',
+  codec: booleanCodec,
+  // Seeds the real state - the board keeps its LED across reconnects
+  readOnConnect: true,
+  initialValue: false,
+  controls: ['toggle'],
+  format: (on) => (on ? '🟢 ON' : '⚫ OFF'),
+};
+
+/**
+ * Nordic LED Button Service - one notifying button, one writable LED
+ */
+export const lbsProfile: DeviceProfile = {
+  id: 'lbs',
+  name: 'LED Button Service',
+  serviceUUID: LBS_SERVICE_UUID,
+  characteristics: [button, led],
+};
@@ -0,0 +1,50 @@
+import { batteryProfile } from './battery';
+import { deviceInformationProfile } from './deviceInformation';
+import { heartRateProfile } from './heartRate';
+import { lbsProfile } from './lbs';
+import { DeviceProfile, ProfileCharacteristic } from './types';
+import { sameUuid } from './uuid';
+
+/**
+ * Profiles the app ships with - add new device types here
+ */
+export const DEFAULT_PROFILES: DeviceProfile[] = [
+  lbsProfile,
+  heartRateProfile,
+  batteryProfile,
+  deviceInformationProfile,
+];
+
+export const findProfile = (profileId: string, profiles: DeviceProfile[] = DEFAULT_PROFILES) =>
+  profiles.find((p) => p.id === profileId);
+
+/**
+ * Looks up a profile characteristic - throws when the profile or key is unknown
+ */
+export function getProfileCharacteristic(
+  profiles: DeviceProfile[],
+  profileId: string,
+  key: string
+): { profile: DeviceProfile; characteristic: ProfileCharacteristic } {
+  const profile = findProfile(profileId, profiles);
+  const characteristic = profile?.characteristics.find((c) => c.key === key);
+  if (!profile || !characteristic) {
+    throw new Error(`Unknown profile value ${profileId}.${key}`);
+  }
+  return { profile, characteristic };
+}
+
+/**
+ * Profiles whose service is present in the discovered service list
+ */
+export const matchProfiles = (profiles: DeviceProfile[], serviceUUIDs: string[]) =>
+  profiles.filter((p) => serviceUUIDs.some((uuid) => sameUuid(uuid, p.serviceUUID)));
+
+/**
+ * Service UUIDs to filter scans by - the union of every primary profile's service
+ */
+export const getScanServiceUUIDs = (profiles: DeviceProfile[]) =>
+  profiles
+    .filter((p) => !p.secondary)
+    .map((p) => p.serviceUUID)
+    .filter((uuid, i, all) => all.findIndex((other) => sameUuid(other, uuid)) === i);
@@ -0,0 +1,72 @@
+/**
+ * Converts between raw characteristic bytes and a typed value
+ */
+export interface ValueCodec<T = unknown> {
+  decode(bytes: number[]): T;
+  /** Omitted for read/notify-only values */
+  encode?(value: T): number[];
+}
+
+/**
+ * Application-level framing for values longer than one ATT packet - writes are split into
+ * packets and notifications reassembled, instead of relying on long writes and reads
+ */
+export interface ValueFraming {
+  /** Packets for one value, each at most `maxPacket` bytes */
+  split(bytes: number[], maxPacket: number): number[][];
+  /** Adds a received packet to the partial value; `value` is set once the last one arrives */
+  join(partial: number[], packet: number[]): { partial: number[]; value?: number[] };
+}
+
+/**
+ * UI controls a profile characteristic can render
+ * - read: button that re-reads the value
+ * - toggle: button that writes the negated boolean value
+ * - { label, value }: button that writes a fixed value (control point commands)
+ */
+export type ProfileControl<T = unknown> = 'read' | 'toggle' | { label: string; value: T };
+
+/**
+ * One characteristic a profile knows how to use
+ */
+export interface ProfileCharacteristic<T = unknown> {
+  /** Stable name used in events and context, e.g. 'button' */
+  key: string;
+  uuid: string;
+  label: string;
+  codec: ValueCodec<T>;
+  /** Enable notifications during connect, when the characteristic supports them */
+  subscribe?: boolean;
+  /** Read the value during connect, when the characteristic is readable */
+  readOnConnect?: boolean;
+  /** Value assumed until the first read/notification */
+  initialValue?: T;
+  /** Skipped during setup when the device does not expose it */
+  optional?: boolean;
+  /** Splits writes and reassembles notifications - see lengthPrefixedFraming */
+  framing?: ValueFraming;
+  controls?: ProfileControl<T>[];
+  /** Display text for the value - defaults to String(value) */
+  format?(value: T): string;
+}
+
+/**
+ * Declarative description of a device type - one GATT service and how to drive it
+ */
+export interface DeviceProfile {
+  /** Stable id used in events and context, e.g. 'lbs' */
+  id: string;
+  name: string;
+  serviceUUID: string;
+  /**
+   * Applied to any connected device that exposes the service, but never used to filter
+   * scans or to decide whether a device is supported (Battery, Device Information)
+   */
+  secondary?: boolean;
+  characteristics: ProfileCharacteristic[];
+}
+
+/**
+ * Decoded profile values per device - profile id → characteristic key → value
+ */
+export type ProfileValues = Record<string, Record<string, unknown>>;
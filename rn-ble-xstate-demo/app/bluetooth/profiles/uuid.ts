@@ -0,0 +1,19 @@
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+/**
+ * Expands a 16-bit SIG-assigned number into its full 128-bit UUID
+ */
+export const uuid16 = (shortId: number) =>
+  `0000${shortId.toString(16).padStart(4, '0')}${BASE_UUID_SUFFIX}`;
+
+/**
+ * Lower-cased 128-bit form - platforms report SIG UUIDs either short ('180D') or expanded
+ */
+export function normalizeUuid(uuid: string): string {
+  const lower = uuid.toLowerCase();
+  if (/^[0-9a-f]{4}$/.test(lower)) return `0000${lower}${BASE_UUID_SUFFIX}`;
+  if (/^[0-9a-f]{8}$/.test(lower)) return `${lower}${BASE_UUID_SUFFIX}`;
+  return lower;
+}
+
+export const sameUuid = (a: string, b: string) => normalizeUuid(a) === normalizeUuid(b);
@@ -0,0 +1,17 @@
+import { fromCallback } from 'xstate';
+import { BleTransport } from '../../transport';
+import { BleEvent } from '../types';
+
+/**
+ * Callback actor for the whole machine - reports every adapter state change
+ */
+export const createAdapterListener = (transport: BleTransport) =>
+  fromCallback<BleEvent>(({ sendBack }) => {
+    const listener = transport.onDidUpdateState((state) => {
+      sendBack({ type: 'ADAPTER_STATE_CHANGED', state });
+    });
+
+    return () => {
+      listener.remove();
+    };
+  });
@@ -0,0 +1,8 @@
+import { fromPromise } from 'xstate';
+import { BlePermissions, PermissionStatus } from '../../permissions';
+
+/**
+ * Check actor - reads the permission status without prompting
+ */
+export const createCheckPermissions = (permissions: BlePermissions) =>
+  fromPromise<PermissionStatus, void>(() => permissions.check());
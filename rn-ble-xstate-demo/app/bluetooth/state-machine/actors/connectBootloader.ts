@@ -0,0 +1,23 @@
+import { fromPromise } from 'xstate';
+import { DFU_CONTROL_POINT_UUID, SECURE_DFU_SERVICE_UUID } from '../../constants';
+import { findBootloader } from '../../dfu';
+import { BleTransport } from '../../transport';
+import { buildGattTable, findGattCharacteristic } from '../gatt';
+
+/**
+ * Bootloader connect actor - finds the device's bootloader (unless already known from an
+ * earlier attempt), connects and checks it exposes the DFU control point. Outputs its id.
+ */
+export const createConnectBootloader = (transport: BleTransport) =>
+  fromPromise<string, { deviceId: string; bootloaderId: string | null }>(async ({ input }) => {
+    const bootloaderId =
+      input.bootloaderId ?? (await findBootloader(transport, input.deviceId));
+
+    await transport.connect(bootloaderId);
+    const services = buildGattTable(await transport.retrieveServices(bootloaderId));
+    if (!findGattCharacteristic(services, SECURE_DFU_SERVICE_UUID, DFU_CONTROL_POINT_UUID)) {
+      throw new Error('Device is not a DFU bootloader');
+    }
+
+    return bootloaderId;
+  });
@@ -0,0 +1,20 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+
+/**
+ * Connect actor - stop the scan the user picked the device from, connect. The device machine
+ * reports the connection to bleMachine, which records it in the known-device registry.
+ */
+export const createConnectToDevice = (transport: BleTransport) =>
+  fromPromise<void, { deviceId: string; stopScan: boolean }>(async ({ input }) => {
+    // Other connects and reconnects leave a running scan alone
+    if (input.stopScan) {
+      try {
+        await transport.stopScan();
+      } catch {
+        // Ignore
+      }
+    }
+
+    await transport.connect(input.deviceId);
+  });
@@ -1,31 +1,69 @@
-import BleManager from 'react-native-ble-manager';
 import { fromCallback } from 'xstate';
-import { BUTTON_CHARACTERISTIC_UUID } from '../../constants';
-import { BleEvent } from '../ble-machine';
+import { DeviceProfile, sameUuid } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { characteristicKey } from '../gatt';
+import { DeviceEvent } from '../types';
 
 /**
- * Callback actor for connected state - listens for button notifications and disconnections
+ * Callback actor for connected state - listens for one device's notifications and disconnection,
+ * decoding values of the device's profiles
  */
-export const connectedListener = fromCallback<BleEvent>(({ sendBack }) => {
-  const updateValueListener = BleManager.onDidUpdateValueForCharacteristic(
-    (args: { characteristic: string; value: number[]; peripheral: string; service: string }) => {
-      if (args.characteristic.toLowerCase() === BUTTON_CHARACTERISTIC_UUID.toLowerCase()) {
-        const buttonPressed = args.value[0] !== 0;
-        sendBack({ type: 'BUTTON_STATE_CHANGED', value: buttonPressed });
-      }
-    }
-  );
-
-  const disconnectListener = BleManager.onDisconnectPeripheral((data) => {
-    sendBack({ 
-      type: 'CONNECTION_LOST', 
-      reason: data?.peripheral ? 'Device disconnected unexpectedly' : 'Connection lost' 
+export const createConnectedListener = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromCallback<DeviceEvent, { deviceId: string; profileIds: string[] }>(({ sendBack, input }) => {
+    const deviceProfiles = profiles.filter((p) => input.profileIds.includes(p.id));
+    // Packets of framed values received so far, keyed by characteristicKey()
+    const partials = new Map<string, number[]>();
+
+    const updateValueListener = transport.onCharacteristicValue((args) => {
+      if (args.peripheral !== input.deviceId) return;
+
+      sendBack({
+        type: 'CHARACTERISTIC_VALUE_CHANGED',
+        service: args.service,
+        characteristic: args.characteristic,
+        value: args.value,
+      });
+
+      deviceProfiles.forEach((profile) => {
+        if (!sameUuid(args.service, profile.serviceUUID)) return;
+        const characteristic = profile.characteristics.find((c) =>
+          sameUuid(c.uuid, args.characteristic)
+        );
+        if (!characteristic) return;
+
+        let bytes = args.value;
+        if (characteristic.framing) {
+          const key = characteristicKey(args.service, args.characteristic);
+          const { partial, value } = characteristic.framing.join(partials.get(key) ?? [], bytes);
+          partials.set(key, partial);
+          if (!value) return;
+          bytes = value;
+        }
+
+        try {
+          sendBack({
+            type: 'VALUE_CHANGED',
+            profileId: profile.id,
+            key: characteristic.key,
+            value: characteristic.codec.decode(bytes),
+          });
+        } catch {
+          // Ignore malformed notifications - the raw bytes still reach the GATT explorer
+        }
+      });
     });
-  });
 
-  return () => {
-    updateValueListener.remove();
-    disconnectListener.remove();
-  };
-});
+    const disconnectListener = transport.onDisconnectPeripheral((data) => {
+      if (data?.peripheral && data.peripheral !== input.deviceId) return;
+
+      sendBack({
+        type: 'CONNECTION_LOST',
+        reason: data?.peripheral ? 'Device disconnected unexpectedly' : 'Connection lost',
+      });
+    });
 
+    return () => {
+      updateValueListener.remove();
+      disconnectListener.remove();
+    };
+  });
@@ -0,0 +1,28 @@
+import { fromCallback } from 'xstate';
+import { DfuPackage, performSecureDfu } from '../../dfu';
+import { BleTransport } from '../../transport';
+import { DeviceEvent } from '../types';
+
+/**
+ * Callback actor for the DFU transfer - streams the package to the bootloader, reporting
+ * progress as it goes. Stopping the actor cancels the transfer.
+ */
+export const createDfuTransfer = (transport: BleTransport) =>
+  fromCallback<DeviceEvent, { bootloaderId: string; dfuPackage: DfuPackage }>(
+    ({ sendBack, input }) => {
+      const controller = new AbortController();
+
+      performSecureDfu(transport, input.bootloaderId, input.dfuPackage, {
+        signal: controller.signal,
+        onProgress: (progress) => sendBack({ type: 'DFU_PROGRESS', ...progress }),
+      })
+        .then(() => sendBack({ type: 'DFU_COMPLETE' }))
+        .catch((error: Error) => {
+          if (!controller.signal.aborted) {
+            sendBack({ type: 'DFU_FAILED', error: error.message || 'Firmware update failed' });
+          }
+        });
+
+      return () => controller.abort();
+    }
+  );
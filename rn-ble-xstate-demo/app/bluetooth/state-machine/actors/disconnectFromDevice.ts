@@ -1,14 +1,14 @@
-import BleManager from 'react-native-ble-manager';
 import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
 
 /**
  * Disconnect actor - disconnects from device
  */
-export const disconnectFromDevice = fromPromise<void, { deviceId: string }>(async ({ input }) => {
-  try {
-    await BleManager.disconnect(input.deviceId);
-  } catch {
-    // Ignore disconnect errors
-  }
-});
-
+export const createDisconnectFromDevice = (transport: BleTransport) =>
+  fromPromise<void, { deviceId: string }>(async ({ input }) => {
+    try {
+      await transport.disconnect(input.deviceId);
+    } catch {
+      // Ignore disconnect errors
+    }
+  });
@@ -0,0 +1,29 @@
+import { fromPromise } from 'xstate';
+import { DeviceProfile, matchProfiles } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { buildGattTable } from '../gatt';
+import { GattService } from '../types';
+
+export interface DiscoverServicesOutput {
+  services: GattService[];
+  /** Ids of the profiles found on the device */
+  profileIds: string[];
+}
+
+/**
+ * Service discovery actor - reads the GATT table and picks the profiles the device supports
+ */
+export const createDiscoverServices = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromPromise<DiscoverServicesOutput, { deviceId: string }>(async ({ input }) => {
+    const services = buildGattTable(await transport.retrieveServices(input.deviceId));
+    const matched = matchProfiles(
+      profiles,
+      services.map((s) => s.uuid)
+    );
+
+    if (!matched.some((p) => !p.secondary)) {
+      throw new Error('No supported profile found on device');
+    }
+
+    return { services, profileIds: matched.map((p) => p.id) };
+  });
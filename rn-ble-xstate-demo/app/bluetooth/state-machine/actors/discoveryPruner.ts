@@ -0,0 +1,23 @@
+import { fromCallback } from 'xstate';
+import { BleEvent, DiscoveryPolicy } from '../types';
+
+/**
+ * Callback actor for scanning - asks the machine to drop stale devices every prune interval.
+ * Without duplicates, iOS reports each device once per scan, so lastSeen never moves and
+ * nothing is pruned.
+ */
+export const createDiscoveryPruner = () =>
+  fromCallback<BleEvent, { policy: DiscoveryPolicy; allowDuplicates: boolean }>(
+    ({ sendBack, input }) => {
+      if (input.policy.staleAfter <= 0 || !input.allowDuplicates) return;
+
+      const timer = setInterval(
+        () => sendBack({ type: 'PRUNE_DISCOVERED' }),
+        input.policy.pruneInterval
+      );
+
+      return () => {
+        clearInterval(timer);
+      };
+    }
+  );
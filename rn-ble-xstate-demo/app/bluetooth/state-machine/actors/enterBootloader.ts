@@ -0,0 +1,11 @@
+import { fromPromise } from 'xstate';
+import { enterBootloader } from '../../dfu';
+import { BleTransport } from '../../transport';
+
+/**
+ * Buttonless DFU actor - asks the application to reboot into its bootloader
+ */
+export const createEnterBootloader = (transport: BleTransport) =>
+  fromPromise<void, { deviceId: string }>(async ({ input }) => {
+    await enterBootloader(transport, input.deviceId);
+  });
@@ -0,0 +1,18 @@
+import { AppState } from 'react-native';
+import { fromCallback } from 'xstate';
+import { PermissionsEvent } from '../types';
+
+/**
+ * Callback actor for blocked permissions - checks again whenever the app comes back to the
+ * foreground, e.g. from the settings page
+ */
+export const createForegroundListener = () =>
+  fromCallback<PermissionsEvent>(({ sendBack }) => {
+    const listener = AppState.addEventListener('change', (state) => {
+      if (state === 'active') sendBack({ type: 'CHECK_PERMISSIONS' });
+    });
+
+    return () => {
+      listener.remove();
+    };
+  });
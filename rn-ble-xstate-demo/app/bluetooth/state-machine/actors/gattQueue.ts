@@ -0,0 +1,132 @@
+import { fromCallback } from 'xstate';
+import { DeviceProfile, getProfileCharacteristic } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { writeValue } from '../gatt';
+import { getDeviceQueue, QueuedOperationOptions } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+import { BleTimeouts, DeviceEvent, GattQueuePolicy } from '../types';
+
+/**
+ * Callback actor for connected state - serializes one device's profile reads and writes through
+ * the device's queue with per-attempt timeouts and retries, and reports every operation on that
+ * queue, whoever enqueued it. Results and the operation list are sent back as events;
+ * CANCEL_OPERATION cancels one operation and stopping the actor cancels everything still queued.
+ */
+export const createGattQueue = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromCallback<
+    DeviceEvent,
+    { deviceId: string; policy: GattQueuePolicy; timeouts: BleTimeouts; mtu: number }
+  >(({ sendBack, receive, input }) => {
+    const { deviceId, policy, timeouts, mtu } = input;
+    const queue = getDeviceQueue(transport, deviceId);
+    let stopped = false;
+    let reportedDepth = 0;
+    let pendingReport: ReturnType<typeof setTimeout> | null = null;
+
+    const send = (event: DeviceEvent) => {
+      if (!stopped) sendBack(event);
+    };
+    const report = () => {
+      pendingReport = null;
+      reportedDepth = queue.depth;
+      send({ type: 'GATT_QUEUE_CHANGED', operations: queue.operations });
+    };
+
+    // Results go out before the list that no longer holds their operation - a growing queue is
+    // reported at once, a shrinking one after the results already on their way
+    const unsubscribe = queue.subscribe(() => {
+      if (queue.depth >= reportedDepth) {
+        report();
+      } else if (!pendingReport) {
+        pendingReport = setTimeout(report, 0);
+      }
+    });
+
+    const enqueue = <T>(
+      operation: () => Promise<T>,
+      options: QueuedOperationOptions,
+      onDone: (result: T) => DeviceEvent,
+      onError: (message: string) => DeviceEvent
+    ) => {
+      queue
+        .enqueue(operation, options)
+        .then(onDone, (error: Error) => onError(error?.message))
+        .then(send);
+    };
+
+    receive((event) => {
+      if (event.type === 'CANCEL_OPERATION') {
+        queue.cancel(event.operationId);
+      }
+
+      if (event.type === 'READ_VALUE') {
+        const { profileId, key } = event;
+        enqueue(
+          async () => {
+            const { profile, characteristic } = getProfileCharacteristic(profiles, profileId, key);
+            const data = await transport.read(deviceId, profile.serviceUUID, characteristic.uuid);
+            return characteristic.codec.decode(data);
+          },
+          {
+            label: `Read ${profileId}.${key}`,
+            priority: event.priority ?? 'normal',
+            timeout: timeouts.read,
+            timeoutError: () => new BleTimeoutError('read', timeouts.read),
+            retries: policy.readRetries,
+            retryDelay: policy.retryDelay,
+          },
+          (value) => ({ type: 'VALUE_CHANGED', profileId, key, value }),
+          (message) => ({
+            type: 'VALUE_READ_FAILED',
+            profileId,
+            key,
+            error: message || 'Read failed',
+          })
+        );
+      }
+
+      if (event.type === 'WRITE_VALUE') {
+        const { profileId, key, value } = event;
+        enqueue(
+          async () => {
+            const { profile, characteristic } = getProfileCharacteristic(profiles, profileId, key);
+            if (!characteristic.codec.encode) {
+              throw new Error(`${profile.name} ${characteristic.label} is not writable`);
+            }
+            await writeValue(
+              transport,
+              deviceId,
+              profile.serviceUUID,
+              characteristic.uuid,
+              characteristic.codec.encode(value),
+              { mtu, framing: characteristic.framing }
+            );
+          },
+          // Control changes go ahead of background reads unless told otherwise
+          {
+            label: `Write ${profileId}.${key}`,
+            priority: event.priority ?? 'high',
+            timeout: timeouts.write,
+            timeoutError: () => new BleTimeoutError('write', timeouts.write),
+            retries: policy.writeRetries,
+            retryDelay: policy.retryDelay,
+          },
+          () => ({ type: 'VALUE_WRITTEN', profileId, key }),
+          (message) => ({
+            type: 'VALUE_WRITE_FAILED',
+            profileId,
+            key,
+            value,
+            error: message || 'Write failed',
+          })
+        );
+      }
+    });
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+      if (pendingReport) clearTimeout(pendingReport);
+      queue.clear();
+    };
+  });
@@ -1,8 +1,95 @@
-export { initializeBle, type StoredDevice } from './initializeBle';
-export { scanForDevices } from './scanForDevices';
-export { scanListener } from './scanListener';
-export { connectAndSetup } from './connectAndSetup';
-export { connectedListener } from './connectedListener';
-export { writeLedState } from './writeLedState';
-export { readButtonState } from './readButtonState';
-export { disconnectFromDevice } from './disconnectFromDevice';
+import { BlePermissions } from '../../permissions';
+import { DEFAULT_PROFILES, DeviceProfile } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { createCheckPermissions } from './checkPermissions';
+import { createConnectBootloader } from './connectBootloader';
+import { createConnectedListener } from './connectedListener';
+import { createConnectToDevice } from './connectToDevice';
+import { createDfuTransfer } from './dfuTransfer';
+import { createDisconnectFromDevice } from './disconnectFromDevice';
+import { createDiscoverServices } from './discoverServices';
+import { createEnterBootloader } from './enterBootloader';
+import { createForegroundListener } from './foregroundListener';
+import { createGattQueue } from './gattQueue';
+import { createNegotiateMtu } from './negotiateMtu';
+import { createOpenSettings } from './openSettings';
+import { createReadCharacteristic } from './readCharacteristic';
+import { createReadInitialValues } from './readInitialValues';
+import { createRequestPermissions } from './requestPermissions';
+import { createRssiPoller } from './rssiPoller';
+import { createSetNotification } from './setNotification';
+import { createSubscribeProfiles } from './subscribeProfiles';
+import { createTerminalListener } from './terminalListener';
+import { createWriteCharacteristic } from './writeCharacteristic';
+import { createWriteTerminal } from './writeTerminal';
+
+export { createCheckPermissions } from './checkPermissions';
+export { createRequestPermissions } from './requestPermissions';
+export { createOpenSettings } from './openSettings';
+export { createForegroundListener } from './foregroundListener';
+export { createInitializeBle } from './initializeBle';
+export { createAdapterListener } from './adapterListener';
+export { createScanForDevices } from './scanForDevices';
+export { createScanListener } from './scanListener';
+export { createStopScanning } from './stopScanning';
+export { createDiscoveryPruner } from './discoveryPruner';
+export { createConnectToDevice } from './connectToDevice';
+export { createDiscoverServices, type DiscoverServicesOutput } from './discoverServices';
+export { createNegotiateMtu } from './negotiateMtu';
+export { createSubscribeProfiles } from './subscribeProfiles';
+export { createReadInitialValues } from './readInitialValues';
+export { createConnectedListener } from './connectedListener';
+export { createGattQueue } from './gattQueue';
+export { createRssiPoller } from './rssiPoller';
+export { createDisconnectFromDevice } from './disconnectFromDevice';
+export { createReadCharacteristic } from './readCharacteristic';
+export { createWriteCharacteristic } from './writeCharacteristic';
+export { createSetNotification } from './setNotification';
+export { createTerminalListener } from './terminalListener';
+export { createWriteTerminal } from './writeTerminal';
+export { createEnterBootloader } from './enterBootloader';
+export { createConnectBootloader } from './connectBootloader';
+export { createDfuTransfer } from './dfuTransfer';
+
+/**
+ * Builds the device connection actors against the given transport and profiles
+ */
+export const createDeviceActors = (
+  transport: BleTransport,
+  profiles: DeviceProfile[] = DEFAULT_PROFILES
+) => ({
+  connectToDevice: createConnectToDevice(transport),
+  discoverServices: createDiscoverServices(transport, profiles),
+  negotiateMtu: createNegotiateMtu(transport),
+  subscribeProfiles: createSubscribeProfiles(transport, profiles),
+  readInitialValues: createReadInitialValues(transport, profiles),
+  connectedListener: createConnectedListener(transport, profiles),
+  gattQueue: createGattQueue(transport, profiles),
+  rssiPoller: createRssiPoller(transport),
+  disconnectFromDevice: createDisconnectFromDevice(transport),
+  readCharacteristic: createReadCharacteristic(transport),
+  writeCharacteristic: createWriteCharacteristic(transport),
+  setNotification: createSetNotification(transport),
+  enterBootloader: createEnterBootloader(transport),
+  connectBootloader: createConnectBootloader(transport),
+  dfuTransfer: createDfuTransfer(transport),
+});
+
+/**
+ * Builds the Nordic UART terminal actors against the given transport
+ */
+export const createTerminalActors = (transport: BleTransport) => ({
+  setNotification: createSetNotification(transport),
+  terminalListener: createTerminalListener(transport),
+  writeTerminal: createWriteTerminal(transport),
+});
+
+/**
+ * Builds the permission flow actors against the given permission backend
+ */
+export const createPermissionsActors = (permissions: BlePermissions) => ({
+  checkPermissions: createCheckPermissions(permissions),
+  requestPermissions: createRequestPermissions(permissions),
+  openSettings: createOpenSettings(permissions),
+  foregroundListener: createForegroundListener(),
+});
@@ -1,64 +1,45 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { PermissionsAndroid, Platform } from 'react-native';
-import BleManager from 'react-native-ble-manager';
+import { Platform } from 'react-native';
 import { fromPromise } from 'xstate';
-import { STORAGE_KEY } from '../../constants';
-
-export interface StoredDevice {
-  id: string;
-  name: string | null;
-}
+import { knownDevicesStorage } from '../../storage';
+import { BleTransport } from '../../transport';
+import { BluetoothUnavailableError } from '../adapter';
+import { chooseAutoConnectDevices } from '../knownDevices';
+import { KnownDevice } from '../types';
 
 /**
- * Combined init actor - permissions, BLE start, load stored device
+ * Combined init actor - BLE start, adapter check, load known devices and choose which to
+ * connect. Permissions are granted beforehand by the permissions machine.
  */
-export const initializeBle = fromPromise<{ storedDevice: StoredDevice | null }, void>(async () => {
-  // Request permissions on Android 12+
-  if (Platform.OS === 'android' && Platform.Version >= 31) {
-    const granted = await PermissionsAndroid.requestMultiple([
-      PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
-      PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
-    ]);
-
-    const hasPermissions =
-      granted['android.permission.BLUETOOTH_SCAN'] === PermissionsAndroid.RESULTS.GRANTED &&
-      granted['android.permission.BLUETOOTH_CONNECT'] === PermissionsAndroid.RESULTS.GRANTED;
-
-    if (!hasPermissions) {
-      throw new Error('Bluetooth permissions denied');
+export const createInitializeBle = (transport: BleTransport) =>
+  fromPromise<
+    { knownDevices: KnownDevice[]; autoConnectDevices: KnownDevice[] },
+    { autoConnectLimit: number }
+  >(async ({ input }) => {
+    // Start the BLE stack
+    await transport.start();
+
+    // Check Bluetooth state
+    let state = await transport.checkState();
+
+    if (state === 'off') {
+      if (Platform.OS === 'android') {
+        // A refused prompt leaves it off - wait for the adapter rather than asking again
+        await transport.enableBluetooth().catch(() => {
+          throw new BluetoothUnavailableError('off');
+        });
+        state = await transport.checkState();
+      }
     }
-  }
-
-  // Start BLE Manager
-  await BleManager.start();
-
-  // Check Bluetooth state
-  let state = await BleManager.checkState();
-
-  if (state === 'off') {
-    if (Platform.OS === 'android') {
-      await BleManager.enableBluetooth();
-      state = await BleManager.checkState();
-    }
-  }
-
-  if (state !== 'on') {
-    throw new Error(`Bluetooth is ${state}`);
-  }
-
-  // Load stored device (JSON with id and name)
-  const storedDeviceJson = await AsyncStorage.getItem(STORAGE_KEY);
-  let storedDevice: StoredDevice | null = null;
 
-  if (storedDeviceJson) {
-    try {
-      storedDevice = JSON.parse(storedDeviceJson);
-    } catch {
-      // If parsing fails, treat as legacy format (just the ID)
-      storedDevice = { id: storedDeviceJson, name: null };
+    if (state !== 'on') {
+      throw new BluetoothUnavailableError(state);
     }
-  }
 
-  return { storedDevice };
-});
+    // Load known devices - older formats are migrated, unreadable ones start an empty registry
+    const { data: knownDevices } = await knownDevicesStorage.load();
 
+    return {
+      knownDevices,
+      autoConnectDevices: chooseAutoConnectDevices(knownDevices, input.autoConnectLimit),
+    };
+  });
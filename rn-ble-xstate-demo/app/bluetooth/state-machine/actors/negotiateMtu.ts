@@ -0,0 +1,10 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+
+/**
+ * MTU actor - asks for a larger ATT MTU and outputs the one the link ended up with
+ */
+export const createNegotiateMtu = (transport: BleTransport) =>
+  fromPromise<number, { deviceId: string; mtu: number }>(({ input }) =>
+    transport.requestMTU(input.deviceId, input.mtu)
+  );
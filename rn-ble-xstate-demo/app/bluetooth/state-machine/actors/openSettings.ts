@@ -0,0 +1,8 @@
+import { fromPromise } from 'xstate';
+import { BlePermissions } from '../../permissions';
+
+/**
+ * Settings actor - opens the app's page in the system settings
+ */
+export const createOpenSettings = (permissions: BlePermissions) =>
+  fromPromise<void, void>(() => permissions.openSettings());
@@ -0,0 +1,30 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+
+interface CharacteristicRef {
+  deviceId: string;
+  service: string;
+  characteristic: string;
+}
+
+/**
+ * Read characteristic actor - reads any characteristic (GATT explorer) through the device's queue
+ */
+export const createReadCharacteristic = (transport: BleTransport) =>
+  fromPromise<CharacteristicRef & { value: number[] }, CharacteristicRef & { timeout?: number }>(
+    async ({ input, signal }) => {
+      const { deviceId, service, characteristic, timeout } = input;
+      const value = await getDeviceQueue(transport, deviceId).enqueue(
+        () => transport.read(deviceId, service, characteristic),
+        {
+          label: `Read ${characteristic}`,
+          timeout,
+          timeoutError: timeout ? () => new BleTimeoutError('read', timeout) : undefined,
+          signal,
+        }
+      );
+      return { deviceId, service, characteristic, value };
+    }
+  );
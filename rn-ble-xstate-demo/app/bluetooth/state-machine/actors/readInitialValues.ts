@@ -0,0 +1,64 @@
+import { fromPromise } from 'xstate';
+import { DeviceProfile, ProfileValues } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { findProfileCharacteristics } from '../gatt';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+import { GattService } from '../types';
+
+interface ReadInitialValuesInput {
+  deviceId: string;
+  services: GattService[];
+  profileIds: string[];
+  /** Time allowed for each read, in ms */
+  timeout: number;
+}
+
+/**
+ * Initial read actor - starts every matched profile from its declared initial values, then
+ * reads the readable characteristics marked `readOnConnect` through the device's queue, ahead of
+ * anything else queued. Secondary profiles and optional characteristics are read best-effort:
+ * one that fails or cannot be decoded is left out of the values instead of failing setup.
+ */
+export const createReadInitialValues = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromPromise<ProfileValues, ReadInitialValuesInput>(async ({ input, signal }) => {
+    const queue = getDeviceQueue(transport, input.deviceId);
+    const values: ProfileValues = {};
+
+    for (const profile of profiles.filter((p) => input.profileIds.includes(p.id))) {
+      values[profile.id] = {};
+      for (const characteristic of profile.characteristics) {
+        if (characteristic.initialValue !== undefined) {
+          values[profile.id][characteristic.key] = characteristic.initialValue;
+        }
+      }
+    }
+
+    for (const { profile, characteristic, discovered } of findProfileCharacteristics(
+      profiles,
+      input.profileIds,
+      input.services
+    )) {
+      const canRead = !discovered || discovered.properties.includes('Read');
+      if (!characteristic.readOnConnect || !canRead) continue;
+
+      try {
+        const data = await queue.enqueue(
+          () => transport.read(input.deviceId, profile.serviceUUID, characteristic.uuid),
+          {
+            label: `Read ${profile.id}.${characteristic.key}`,
+            priority: 'high',
+            timeout: input.timeout,
+            timeoutError: () => new BleTimeoutError('read', input.timeout),
+            signal,
+          }
+        );
+        values[profile.id][characteristic.key] = characteristic.codec.decode(data);
+      } catch (error) {
+        if (signal.aborted || !(profile.secondary || characteristic.optional)) throw error;
+        delete values[profile.id][characteristic.key];
+      }
+    }
+
+    return values;
+  });
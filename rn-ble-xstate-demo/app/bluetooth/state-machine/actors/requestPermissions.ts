@@ -0,0 +1,8 @@
+import { fromPromise } from 'xstate';
+import { BlePermissions, PermissionStatus } from '../../permissions';
+
+/**
+ * Request actor - shows the system prompt and resolves with the user's answer
+ */
+export const createRequestPermissions = (permissions: BlePermissions) =>
+  fromPromise<PermissionStatus, void>(() => permissions.request());
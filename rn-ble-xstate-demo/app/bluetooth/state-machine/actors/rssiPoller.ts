@@ -0,0 +1,60 @@
+import { AppState } from 'react-native';
+import { fromCallback } from 'xstate';
+import { BleTransport } from '../../transport';
+import { createRssiFilter } from '../rssi';
+import { DeviceEvent, RssiPolicy } from '../types';
+
+/**
+ * Callback actor for connected state - reads the link's RSSI every policy interval and sends
+ * smoothed samples back. Polling pauses while the app is in the background and picks up with
+ * a fresh reading when it returns.
+ */
+export const createRssiPoller = (transport: BleTransport) =>
+  fromCallback<DeviceEvent, { deviceId: string; policy: RssiPolicy }>(({ sendBack, input }) => {
+    const { deviceId, policy } = input;
+    if (policy.interval <= 0) return;
+
+    const smooth = createRssiFilter(policy);
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let reading = false;
+    let stopped = false;
+
+    const poll = async () => {
+      if (reading) return;
+      reading = true;
+      try {
+        const rssi = await transport.readRSSI(deviceId);
+        if (!stopped) {
+          sendBack({
+            type: 'RSSI_UPDATED',
+            sample: { time: Date.now(), rssi, smoothed: smooth(rssi) },
+          });
+        }
+      } catch {
+        // Skip the sample - a lost link is reported by the connected listener
+      } finally {
+        reading = false;
+      }
+    };
+
+    const resume = () => {
+      if (timer) return;
+      poll();
+      timer = setInterval(poll, policy.interval);
+    };
+    const pause = () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    };
+
+    const appStateListener = AppState.addEventListener('change', (state) =>
+      state === 'background' ? pause() : resume()
+    );
+    if (AppState.currentState !== 'background') resume();
+
+    return () => {
+      stopped = true;
+      pause();
+      appStateListener.remove();
+    };
+  });
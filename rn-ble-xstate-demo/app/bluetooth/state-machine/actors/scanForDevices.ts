@@ -1,15 +1,13 @@
-import BleManager from 'react-native-ble-manager';
 import { fromPromise } from 'xstate';
-import { LBS_SERVICE_UUID } from '../../constants';
+import { DeviceProfile } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { getScanOptions } from '../scan';
+import { ScanSettings } from '../types';
 
 /**
- * Scan actor - scans for LBS devices
+ * Scan actor - starts a scan with the machine's scan settings
  */
-export const scanForDevices = fromPromise<void, void>(async () => {
-  await BleManager.scan({
-    serviceUUIDs: [LBS_SERVICE_UUID],
-    seconds: 10,
-    allowDuplicates: false,
+export const createScanForDevices = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromPromise<void, { settings: ScanSettings }>(async ({ input }) => {
+    await transport.scan(getScanOptions(input.settings, profiles));
   });
-});
-
@@ -1,17 +1,21 @@
-import BleManager, { Peripheral } from 'react-native-ble-manager';
 import { fromCallback } from 'xstate';
-import { BleEvent } from '../ble-machine';
+import { BleTransport } from '../../transport';
+import { BleEvent } from '../types';
 
 /**
- * Callback actor for scanning - listens for discovered peripherals
+ * Callback actor for scanning - listens for discovered peripherals and the end of the scan
  */
-export const scanListener = fromCallback<BleEvent>(({ sendBack }) => {
-  const listener = BleManager.onDiscoverPeripheral((peripheral: Peripheral) => {
-    sendBack({ type: 'DEVICE_DISCOVERED', peripheral });
-  });
-
-  return () => {
-    listener.remove();
-  };
-});
+export const createScanListener = (transport: BleTransport) =>
+  fromCallback<BleEvent>(({ sendBack }) => {
+    const listener = transport.onDiscoverPeripheral((peripheral) => {
+      sendBack({ type: 'DEVICE_DISCOVERED', peripheral });
+    });
+    const stopListener = transport.onStopScan(() => {
+      sendBack({ type: 'SCAN_STOPPED' });
+    });
 
+    return () => {
+      listener.remove();
+      stopListener.remove();
+    };
+  });
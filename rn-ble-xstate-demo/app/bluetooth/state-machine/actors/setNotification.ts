@@ -0,0 +1,37 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+
+interface SetNotificationInput {
+  deviceId: string;
+  service: string;
+  characteristic: string;
+  enabled: boolean;
+  timeout?: number;
+}
+
+/**
+ * Notification actor - enables or disables notifications on any characteristic (GATT explorer)
+ * through the device's queue
+ */
+export const createSetNotification = (transport: BleTransport) =>
+  fromPromise<Omit<SetNotificationInput, 'timeout'>, SetNotificationInput>(
+    async ({ input, signal }) => {
+      const { timeout, ...change } = input;
+      const { deviceId, service, characteristic, enabled } = change;
+      await getDeviceQueue(transport, deviceId).enqueue(
+        () =>
+          enabled
+            ? transport.startNotification(deviceId, service, characteristic)
+            : transport.stopNotification(deviceId, service, characteristic),
+        {
+          label: `${enabled ? 'Subscribe' : 'Unsubscribe'} ${characteristic}`,
+          timeout,
+          timeoutError: timeout ? () => new BleTimeoutError('notification', timeout) : undefined,
+          signal,
+        }
+      );
+      return change;
+    }
+  );
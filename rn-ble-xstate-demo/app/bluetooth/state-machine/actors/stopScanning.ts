@@ -0,0 +1,10 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+
+/**
+ * Stop scan actor - ends the running scan
+ */
+export const createStopScanning = (transport: BleTransport) =>
+  fromPromise<void, void>(async () => {
+    await transport.stopScan();
+  });
@@ -0,0 +1,58 @@
+import { fromPromise } from 'xstate';
+import { DeviceProfile } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { characteristicKey, findProfileCharacteristics } from '../gatt';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+import { GattService } from '../types';
+
+interface SubscribeProfilesInput {
+  deviceId: string;
+  services: GattService[];
+  profileIds: string[];
+  /** Time allowed for each subscription, in ms */
+  timeout: number;
+}
+
+/**
+ * Notification setup actor - subscribes to every profile characteristic marked `subscribe`
+ * that can notify, through the device's queue. Outputs the subscribed characteristics, keyed by
+ * characteristicKey(). Setup goes ahead of anything else queued. A secondary profile or optional
+ * characteristic that fails to subscribe is left out instead of failing setup.
+ */
+export const createSubscribeProfiles = (transport: BleTransport, profiles: DeviceProfile[]) =>
+  fromPromise<string[], SubscribeProfilesInput>(async ({ input, signal }) => {
+    const queue = getDeviceQueue(transport, input.deviceId);
+    const notifying: string[] = [];
+
+    for (const { profile, characteristic, discovered } of findProfileCharacteristics(
+      profiles,
+      input.profileIds,
+      input.services
+    )) {
+      const canNotify =
+        !discovered ||
+        discovered.properties.includes('Notify') ||
+        discovered.properties.includes('Indicate');
+      if (!characteristic.subscribe || !canNotify) continue;
+
+      try {
+        await queue.enqueue(
+          () =>
+            transport.startNotification(input.deviceId, profile.serviceUUID, characteristic.uuid),
+          {
+            label: `Subscribe ${profile.id}.${characteristic.key}`,
+            priority: 'high',
+            timeout: input.timeout,
+            timeoutError: () => new BleTimeoutError('notification', input.timeout),
+            signal,
+          }
+        );
+        notifying.push(characteristicKey(profile.serviceUUID, characteristic.uuid));
+      } catch (error) {
+        if (signal.aborted || !(profile.secondary || characteristic.optional)) throw error;
+      }
+    }
+
+    return notifying;
+  });
@@ -0,0 +1,25 @@
+import { fromCallback } from 'xstate';
+import { NUS_SERVICE_UUID, NUS_TX_CHARACTERISTIC_UUID } from '../../constants';
+import { sameUuid } from '../../profiles';
+import { BleTransport } from '../../transport';
+import { TerminalEvent } from '../types';
+
+/**
+ * Callback actor for the open terminal - forwards one device's NUS TX notifications
+ */
+export const createTerminalListener = (transport: BleTransport) =>
+  fromCallback<TerminalEvent, { deviceId: string }>(({ sendBack, input }) => {
+    const listener = transport.onCharacteristicValue((args) => {
+      if (args.peripheral !== input.deviceId) return;
+      if (
+        !sameUuid(args.service, NUS_SERVICE_UUID) ||
+        !sameUuid(args.characteristic, NUS_TX_CHARACTERISTIC_UUID)
+      ) {
+        return;
+      }
+
+      sendBack({ type: 'TERMINAL_DATA', value: args.value });
+    });
+
+    return () => listener.remove();
+  });
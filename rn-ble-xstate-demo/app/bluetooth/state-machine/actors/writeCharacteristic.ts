@@ -0,0 +1,35 @@
+import { fromPromise } from 'xstate';
+import { BleTransport } from '../../transport';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+
+interface WriteCharacteristicInput {
+  deviceId: string;
+  service: string;
+  characteristic: string;
+  value: number[];
+  withoutResponse?: boolean;
+  timeout?: number;
+}
+
+/**
+ * Write characteristic actor - writes raw bytes to any characteristic (GATT explorer) through the
+ * device's queue
+ */
+export const createWriteCharacteristic = (transport: BleTransport) =>
+  fromPromise<Omit<WriteCharacteristicInput, 'timeout'>, WriteCharacteristicInput>(
+    async ({ input, signal }) => {
+      const { timeout, ...write } = input;
+      const send = write.withoutResponse ? transport.writeWithoutResponse : transport.write;
+      await getDeviceQueue(transport, write.deviceId).enqueue(
+        () => send(write.deviceId, write.service, write.characteristic, write.value),
+        {
+          label: `Write ${write.characteristic}`,
+          timeout,
+          timeoutError: timeout ? () => new BleTimeoutError('write', timeout) : undefined,
+          signal,
+        }
+      );
+      return write;
+    }
+  );
@@ -0,0 +1,35 @@
+import { fromPromise } from 'xstate';
+import { NUS_RX_CHARACTERISTIC_UUID, NUS_SERVICE_UUID } from '../../constants';
+import { BleTransport } from '../../transport';
+import { chunkPayload } from '../gatt';
+import { getDeviceQueue } from '../queue';
+import { BleTimeoutError } from '../timeouts';
+
+interface WriteTerminalInput {
+  deviceId: string;
+  value: number[];
+  mtu: number;
+  timeout?: number;
+}
+
+/**
+ * Terminal write actor - writes one line to NUS RX, split into MTU-sized chunks sent in order,
+ * as one operation on the device's queue
+ */
+export const createWriteTerminal = (transport: BleTransport) =>
+  fromPromise<void, WriteTerminalInput>(async ({ input, signal }) => {
+    const { deviceId, timeout } = input;
+    await getDeviceQueue(transport, deviceId).enqueue(
+      async () => {
+        for (const chunk of chunkPayload(input.value, input.mtu)) {
+          await transport.write(deviceId, NUS_SERVICE_UUID, NUS_RX_CHARACTERISTIC_UUID, chunk);
+        }
+      },
+      {
+        label: 'Terminal write',
+        timeout,
+        timeoutError: timeout ? () => new BleTimeoutError('write', timeout) : undefined,
+        signal,
+      }
+    );
+  });
@@ -0,0 +1,35 @@
+import { BleAdapterState } from '../transport';
+
+/**
+ * Why Bluetooth is unavailable - one bluetoothOff sub-state each
+ */
+export type BluetoothOffReason = 'off' | 'resetting' | 'unauthorized' | 'unsupported';
+
+/**
+ * Adapter states that take Bluetooth away, by the reason they give - the rest (on, unknown,
+ * turning_on) leave the machine where it is
+ */
+export const BLUETOOTH_OFF_STATES: Record<BluetoothOffReason, BleAdapterState[]> = {
+  off: ['off', 'turning_off'],
+  resetting: ['resetting'],
+  unauthorized: ['unauthorized'],
+  unsupported: ['unsupported'],
+};
+
+/**
+ * The reason an adapter state makes Bluetooth unavailable - null when it does not
+ */
+export const bluetoothOffReason = (state: BleAdapterState): BluetoothOffReason | null =>
+  (Object.keys(BLUETOOTH_OFF_STATES) as BluetoothOffReason[]).find((reason) =>
+    BLUETOOTH_OFF_STATES[reason].includes(state)
+  ) ?? null;
+
+/**
+ * Initialization found the adapter in a state other than on
+ */
+export class BluetoothUnavailableError extends Error {
+  constructor(readonly state: BleAdapterState) {
+    super(`Bluetooth is ${state}`);
+    this.name = 'BluetoothUnavailableError';
+  }
+}
@@ -1,135 +1,623 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Peripheral } from 'react-native-ble-manager';
-import { assign, setup } from 'xstate';
-import { STORAGE_KEY } from '../constants';
+import { assign, enqueueActions, raise, sendTo, setup } from 'xstate';
+import { BlePermissions, createPlatformPermissions } from '../permissions';
+import { DEFAULT_PROFILES, DeviceProfile } from '../profiles';
+import { knownDevicesStorage } from '../storage';
+import { bleManagerTransport, BleTransport } from '../transport';
 import {
-  connectAndSetup,
-  connectedListener,
-  disconnectFromDevice,
-  initializeBle,
-  readButtonState,
-  scanForDevices,
-  scanListener,
-  writeLedState,
+  createAdapterListener,
+  createDeviceActors,
+  createDiscoveryPruner,
+  createInitializeBle,
+  createPermissionsActors,
+  createScanForDevices,
+  createScanListener,
+  createStopScanning,
+  createTerminalActors,
 } from './actors';
-import { BleContext, BleEvent } from './types';
+import { bluetoothOffReason, BluetoothOffReason, BluetoothUnavailableError } from './adapter';
+import { deviceMachine } from './device-machine';
+import { DEFAULT_DISCOVERY_POLICY, pruneStaleDevices, recordAdvertisement } from './discovery';
+import { DEFAULT_REQUESTED_MTU } from './gatt';
+import {
+  DEFAULT_AUTO_CONNECT_LIMIT,
+  forgetKnownDevice,
+  KnownDeviceChanges,
+  recordConnection,
+  updateKnownDevice,
+} from './knownDevices';
+import { permissionsMachine } from './permissions-machine';
+import { storageFailed } from './persistence';
+import { DEFAULT_GATT_QUEUE_POLICY } from './queue';
+import { DEFAULT_RECONNECT_POLICY } from './reconnect';
+import { DEFAULT_RSSI_POLICY } from './rssi';
+import { DEFAULT_SCAN_SETTINGS } from './scan';
+import { terminalMachine } from './terminal-machine';
+import { BleTimeoutError, DEFAULT_BLE_TIMEOUTS } from './timeouts';
+import {
+  BleActivity,
+  BleContext,
+  BleEvent,
+  BleMachineInput,
+  DeviceEvent,
+  KnownDevice,
+  PermissionsEvent,
+  ScanSettings,
+} from './types';
 
-export type { BleContext, BleEvent };
+export type { BleContext, BleEvent, BleMachineInput };
 
+/**
+ * Builds every machine actor against the given transport, device profiles and permission
+ * backend - pass the result to bleMachine.provide({ actors }) to run the machine on another
+ * BLE backend
+ */
+export const createBleActors = (
+  transport: BleTransport,
+  profiles: DeviceProfile[] = DEFAULT_PROFILES,
+  permissions: BlePermissions = createPlatformPermissions(transport)
+) => ({
+  permissions: permissionsMachine.provide({ actors: createPermissionsActors(permissions) }),
+  initializeBle: createInitializeBle(transport),
+  adapterListener: createAdapterListener(transport),
+  scanForDevices: createScanForDevices(transport, profiles),
+  scanListener: createScanListener(transport),
+  stopScanning: createStopScanning(transport),
+  discoveryPruner: createDiscoveryPruner(),
+  deviceConnection: deviceMachine.provide({
+    actors: {
+      ...createDeviceActors(transport, profiles),
+      terminal: terminalMachine.provide({ actors: createTerminalActors(transport) }),
+    },
+  }),
+});
 
+// Spawn input for a device's connection actor - the machine-wide policies plus its identity
+const deviceInput = (
+  context: BleContext,
+  deviceId: string,
+  deviceName: string | null,
+  stopScan = false
+) => ({
+  deviceId,
+  deviceName,
+  stopScan,
+  reconnectPolicy: context.reconnectPolicy,
+  gattQueuePolicy: context.gattQueuePolicy,
+  timeouts: context.timeouts,
+  rssiPolicy: context.rssiPolicy,
+  requestedMtu: context.requestedMtu,
+  values: context.lastValues[deviceId],
+});
 
-// State Machine - Only 4 states: init, scanning, connecting, connected
+// State Machine - app-wide init and scanning; each connected device runs in its own spawned deviceMachine
 export const bleMachine = setup({
   types: {
     context: {} as BleContext,
     events: {} as BleEvent,
+    input: {} as BleMachineInput,
   },
-  actors: {
-    initializeBle,
-    scanForDevices,
-    scanListener,
-    connectAndSetup,
-    connectedListener,
-    writeLedState,
-    readButtonState,
-    disconnectFromDevice,
-  },
+  // Defaults to react-native-ble-manager; swap backends with
+  // bleMachine.provide({ actors: createBleActors(transport) })
+  actors: createBleActors(bleManagerTransport),
   actions: {
     setError: assign({
       error: (_, params: { message: string }) => params.message,
     }),
     clearError: assign({ error: null }),
-    setDevice: assign({
-      deviceId: (_, params: { deviceId: string; deviceName?: string }) => params.deviceId,
-      deviceName: (_, params: { deviceId: string; deviceName?: string }) => params.deviceName || null,
+    connectDevice: assign({
+      devices: (
+        { context, spawn },
+        params: { deviceId: string; deviceName?: string | null; stopScan?: boolean }
+      ) => {
+        if (context.devices[params.deviceId]) {
+          return context.devices;
+        }
+        return {
+          ...context.devices,
+          [params.deviceId]: spawn('deviceConnection', {
+            id: `device-${params.deviceId}`,
+            input: deviceInput(
+              context,
+              params.deviceId,
+              params.deviceName ?? null,
+              params.stopScan
+            ),
+          }),
+        };
+      },
+    }),
+    connectDevices: assign({
+      devices: ({ context, spawn }, params: { devices: KnownDevice[] }) =>
+        params.devices.reduce(
+          (devices, { id, name }) =>
+            devices[id]
+              ? devices
+              : {
+                  ...devices,
+                  [id]: spawn('deviceConnection', {
+                    id: `device-${id}`,
+                    input: deviceInput(context, id, name),
+                  }),
+                },
+          context.devices
+        ),
+    }),
+    removeDevice: enqueueActions(({ context, enqueue }, params: { deviceId: string }) => {
+      const device = context.devices[params.deviceId];
+      if (!device) return;
+      enqueue.stopChild(device);
+      enqueue.assign({
+        devices: Object.fromEntries(
+          Object.entries(context.devices).filter(([id]) => id !== params.deviceId)
+        ),
+      });
+    }),
+    setAdapterState: assign({
+      adapterState: ({ event }) =>
+        (event as Extract<BleEvent, { type: 'ADAPTER_STATE_CHANGED' }>).state,
+    }),
+    setActivity: assign({
+      activity: (_, params: { activity: BleActivity }) => params.activity,
+    }),
+    // Stops every connection while Bluetooth is away, remembering them for resumeDevices
+    suspendDevices: enqueueActions(({ context, enqueue }) => {
+      Object.values(context.devices).forEach((device) => enqueue.stopChild(device));
+      enqueue.assign({
+        devices: {},
+        suspendedDevices: [
+          ...context.suspendedDevices,
+          ...Object.entries(context.devices).map(([id, device]) => ({
+            id,
+            name: device.getSnapshot().context.deviceName,
+          })),
+        ],
+      });
+    }),
+    resumeDevices: assign({
+      devices: ({ context, spawn }) =>
+        context.suspendedDevices.reduce(
+          (devices, { id, name }) =>
+            devices[id]
+              ? devices
+              : {
+                  ...devices,
+                  [id]: spawn('deviceConnection', {
+                    id: `device-${id}`,
+                    input: deviceInput(context, id, name),
+                  }),
+                },
+          context.devices
+        ),
+      suspendedDevices: [],
     }),
-    clearDevice: assign({
-      deviceId: null,
-      deviceName: null,
-      buttonState: null,
+    setKnownDevices: assign({
+      knownDevices: (_, params: { devices: KnownDevice[] }) => params.devices,
     }),
-    setButtonState: assign({
-      buttonState: (_, params: { value: boolean }) => params.value,
+    recordConnection: assign({
+      knownDevices: ({ context }, params: { deviceId: string; deviceName: string | null }) =>
+        recordConnection(context.knownDevices, params.deviceId, params.deviceName, Date.now()),
     }),
-    toggleLedState: assign({
-      ledState: ({ context }) => !context.ledState,
+    updateKnownDevice: assign({
+      knownDevices: ({ context }, params: { deviceId: string; changes: KnownDeviceChanges }) =>
+        updateKnownDevice(context.knownDevices, params.deviceId, params.changes),
     }),
+    forgetKnownDevice: assign(({ context }, params: { deviceId: string }) => {
+      const { [params.deviceId]: _, ...lastValues } = context.lastValues;
+      return {
+        knownDevices: forgetKnownDevice(context.knownDevices, params.deviceId),
+        lastValues,
+      };
+    }),
+    clearLastValues: assign({ lastValues: {} }),
+    saveKnownDevices: ({ context, self }) => {
+      knownDevicesStorage
+        .save(context.knownDevices)
+        .catch((error) => self.send(storageFailed('save known devices', error)));
+    },
+    forwardToPermissions: sendTo('permissions', ({ event }) => event as PermissionsEvent),
+    forwardToDevice: sendTo(
+      ({ context, event }) => context.devices[(event as { deviceId: string }).deviceId],
+      ({ event }) => {
+        const { deviceId: _, ...deviceEvent } = event as Extract<BleEvent, { deviceId: string }>;
+        return deviceEvent as DeviceEvent;
+      }
+    ),
     addDiscoveredDevice: assign({
       discoveredDevices: ({ context }, params: { peripheral: Peripheral }) => {
+        const now = Date.now();
         const exists = context.discoveredDevices.find((d) => d.id === params.peripheral.id);
         if (exists) {
           return context.discoveredDevices.map((d) =>
-            d.id === params.peripheral.id ? params.peripheral : d
+            d.id === params.peripheral.id
+              ? recordAdvertisement(d, params.peripheral, now, context.discoveryPolicy)
+              : d
           );
         }
-        return [...context.discoveredDevices, params.peripheral];
+        return [
+          ...context.discoveredDevices,
+          recordAdvertisement(undefined, params.peripheral, now, context.discoveryPolicy),
+        ];
       },
     }),
+    pruneDiscoveredDevices: assign({
+      discoveredDevices: ({ context }) =>
+        pruneStaleDevices(
+          context.discoveredDevices,
+          Date.now(),
+          context.discoveryPolicy.staleAfter
+        ),
+    }),
     clearDiscoveredDevices: assign({
       discoveredDevices: [],
     }),
+    setScanSettings: assign({
+      scanSettings: ({ context }, params: { settings: Partial<ScanSettings> }) => ({
+        ...context.scanSettings,
+        ...params.settings,
+      }),
+    }),
+  },
+  guards: {
+    hasDevice: ({ context, event }) =>
+      'deviceId' in event && context.devices[event.deviceId] !== undefined,
+    hasNoDevices: ({ context }) => Object.keys(context.devices).length === 0,
+    isKnownDevice: ({ context, event }) =>
+      'deviceId' in event && context.knownDevices.some((device) => device.id === event.deviceId),
+    adapterIs: ({ event }, params: { reason: BluetoothOffReason }) =>
+      event.type === 'ADAPTER_STATE_CHANGED' && bluetoothOffReason(event.state) === params.reason,
+    resumesTo: ({ context, event }, params: { activity: BleActivity }) =>
+      event.type === 'ADAPTER_STATE_CHANGED' &&
+      event.state === 'on' &&
+      context.activity === params.activity,
+    isAdapterUnavailable: ({ event }) => {
+      const error = (event as { error?: unknown }).error;
+      return error instanceof BluetoothUnavailableError && bluetoothOffReason(error.state) !== null;
+    },
+  },
+  delays: {
+    initializeTimeout: ({ context }) => context.timeouts.initialize,
+    scanTimeout: ({ context }) => context.timeouts.scan,
   },
 }).createMachine({
   id: 'bleMachine',
   initial: 'idle',
-  context: {
-    deviceId: null,
-    deviceName: null,
-    buttonState: null,
-    ledState: false,
+  context: ({ input }) => ({
     error: null,
     discoveredDevices: [],
+    reconnectPolicy: { ...DEFAULT_RECONNECT_POLICY, ...input?.reconnectPolicy },
+    gattQueuePolicy: { ...DEFAULT_GATT_QUEUE_POLICY, ...input?.gattQueuePolicy },
+    timeouts: { ...DEFAULT_BLE_TIMEOUTS, ...input?.timeouts },
+    rssiPolicy: { ...DEFAULT_RSSI_POLICY, ...input?.rssiPolicy },
+    scanSettings: { ...DEFAULT_SCAN_SETTINGS, ...input?.scanSettings },
+    discoveryPolicy: { ...DEFAULT_DISCOVERY_POLICY, ...input?.discoveryPolicy },
+    requestedMtu: input?.mtu ?? DEFAULT_REQUESTED_MTU,
+    devices: {},
+    adapterState: 'unknown',
+    activity: 'init',
+    knownDevices: [],
+    autoConnectLimit: input?.autoConnectLimit ?? DEFAULT_AUTO_CONNECT_LIMIT,
+    lastValues: {},
+    suspendedDevices: [],
+  }),
+  // Adapter state changes reach the machine in every state
+  invoke: {
+    src: 'adapterListener',
   },
   on: {
-    CLEAR_STORED_DEVICE: {
+    // Bluetooth going away suspends whatever the machine was doing
+    ADAPTER_STATE_CHANGED: [
+      {
+        guard: { type: 'adapterIs', params: { reason: 'off' } },
+        target: '.bluetoothOff.off',
+        actions: ['setAdapterState', 'suspendDevices'],
+      },
+      {
+        guard: { type: 'adapterIs', params: { reason: 'resetting' } },
+        target: '.bluetoothOff.resetting',
+        actions: ['setAdapterState', 'suspendDevices'],
+      },
+      {
+        guard: { type: 'adapterIs', params: { reason: 'unauthorized' } },
+        target: '.bluetoothOff.unauthorized',
+        actions: ['setAdapterState', 'suspendDevices'],
+      },
+      {
+        guard: { type: 'adapterIs', params: { reason: 'unsupported' } },
+        target: '.bluetoothOff.unsupported',
+        actions: ['setAdapterState', 'suspendDevices'],
+      },
+      {
+        actions: ['setAdapterState'],
+      },
+    ],
+    // Takes effect from the next scan
+    SET_SCAN_SETTINGS: {
       actions: [
-        'clearDevice',
-        () => {
-          AsyncStorage.removeItem(STORAGE_KEY).catch(() => {});
+        {
+          type: 'setScanSettings',
+          params: ({ event }) => ({ settings: event.settings }),
         },
       ],
     },
+    // Known-device registry - changes are saved straight away
+    DEVICE_CONNECTED: {
+      actions: [
+        {
+          type: 'recordConnection',
+          params: ({ event }) => ({ deviceId: event.deviceId, deviceName: event.deviceName }),
+        },
+        'saveKnownDevices',
+      ],
+    },
+    RENAME_KNOWN_DEVICE: {
+      guard: 'isKnownDevice',
+      actions: [
+        {
+          type: 'updateKnownDevice',
+          params: ({ event }) => ({
+            deviceId: event.deviceId,
+            changes: { nickname: event.nickname },
+          }),
+        },
+        'saveKnownDevices',
+      ],
+    },
+    SET_FAVOURITE: {
+      guard: 'isKnownDevice',
+      actions: [
+        {
+          type: 'updateKnownDevice',
+          params: ({ event }) => ({
+            deviceId: event.deviceId,
+            changes: { favourite: event.favourite },
+          }),
+        },
+        'saveKnownDevices',
+      ],
+    },
+    SET_AUTO_CONNECT: {
+      guard: 'isKnownDevice',
+      actions: [
+        {
+          type: 'updateKnownDevice',
+          params: ({ event }) => ({
+            deviceId: event.deviceId,
+            changes: { autoConnect: event.autoConnect },
+          }),
+        },
+        'saveKnownDevices',
+      ],
+    },
+    FORGET_KNOWN_DEVICE: {
+      guard: 'isKnownDevice',
+      actions: [
+        {
+          type: 'forgetKnownDevice',
+          params: ({ event }) => ({ deviceId: event.deviceId }),
+        },
+        'saveKnownDevices',
+      ],
+    },
+    CLEAR_KNOWN_DEVICES: {
+      actions: [
+        { type: 'setKnownDevices', params: { devices: [] } },
+        'clearLastValues',
+        ({ self }) => {
+          knownDevicesStorage
+            .clear()
+            .catch((error) => self.send(storageFailed('forget known devices', error)));
+        },
+      ],
+    },
+    STORAGE_FAILED: {
+      actions: [
+        {
+          type: 'setError',
+          params: ({ event }) => ({ message: event.error }),
+        },
+      ],
+    },
+    // Device-addressed events are forwarded to that device's connection actor
+    READ_VALUE: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    WRITE_VALUE: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    RETRY_OPERATION: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    CANCEL_OPERATION: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    READ_CHARACTERISTIC: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    WRITE_CHARACTERISTIC: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    SET_NOTIFICATION: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    OPEN_TERMINAL: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    CLOSE_TERMINAL: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    SEND_TERMINAL: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    SET_LINE_ENDING: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    CLEAR_TERMINAL: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    START_DFU: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    CANCEL_DFU: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    RESUME_DFU: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    DISCONNECT: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    CANCEL: {
+      guard: 'hasDevice',
+      actions: ['forwardToDevice'],
+    },
+    DEVICE_CLOSED: [
+      {
+        guard: ({ event }) => event.error !== null,
+        actions: [
+          {
+            type: 'removeDevice',
+            params: ({ event }) => ({ deviceId: event.deviceId }),
+          },
+          {
+            type: 'setError',
+            params: ({ event }) => ({ message: event.error! }),
+          },
+        ],
+      },
+      {
+        actions: [
+          {
+            type: 'removeDevice',
+            params: ({ event }) => ({ deviceId: event.deviceId }),
+          },
+        ],
+      },
+    ],
   },
   states: {
     // Idle - waiting for START
     idle: {
       on: {
+        ADAPTER_STATE_CHANGED: {
+          actions: ['setAdapterState'],
+        },
         START: {
-          target: 'init',
+          target: 'permissions',
+          actions: ['clearError'],
+        },
+      },
+    },
+
+    // Permissions - the permissions machine walks the user through granting them
+    permissions: {
+      invoke: {
+        id: 'permissions',
+        src: 'permissions',
+        input: ({ context }) => ({ checkTimeout: context.timeouts.permissions }),
+        onDone: 'init',
+      },
+      on: {
+        REQUEST_PERMISSIONS: {
+          actions: ['forwardToPermissions'],
+        },
+        OPEN_SETTINGS: {
+          actions: ['forwardToPermissions'],
+        },
+        CHECK_PERMISSIONS: {
+          actions: ['forwardToPermissions'],
+        },
+        // The adapter is not needed until init
+        ADAPTER_STATE_CHANGED: {
+          actions: ['setAdapterState'],
+        },
+        START: {
+          target: 'permissions',
+          reenter: true,
           actions: ['clearError'],
         },
       },
     },
 
-    // Init - check permissions, start BLE, load stored device
+    // Init - start BLE, load known devices and connect the ones chosen for auto-connect
     init: {
+      entry: [{ type: 'setActivity', params: { activity: 'init' } }],
       invoke: {
         src: 'initializeBle',
+        input: ({ context }) => ({ autoConnectLimit: context.autoConnectLimit }),
         onDone: [
           {
-            guard: ({ event }) => event.output.storedDevice !== null,
-            target: 'connecting',
+            guard: ({ event }) => event.output.autoConnectDevices.length > 0,
+            target: 'ready',
             actions: [
               {
-                type: 'setDevice',
-                params: ({ event }) => ({
-                  deviceId: event.output.storedDevice!.id,
-                  deviceName: event.output.storedDevice!.name ?? undefined,
-                }),
+                type: 'setKnownDevices',
+                params: ({ event }) => ({ devices: event.output.knownDevices }),
+              },
+              {
+                type: 'connectDevices',
+                params: ({ event }) => ({ devices: event.output.autoConnectDevices }),
               },
             ],
           },
           {
             target: 'scanning',
+            actions: [
+              {
+                type: 'setKnownDevices',
+                params: ({ event }) => ({ devices: event.output.knownDevices }),
+              },
+            ],
           },
         ],
-        onError: {
+        onError: [
+          {
+            // Handled like the adapter reporting it, so bluetoothOff waits for it to come on
+            guard: 'isAdapterUnavailable',
+            actions: [
+              raise(({ event }) => ({
+                type: 'ADAPTER_STATE_CHANGED' as const,
+                state: (event.error as BluetoothUnavailableError).state,
+              })),
+            ],
+          },
+          {
+            target: 'waitingForBluetooth',
+            actions: [
+              {
+                type: 'setError',
+                params: ({ event }) => ({
+                  message: (event.error as Error)?.message || 'Initialization failed',
+                }),
+              },
+            ],
+          },
+        ],
+      },
+      after: {
+        initializeTimeout: {
           target: 'waitingForBluetooth',
           actions: [
             {
               type: 'setError',
-              params: ({ event }) => ({
-                message: (event.error as Error)?.message || 'Initialization failed',
+              params: ({ context }) => ({
+                message: new BleTimeoutError('initialize', context.timeouts.initialize).message,
               }),
             },
           ],
@@ -144,7 +632,7 @@ export const bleMachine = setup({
       },
     },
 
-    // Waiting for Bluetooth - retry after delay
+    // Waiting for Bluetooth - initialization failed for another reason; retry after delay
     waitingForBluetooth: {
       after: {
         2000: {
@@ -160,28 +648,80 @@ export const bleMachine = setup({
       },
     },
 
-    // Scanning - scan for LBS devices
+    // Scanning - scan for devices with the current scan settings
     scanning: {
-      entry: ['clearDiscoveredDevices'],
+      entry: ['clearDiscoveredDevices', { type: 'setActivity', params: { activity: 'scanning' } }],
       invoke: [
         {
-          src: 'scanForDevices',
-          onError: {
-            target: 'init',
-            actions: [
-              {
-                type: 'setError',
-                params: ({ event }) => ({
-                  message: (event.error as Error)?.message || 'Scan failed',
-                }),
-              },
-            ],
-          },
+          src: 'scanListener',
         },
         {
-          src: 'scanListener',
+          src: 'discoveryPruner',
+          input: ({ context }) => ({
+            policy: context.discoveryPolicy,
+            allowDuplicates: context.scanSettings.allowDuplicates,
+          }),
         },
       ],
+      initial: 'starting',
+      states: {
+        // Starting - waiting for the native scan to begin
+        starting: {
+          invoke: {
+            src: 'scanForDevices',
+            input: ({ context }) => ({ settings: context.scanSettings }),
+            onDone: 'active',
+            onError: {
+              target: '#bleMachine.init',
+              actions: [
+                {
+                  type: 'setError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Scan failed',
+                  }),
+                },
+              ],
+            },
+          },
+          after: {
+            scanTimeout: {
+              target: '#bleMachine.init',
+              actions: [
+                {
+                  type: 'setError',
+                  params: ({ context }) => ({
+                    message: new BleTimeoutError('scan', context.timeouts.scan).message,
+                  }),
+                },
+              ],
+            },
+          },
+          on: {
+            STOP_SCAN: 'stopping',
+          },
+        },
+        // Active - devices are reported until the scan's duration runs out or STOP_SCAN
+        active: {
+          on: {
+            SCAN_STOPPED: '#bleMachine.scanComplete',
+            STOP_SCAN: 'stopping',
+          },
+        },
+        // Stopping - waiting for the native scan to end; a stop that fails or hangs still ends it
+        stopping: {
+          invoke: {
+            src: 'stopScanning',
+            onDone: '#bleMachine.scanComplete',
+            onError: '#bleMachine.scanComplete',
+          },
+          after: {
+            scanTimeout: '#bleMachine.scanComplete',
+          },
+          on: {
+            SCAN_STOPPED: '#bleMachine.scanComplete',
+          },
+        },
+      },
       on: {
         DEVICE_DISCOVERED: {
           actions: [
@@ -191,14 +731,20 @@ export const bleMachine = setup({
             },
           ],
         },
+        PRUNE_DISCOVERED: {
+          actions: ['pruneDiscoveredDevices'],
+        },
+        // Leaving scanning stops listening, so the connect stops the native scan too
         SELECT_DEVICE: {
-          target: 'connecting',
+          target: 'ready',
           actions: [
+            'clearError',
             {
-              type: 'setDevice',
+              type: 'connectDevice',
               params: ({ event }) => ({
                 deviceId: event.deviceId,
                 deviceName: event.deviceName,
+                stopScan: true,
               }),
             },
           ],
@@ -210,140 +756,116 @@ export const bleMachine = setup({
       },
     },
 
-    // Connecting - connect, save, discover services, setup notifications
-    connecting: {
-      invoke: {
-        src: 'connectAndSetup',
-        input: ({ context }) => ({ deviceId: context.deviceId!, deviceName: context.deviceName }),
-        onDone: {
-          target: 'connected',
-          actions: [
-            {
-              type: 'setButtonState',
-              params: ({ event }) => ({ value: event.output.buttonState }),
-            },
-          ],
-        },
-        onError: {
-          target: 'init',
+    // Scan complete - the scan ended and its results stay listed; pick one or scan again
+    scanComplete: {
+      entry: [{ type: 'setActivity', params: { activity: 'scanComplete' } }],
+      on: {
+        SELECT_DEVICE: {
+          target: 'ready',
           actions: [
-            'clearDevice',
+            'clearError',
             {
-              type: 'setError',
+              type: 'connectDevice',
               params: ({ event }) => ({
-                message: (event.error as Error)?.message || 'Connection failed',
+                deviceId: event.deviceId,
+                deviceName: event.deviceName,
               }),
             },
           ],
         },
+        SCAN: {
+          target: 'scanning',
+        },
       },
     },
 
-    // Connected - handle LED toggle, button read, notifications
-    connected: {
-      invoke: {
-        src: 'connectedListener',
+    // Ready - BLE is up and device connections run on their own; scan again to add more
+    ready: {
+      entry: [{ type: 'setActivity', params: { activity: 'ready' } }],
+      always: {
+        guard: 'hasNoDevices',
+        target: 'scanning',
       },
       on: {
-        BUTTON_STATE_CHANGED: {
-          actions: [
-            {
-              type: 'setButtonState',
-              params: ({ event }) => ({ value: event.value }),
-            },
-          ],
-        },
-        TOGGLE_LED: {
-          actions: ['toggleLedState'],
-          target: '.togglingLed',
-        },
-        READ_BUTTON: {
-          target: '.readingButton',
-        },
-        DISCONNECT: {
-          target: '.disconnecting',
-        },
-        CONNECTION_LOST: {
-          target: '#bleMachine.init',
+        SELECT_DEVICE: {
           actions: [
-            'clearDevice',
+            'clearError',
             {
-              type: 'setError',
+              type: 'connectDevice',
               params: ({ event }) => ({
-                message: event.reason || 'Connection lost unexpectedly',
+                deviceId: event.deviceId,
+                deviceName: event.deviceName,
               }),
             },
           ],
         },
+        SCAN: {
+          target: 'scanning',
+        },
       },
-      initial: 'ready',
+    },
+
+    // Bluetooth off - the adapter is unavailable; resumes the previous activity, and reconnects
+    // the suspended devices, once it reports on
+    bluetoothOff: {
+      initial: 'off',
       states: {
-        ready: {},
-        togglingLed: {
-          invoke: {
-            src: 'writeLedState',
-            input: ({ context }) => ({
-              deviceId: context.deviceId!,
-              ledState: context.ledState,
-            }),
-            onDone: 'ready',
-            onError: {
-              target: '#bleMachine.init',
-              actions: [
-                'toggleLedState',
-                'clearDevice',
-                {
-                  type: 'setError',
-                  params: ({ event }) => ({
-                    message: (event.error as Error)?.message || 'LED toggle failed',
-                  }),
-                },
-              ],
-            },
+        // Off - switched off by the user or the OS
+        off: {},
+        // Resetting - the stack is restarting (iOS) and comes back by itself
+        resetting: {},
+        // Unauthorized - the app is not allowed to use Bluetooth
+        unauthorized: {},
+        // Unsupported - the device has no Bluetooth LE
+        unsupported: {},
+      },
+      on: {
+        ADAPTER_STATE_CHANGED: [
+          {
+            guard: { type: 'resumesTo', params: { activity: 'init' } },
+            target: 'init',
+            actions: ['setAdapterState', 'clearError', 'resumeDevices'],
           },
-        },
-        readingButton: {
-          invoke: {
-            src: 'readButtonState',
-            input: ({ context }) => ({ deviceId: context.deviceId! }),
-            onDone: {
-              target: 'ready',
-              actions: [
-                {
-                  type: 'setButtonState',
-                  params: ({ event }) => ({ value: event.output }),
-                },
-              ],
-            },
-            onError: {
-              target: '#bleMachine.init',
-              actions: [
-                'clearDevice',
-                {
-                  type: 'setError',
-                  params: ({ event }) => ({
-                    message: (event.error as Error)?.message || 'Read button failed',
-                  }),
-                },
-              ],
-            },
+          {
+            guard: { type: 'resumesTo', params: { activity: 'scanning' } },
+            target: 'scanning',
+            actions: ['setAdapterState', 'clearError', 'resumeDevices'],
           },
-        },
-        disconnecting: {
-          invoke: {
-            src: 'disconnectFromDevice',
-            input: ({ context }) => ({ deviceId: context.deviceId! }),
-            onDone: {
-              target: '#bleMachine.init',
-              actions: ['clearDevice'],
-            },
-            onError: {
-              target: '#bleMachine.init',
-              actions: ['clearDevice'],
-            },
+          {
+            guard: { type: 'resumesTo', params: { activity: 'scanComplete' } },
+            target: 'scanComplete',
+            actions: ['setAdapterState', 'clearError', 'resumeDevices'],
           },
-        },
+          {
+            guard: { type: 'resumesTo', params: { activity: 'ready' } },
+            target: 'ready',
+            actions: ['setAdapterState', 'clearError', 'resumeDevices'],
+          },
+          {
+            guard: { type: 'adapterIs', params: { reason: 'off' } },
+            target: '.off',
+            actions: ['setAdapterState'],
+          },
+          {
+            guard: { type: 'adapterIs', params: { reason: 'resetting' } },
+            target: '.resetting',
+            actions: ['setAdapterState'],
+          },
+          {
+            guard: { type: 'adapterIs', params: { reason: 'unauthorized' } },
+            target: '.unauthorized',
+            actions: ['setAdapterState'],
+          },
+          {
+            guard: { type: 'adapterIs', params: { reason: 'unsupported' } },
+            target: '.unsupported',
+            actions: ['setAdapterState'],
+          },
+          {
+            actions: ['setAdapterState'],
+          },
+        ],
       },
     },
   },
-});
\ No newline at end of file
+});
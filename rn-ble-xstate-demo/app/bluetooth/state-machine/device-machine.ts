@@ -0,0 +1,1001 @@
+import { ActorRefFrom, assertEvent, assign, raise, sendParent, sendTo, setup } from 'xstate';
+import { BUTTONLESS_DFU_UUID, SECURE_DFU_SERVICE_UUID } from '../constants';
+import { DfuPackage, DfuStage } from '../dfu';
+import { ProfileValues } from '../profiles';
+import { bleManagerTransport } from '../transport';
+import { createDeviceActors } from './actors';
+import { characteristicKey, DEFAULT_MTU, findGattCharacteristic } from './gatt';
+import { getReconnectDelay, isLinkLossError } from './reconnect';
+import { terminalMachine } from './terminal-machine';
+import { BleTimeoutError } from './timeouts';
+import {
+  DeviceContext,
+  DeviceEvent,
+  DeviceInput,
+  DfuState,
+  GattOperation,
+  GattService,
+  OperationError,
+  RssiSample,
+  TerminalEvent,
+} from './types';
+
+export type { DeviceContext, DeviceEvent, DeviceInput, DfuState, OperationError, RssiSample };
+
+const withValue = (values: ProfileValues, profileId: string, key: string, value: unknown) => ({
+  ...values,
+  [profileId]: { ...values[profileId], [key]: value },
+});
+
+/**
+ * Key of a profile value in pendingWrites
+ */
+export const pendingKey = (profileId: string, key: string) => `${profileId}.${key}`;
+
+const withoutKey = <T>(record: Record<string, T>, key: string) =>
+  Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+
+const deviceSetup = setup({
+  types: {
+    context: {} as DeviceContext,
+    events: {} as DeviceEvent,
+    input: {} as DeviceInput,
+  },
+  // Defaults to react-native-ble-manager and DEFAULT_PROFILES; createBleActors(transport, profiles) overrides both
+  actors: { ...createDeviceActors(bleManagerTransport), terminal: terminalMachine },
+  actions: {
+    setError: assign({
+      error: (_, params: { message: string }) => params.message,
+    }),
+    clearError: assign({ error: null }),
+    setValue: assign({
+      values: ({ context }, params: { profileId: string; key: string; value: unknown }) =>
+        withValue(context.values, params.profileId, params.key, params.value),
+      staleValues: false,
+    }),
+    // Optimistic write - the value shows immediately and is restored if the write fails
+    beginWrite: assign(
+      ({ context }, params: { profileId: string; key: string; value: unknown }) => {
+        const key = pendingKey(params.profileId, params.key);
+        const pending = context.pendingWrites[key];
+        return {
+          pendingWrites: {
+            ...context.pendingWrites,
+            [key]: pending
+              ? { ...pending, count: pending.count + 1 }
+              : { previous: context.values[params.profileId]?.[params.key], count: 1 },
+          },
+          values: withValue(context.values, params.profileId, params.key, params.value),
+        };
+      }
+    ),
+    endWrite: assign({
+      pendingWrites: ({ context }, params: { profileId: string; key: string }) => {
+        const key = pendingKey(params.profileId, params.key);
+        const pending = context.pendingWrites[key];
+        if (!pending || pending.count <= 1) return withoutKey(context.pendingWrites, key);
+        return { ...context.pendingWrites, [key]: { ...pending, count: pending.count - 1 } };
+      },
+    }),
+    rollbackWrite: assign(({ context }, params: { profileId: string; key: string }) => {
+      const key = pendingKey(params.profileId, params.key);
+      const pending = context.pendingWrites[key];
+      if (!pending) return {};
+      return {
+        pendingWrites: withoutKey(context.pendingWrites, key),
+        values: withValue(context.values, params.profileId, params.key, pending.previous),
+      };
+    }),
+    setOperationError: assign({
+      operationError: (_, params: OperationError) => params,
+    }),
+    clearOperationError: assign({ operationError: null }),
+    // Sends the failed operation through the queue again
+    retryOperation: raise(({ context }) => {
+      const { operation, profileId, key, value } = context.operationError!;
+      return operation === 'write'
+        ? { type: 'WRITE_VALUE' as const, profileId, key, value }
+        : { type: 'READ_VALUE' as const, profileId, key };
+    }),
+    setGattOperations: assign((_, params: { operations: GattOperation[] }) => ({
+      gattOperations: params.operations,
+      gattQueueDepth: params.operations.length,
+    })),
+    // Stopping the queue cancels whatever it still held
+    resetGattOperations: assign({ gattOperations: [], gattQueueDepth: 0 }),
+    addRssiSample: assign(({ context }, params: { sample: RssiSample }) => ({
+      rssi: params.sample.smoothed,
+      rssiHistory: [...context.rssiHistory, params.sample].slice(-context.rssiPolicy.historySize),
+    })),
+    // The history outlives the connection, the live value does not
+    clearRssi: assign({ rssi: null }),
+    scheduleReconnect: assign(({ context }) => {
+      const reconnectAttempt = context.reconnectAttempt + 1;
+      return {
+        reconnectAttempt,
+        nextReconnectAt:
+          Date.now() + getReconnectDelay(context.reconnectPolicy, reconnectAttempt),
+      };
+    }),
+    resetReconnect: assign({
+      reconnectAttempt: 0,
+      nextReconnectAt: null,
+    }),
+    setDiscovery: assign((_, params: { services: GattService[]; profileIds: string[] }) => ({
+      services: params.services,
+      profileIds: params.profileIds,
+    })),
+    setMtu: assign({
+      mtu: (_, params: { mtu: number }) => params.mtu,
+    }),
+    setSetupNotifying: assign({
+      notifying: (_, params: { notifying: string[] }) => params.notifying,
+    }),
+    applySetup: assign((_, params: { values: ProfileValues }) => ({
+      values: params.values,
+      staleValues: false,
+      stopScan: false,
+      pendingWrites: {},
+      operationError: null,
+      characteristicValues: {},
+    })),
+    // Setup phases report failures and timeouts to the state running them
+    failSetup: raise((_, params: { error: string }) => ({
+      type: 'SETUP_FAILED' as const,
+      error: params.error,
+    })),
+    setCharacteristicValue: assign({
+      characteristicValues: (
+        { context },
+        params: { service: string; characteristic: string; value: number[] }
+      ) => ({
+        ...context.characteristicValues,
+        [characteristicKey(params.service, params.characteristic)]: params.value,
+      }),
+    }),
+    setNotifying: assign({
+      notifying: (
+        { context },
+        params: { service: string; characteristic: string; enabled: boolean }
+      ) => {
+        const key = characteristicKey(params.service, params.characteristic);
+        const others = context.notifying.filter((k) => k !== key);
+        return params.enabled ? [...others, key] : others;
+      },
+    }),
+    setGattError: assign({
+      gattError: (_, params: { message: string }) => params.message,
+    }),
+    clearGattError: assign({ gattError: null }),
+    startDfu: assign({
+      dfu: (_, params: { dfuPackage: DfuPackage }) => ({
+        dfuPackage: params.dfuPackage,
+        bootloaderId: null,
+        stage: 'bootloader' as const,
+        sentBytes: 0,
+        totalBytes: params.dfuPackage.firmware.length,
+        error: null,
+      }),
+    }),
+    setBootloaderId: assign({
+      dfu: ({ context }, params: { bootloaderId: string }) =>
+        context.dfu && { ...context.dfu, bootloaderId: params.bootloaderId },
+    }),
+    setDfuProgress: assign({
+      dfu: (
+        { context },
+        params: { stage: DfuStage; sentBytes: number; totalBytes: number }
+      ) =>
+        context.dfu && {
+          ...context.dfu,
+          stage: params.stage,
+          sentBytes: params.sentBytes,
+          totalBytes: params.totalBytes,
+        },
+    }),
+    setDfuError: assign({
+      dfu: ({ context }, params: { message: string }) =>
+        context.dfu && { ...context.dfu, error: params.message },
+    }),
+    clearDfuError: assign({
+      dfu: ({ context }) => context.dfu && { ...context.dfu, error: null },
+    }),
+    forwardToGattQueue: sendTo('gattQueue', ({ event }) => event),
+    forwardToTerminal: sendTo('terminal', ({ event }) => event as TerminalEvent),
+    notifyConnected: sendParent(({ context }) => ({
+      type: 'DEVICE_CONNECTED',
+      deviceId: context.deviceId,
+      deviceName: context.deviceName,
+    })),
+    notifyClosed: sendParent(({ context }) => ({
+      type: 'DEVICE_CLOSED',
+      deviceId: context.deviceId,
+      error: context.error,
+    })),
+  },
+  guards: {
+    isLinkLoss: (_, params: { error: string }) => isLinkLossError(params.error),
+    hasOperationError: ({ context }) => context.operationError !== null,
+    canRetryReconnect: ({ context }) =>
+      context.reconnectAttempt < context.reconnectPolicy.maxAttempts,
+    supportsDfu: ({ context }) =>
+      !!findGattCharacteristic(context.services, SECURE_DFU_SERVICE_UUID, BUTTONLESS_DFU_UUID),
+  },
+  delays: {
+    reconnectDelay: ({ context }) => Math.max(0, (context.nextReconnectAt ?? 0) - Date.now()),
+    connectTimeout: ({ context }) => context.timeouts.connect,
+    discoveryTimeout: ({ context }) => context.timeouts.discovery,
+    mtuTimeout: ({ context }) => context.timeouts.mtu,
+  },
+});
+
+// Connection setup, one phase per actor so each has its own timeout - shared by connecting and
+// reconnecting. A failed or timed out phase raises SETUP_FAILED for the enclosing state.
+// Subscribing and reading run several queued operations, so the GATT queue times out each one
+// instead of the phase as a whole.
+const connectionSetup = deviceSetup.createStateConfig({
+  initial: 'linking',
+  states: {
+    linking: {
+      invoke: {
+        src: 'connectToDevice',
+        input: ({ context }) => ({ deviceId: context.deviceId, stopScan: context.stopScan }),
+        onDone: {
+          target: 'discovering',
+          actions: ['notifyConnected'],
+        },
+        onError: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ event }) => ({
+                error: (event.error as Error)?.message || 'Connection failed',
+              }),
+            },
+          ],
+        },
+      },
+      after: {
+        connectTimeout: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ context }) => ({
+                error: new BleTimeoutError('connect', context.timeouts.connect).message,
+              }),
+            },
+          ],
+        },
+      },
+    },
+    discovering: {
+      invoke: {
+        src: 'discoverServices',
+        input: ({ context }) => ({ deviceId: context.deviceId }),
+        onDone: {
+          target: 'negotiating',
+          actions: [
+            {
+              type: 'setDiscovery',
+              params: ({ event }) => event.output,
+            },
+          ],
+        },
+        onError: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ event }) => ({
+                error: (event.error as Error)?.message || 'Service discovery failed',
+              }),
+            },
+          ],
+        },
+      },
+      after: {
+        discoveryTimeout: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ context }) => ({
+                error: new BleTimeoutError('discovery', context.timeouts.discovery).message,
+              }),
+            },
+          ],
+        },
+      },
+    },
+    // A refused or unanswered MTU request keeps the default MTU rather than failing setup
+    negotiating: {
+      entry: [
+        {
+          type: 'setMtu',
+          params: { mtu: DEFAULT_MTU },
+        },
+      ],
+      invoke: {
+        src: 'negotiateMtu',
+        input: ({ context }) => ({ deviceId: context.deviceId, mtu: context.requestedMtu }),
+        onDone: {
+          target: 'subscribing',
+          actions: [
+            {
+              type: 'setMtu',
+              params: ({ event }) => ({ mtu: event.output }),
+            },
+          ],
+        },
+        onError: 'subscribing',
+      },
+      after: {
+        mtuTimeout: 'subscribing',
+      },
+    },
+    subscribing: {
+      invoke: {
+        src: 'subscribeProfiles',
+        input: ({ context }) => ({
+          deviceId: context.deviceId,
+          services: context.services,
+          profileIds: context.profileIds,
+          timeout: context.timeouts.notification,
+        }),
+        onDone: {
+          target: 'reading',
+          actions: [
+            {
+              type: 'setSetupNotifying',
+              params: ({ event }) => ({ notifying: event.output }),
+            },
+          ],
+        },
+        onError: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ event }) => ({
+                error: (event.error as Error)?.message || 'Notification setup failed',
+              }),
+            },
+          ],
+        },
+      },
+    },
+    reading: {
+      invoke: {
+        src: 'readInitialValues',
+        input: ({ context }) => ({
+          deviceId: context.deviceId,
+          services: context.services,
+          profileIds: context.profileIds,
+          timeout: context.timeouts.read,
+        }),
+        onDone: {
+          target: '#device.connected',
+          actions: [
+            'resetReconnect',
+            'clearError',
+            {
+              type: 'applySetup',
+              params: ({ event }) => ({ values: event.output }),
+            },
+          ],
+        },
+        onError: {
+          actions: [
+            {
+              type: 'failSetup',
+              params: ({ event }) => ({
+                error: (event.error as Error)?.message || 'Initial read failed',
+              }),
+            },
+          ],
+        },
+      },
+    },
+  },
+});
+
+// Device connection machine - one instance per peripheral, spawned by bleMachine
+export const deviceMachine = deviceSetup.createMachine({
+  id: 'device',
+  initial: 'connecting',
+  context: ({ input }) => ({
+    deviceId: input.deviceId,
+    deviceName: input.deviceName,
+    profileIds: [],
+    values: input.values ?? {},
+    staleValues: input.values !== undefined,
+    stopScan: input.stopScan ?? false,
+    pendingWrites: {},
+    operationError: null,
+    error: null,
+    reconnectPolicy: input.reconnectPolicy,
+    gattQueuePolicy: input.gattQueuePolicy,
+    timeouts: input.timeouts,
+    rssiPolicy: input.rssiPolicy,
+    requestedMtu: input.requestedMtu,
+    mtu: DEFAULT_MTU,
+    rssi: null,
+    rssiHistory: [],
+    gattOperations: [],
+    gattQueueDepth: 0,
+    reconnectAttempt: 0,
+    nextReconnectAt: null,
+    services: [],
+    characteristicValues: {},
+    notifying: [],
+    gattError: null,
+    dfu: null,
+  }),
+  states: {
+    // Connecting - connect, save, discover services, setup notifications, initial reads
+    connecting: {
+      ...connectionSetup,
+      on: {
+        SETUP_FAILED: {
+          target: '.aborting',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ event }) => ({ message: event.error }),
+            },
+          ],
+        },
+        CANCEL: {
+          target: '.aborting',
+        },
+      },
+      states: {
+        ...connectionSetup.states,
+        // A timed out or cancelled connect may still complete natively - drop the link
+        aborting: {
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.deviceId }),
+            onDone: '#device.closed',
+            onError: '#device.closed',
+          },
+        },
+      },
+    },
+
+    // Connected - profile reads/writes, notifications, GATT explorer, UART terminal
+    connected: {
+      exit: ['resetGattOperations', 'clearRssi'],
+      invoke: [
+        {
+          src: 'connectedListener',
+          input: ({ context }) => ({ deviceId: context.deviceId, profileIds: context.profileIds }),
+        },
+        // Profile reads and writes run one at a time through the device's queue, in any
+        // sub-state - explorer and terminal operations share the queue
+        {
+          id: 'gattQueue',
+          src: 'gattQueue',
+          input: ({ context }) => ({
+            deviceId: context.deviceId,
+            policy: context.gattQueuePolicy,
+            timeouts: context.timeouts,
+            mtu: context.mtu,
+          }),
+        },
+        {
+          id: 'terminal',
+          src: 'terminal',
+          input: ({ context }) => ({
+            deviceId: context.deviceId,
+            mtu: context.mtu,
+            timeouts: context.timeouts,
+          }),
+        },
+        {
+          src: 'rssiPoller',
+          input: ({ context }) => ({ deviceId: context.deviceId, policy: context.rssiPolicy }),
+        },
+      ],
+      on: {
+        VALUE_CHANGED: {
+          actions: [
+            {
+              type: 'setValue',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        WRITE_VALUE: {
+          actions: [
+            'clearOperationError',
+            {
+              type: 'beginWrite',
+              params: ({ event }) => event,
+            },
+            'forwardToGattQueue',
+          ],
+        },
+        READ_VALUE: {
+          actions: ['clearOperationError', 'forwardToGattQueue'],
+        },
+        RETRY_OPERATION: {
+          guard: 'hasOperationError',
+          actions: ['retryOperation'],
+        },
+        CANCEL_OPERATION: {
+          actions: ['forwardToGattQueue'],
+        },
+        VALUE_WRITTEN: {
+          actions: [
+            {
+              type: 'endWrite',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        // A failed operation only rolls back and is recorded - unless the link is gone
+        VALUE_WRITE_FAILED: [
+          {
+            guard: {
+              type: 'isLinkLoss',
+              params: ({ event }) => event,
+            },
+            target: 'reconnecting',
+            actions: [
+              {
+                type: 'rollbackWrite',
+                params: ({ event }) => event,
+              },
+              {
+                type: 'setError',
+                params: ({ event }) => ({ message: event.error }),
+              },
+            ],
+          },
+          {
+            actions: [
+              {
+                type: 'rollbackWrite',
+                params: ({ event }) => event,
+              },
+              {
+                type: 'setOperationError',
+                params: ({ event }) => ({
+                  operation: 'write',
+                  profileId: event.profileId,
+                  key: event.key,
+                  value: event.value,
+                  error: event.error,
+                }),
+              },
+            ],
+          },
+        ],
+        VALUE_READ_FAILED: [
+          {
+            guard: {
+              type: 'isLinkLoss',
+              params: ({ event }) => event,
+            },
+            target: 'reconnecting',
+            actions: [
+              {
+                type: 'setError',
+                params: ({ event }) => ({ message: event.error }),
+              },
+            ],
+          },
+          {
+            actions: [
+              {
+                type: 'setOperationError',
+                params: ({ event }) => ({
+                  operation: 'read',
+                  profileId: event.profileId,
+                  key: event.key,
+                  error: event.error,
+                }),
+              },
+            ],
+          },
+        ],
+        GATT_QUEUE_CHANGED: {
+          actions: [
+            {
+              type: 'setGattOperations',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        RSSI_UPDATED: {
+          actions: [
+            {
+              type: 'addRssiSample',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        CHARACTERISTIC_VALUE_CHANGED: {
+          actions: [
+            {
+              type: 'setCharacteristicValue',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        READ_CHARACTERISTIC: {
+          target: '.readingCharacteristic',
+          actions: ['clearGattError'],
+        },
+        WRITE_CHARACTERISTIC: {
+          target: '.writingCharacteristic',
+          actions: ['clearGattError'],
+        },
+        SET_NOTIFICATION: {
+          target: '.settingNotification',
+          actions: ['clearGattError'],
+        },
+        // Terminal commands go to the invoked UART terminal
+        OPEN_TERMINAL: {
+          actions: ['forwardToTerminal'],
+        },
+        CLOSE_TERMINAL: {
+          actions: ['forwardToTerminal'],
+        },
+        SEND_TERMINAL: {
+          actions: ['forwardToTerminal'],
+        },
+        SET_LINE_ENDING: {
+          actions: ['forwardToTerminal'],
+        },
+        CLEAR_TERMINAL: {
+          actions: ['forwardToTerminal'],
+        },
+        START_DFU: {
+          guard: 'supportsDfu',
+          target: 'updating',
+          actions: [
+            {
+              type: 'startDfu',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        DISCONNECT: {
+          target: '.disconnecting',
+        },
+        CONNECTION_LOST: {
+          target: 'reconnecting',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ event }) => ({
+                message: event.reason || 'Connection lost unexpectedly',
+              }),
+            },
+          ],
+        },
+      },
+      initial: 'ready',
+      states: {
+        ready: {},
+        // GATT explorer operations - failures are reported in gattError and keep the connection
+        readingCharacteristic: {
+          invoke: {
+            src: 'readCharacteristic',
+            input: ({ context, event }) => {
+              assertEvent(event, 'READ_CHARACTERISTIC');
+              return {
+                deviceId: context.deviceId,
+                service: event.service,
+                characteristic: event.characteristic,
+                timeout: context.timeouts.read,
+              };
+            },
+            onDone: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setCharacteristicValue',
+                  params: ({ event }) => event.output,
+                },
+              ],
+            },
+            onError: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setGattError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Read failed',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+        writingCharacteristic: {
+          invoke: {
+            src: 'writeCharacteristic',
+            input: ({ context, event }) => {
+              assertEvent(event, 'WRITE_CHARACTERISTIC');
+              return {
+                deviceId: context.deviceId,
+                service: event.service,
+                characteristic: event.characteristic,
+                value: event.value,
+                withoutResponse: event.withoutResponse,
+                timeout: context.timeouts.write,
+              };
+            },
+            onDone: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setCharacteristicValue',
+                  params: ({ event }) => event.output,
+                },
+              ],
+            },
+            onError: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setGattError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Write failed',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+        settingNotification: {
+          invoke: {
+            src: 'setNotification',
+            input: ({ context, event }) => {
+              assertEvent(event, 'SET_NOTIFICATION');
+              return {
+                deviceId: context.deviceId,
+                service: event.service,
+                characteristic: event.characteristic,
+                enabled: event.enabled,
+                timeout: context.timeouts.notification,
+              };
+            },
+            onDone: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setNotifying',
+                  params: ({ event }) => event.output,
+                },
+              ],
+            },
+            onError: {
+              target: 'ready',
+              actions: [
+                {
+                  type: 'setGattError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Notification change failed',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+        // The link going down here is the disconnect asked for, not a loss to recover from,
+        // and nothing started now may cancel it
+        disconnecting: {
+          on: {
+            CONNECTION_LOST: '#device.closed',
+            READ_CHARACTERISTIC: {},
+            WRITE_CHARACTERISTIC: {},
+            SET_NOTIFICATION: {},
+            START_DFU: {},
+            DISCONNECT: {},
+          },
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.deviceId }),
+            onDone: '#device.closed',
+            onError: '#device.closed',
+          },
+        },
+      },
+    },
+
+    // Updating - Nordic Secure DFU: buttonless jump to the bootloader, transfer, then
+    // reconnect to the application running the new firmware
+    updating: {
+      initial: 'enteringBootloader',
+      on: {
+        CANCEL_DFU: {
+          target: '.aborting',
+        },
+      },
+      states: {
+        enteringBootloader: {
+          invoke: {
+            src: 'enterBootloader',
+            input: ({ context }) => ({ deviceId: context.deviceId }),
+            onDone: 'connectingBootloader',
+            onError: {
+              target: 'failed',
+              actions: [
+                {
+                  type: 'setDfuError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Could not enter the bootloader',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+        connectingBootloader: {
+          invoke: {
+            src: 'connectBootloader',
+            input: ({ context }) => ({
+              deviceId: context.deviceId,
+              bootloaderId: context.dfu?.bootloaderId ?? null,
+            }),
+            onDone: {
+              target: 'transferring',
+              actions: [
+                {
+                  type: 'setBootloaderId',
+                  params: ({ event }) => ({ bootloaderId: event.output }),
+                },
+              ],
+            },
+            onError: {
+              target: 'failed',
+              actions: [
+                {
+                  type: 'setDfuError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Could not connect to the bootloader',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+        transferring: {
+          invoke: {
+            src: 'dfuTransfer',
+            input: ({ context }) => ({
+              bootloaderId: context.dfu!.bootloaderId!,
+              dfuPackage: context.dfu!.dfuPackage,
+            }),
+          },
+          on: {
+            DFU_PROGRESS: {
+              actions: [
+                {
+                  type: 'setDfuProgress',
+                  params: ({ event }) => event,
+                },
+              ],
+            },
+            DFU_COMPLETE: {
+              target: 'restarting',
+            },
+            DFU_FAILED: {
+              target: 'failed',
+              actions: [
+                {
+                  type: 'setDfuError',
+                  params: ({ event }) => ({ message: event.error }),
+                },
+              ],
+            },
+          },
+        },
+        // The bootloader activates the new image and resets - reconnect with backoff
+        restarting: {
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.dfu!.bootloaderId! }),
+            onDone: '#device.reconnecting',
+            onError: '#device.reconnecting',
+          },
+        },
+        // Failed - the bootloader keeps what it received; RESUME_DFU continues from there
+        failed: {
+          on: {
+            RESUME_DFU: {
+              target: 'connectingBootloader',
+              actions: ['clearDfuError'],
+            },
+          },
+        },
+        aborting: {
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.dfu?.bootloaderId ?? context.deviceId }),
+            onDone: '#device.closed',
+            onError: '#device.closed',
+          },
+        },
+      },
+    },
+
+    // Reconnecting - retry with exponential backoff after an unexpected disconnect
+    reconnecting: {
+      initial: 'waiting',
+      on: {
+        DISCONNECT: {
+          target: 'closed',
+          actions: ['resetReconnect', 'clearError'],
+        },
+        CANCEL: {
+          target: 'closed',
+          actions: ['resetReconnect', 'clearError'],
+        },
+      },
+      states: {
+        waiting: {
+          entry: ['scheduleReconnect'],
+          after: {
+            reconnectDelay: 'attempting',
+          },
+        },
+        attempting: {
+          ...connectionSetup,
+          on: {
+            SETUP_FAILED: [
+              {
+                guard: 'canRetryReconnect',
+                target: 'dropping',
+                actions: [
+                  {
+                    type: 'setError',
+                    params: ({ event }) => ({ message: event.error }),
+                  },
+                ],
+              },
+              {
+                target: 'aborting',
+                actions: [
+                  {
+                    type: 'setError',
+                    params: ({ context }) => ({
+                      message: `Reconnect failed after ${context.reconnectAttempt} attempts`,
+                    }),
+                  },
+                  'resetReconnect',
+                ],
+              },
+            ],
+          },
+        },
+        // A failed attempt may have linked natively - drop it before waiting for the next one
+        dropping: {
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.deviceId }),
+            onDone: 'waiting',
+            onError: 'waiting',
+          },
+        },
+        aborting: {
+          invoke: {
+            src: 'disconnectFromDevice',
+            input: ({ context }) => ({ deviceId: context.deviceId }),
+            onDone: '#device.closed',
+            onError: '#device.closed',
+          },
+        },
+      },
+    },
+
+    // Closed - connection is over; bleMachine removes this actor
+    closed: {
+      type: 'final',
+      entry: ['notifyClosed'],
+    },
+  },
+});
+
+export type DeviceActorRef = ActorRefFrom<typeof deviceMachine>;
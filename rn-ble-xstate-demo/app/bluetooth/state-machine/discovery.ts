@@ -0,0 +1,83 @@
+import { Peripheral } from 'react-native-ble-manager';
+import { DiscoveredDevice, DiscoveryPolicy } from './types';
+
+export const DEFAULT_DISCOVERY_POLICY: DiscoveryPolicy = {
+  staleAfter: 30000,
+  pruneInterval: 5000,
+  rssiSmoothing: 0.3,
+};
+
+export type DiscoverySort = 'rssi' | 'name' | 'recency';
+
+/**
+ * How to present the discovered-device list - unset filters let every device through
+ */
+export interface DiscoveryView {
+  sortBy: DiscoverySort;
+  /** Case-insensitive substring of the name or id */
+  nameFilter?: string;
+  /** Weakest smoothed RSSI to show, in dBm */
+  minRssi?: number | null;
+}
+
+/**
+ * Records one advertisement of a peripheral - the first creates the entry, later ones refresh
+ * its advertising data, count and smoothed RSSI
+ */
+export function recordAdvertisement(
+  existing: DiscoveredDevice | undefined,
+  peripheral: Peripheral,
+  time: number,
+  policy: DiscoveryPolicy
+): DiscoveredDevice {
+  if (!existing) {
+    return {
+      ...peripheral,
+      firstSeen: time,
+      lastSeen: time,
+      advertisementCount: 1,
+      smoothedRssi: peripheral.rssi,
+    };
+  }
+  return {
+    ...existing,
+    ...peripheral,
+    lastSeen: time,
+    advertisementCount: existing.advertisementCount + 1,
+    smoothedRssi:
+      existing.smoothedRssi + policy.rssiSmoothing * (peripheral.rssi - existing.smoothedRssi),
+  };
+}
+
+/**
+ * Drops devices not heard from within staleAfter of now - a staleAfter of 0 keeps them all
+ */
+export const pruneStaleDevices = (devices: DiscoveredDevice[], now: number, staleAfter: number) =>
+  staleAfter > 0 ? devices.filter((device) => now - device.lastSeen < staleAfter) : devices;
+
+const compareBy: Record<DiscoverySort, (a: DiscoveredDevice, b: DiscoveredDevice) => number> = {
+  rssi: (a, b) => b.smoothedRssi - a.smoothedRssi,
+  // Unnamed devices go last
+  name: (a, b) =>
+    a.name && b.name ? a.name.localeCompare(b.name) : Number(!a.name) - Number(!b.name),
+  recency: (a, b) => b.lastSeen - a.lastSeen,
+};
+
+/**
+ * Filters and sorts discovered devices for display - the input list is left untouched
+ */
+export function arrangeDiscoveredDevices(
+  devices: DiscoveredDevice[],
+  view: DiscoveryView
+): DiscoveredDevice[] {
+  const query = view.nameFilter?.trim().toLowerCase() ?? '';
+  return devices
+    .filter(
+      (device) =>
+        (query === '' ||
+          (device.name ?? '').toLowerCase().includes(query) ||
+          device.id.toLowerCase().includes(query)) &&
+        (view.minRssi == null || device.smoothedRssi >= view.minRssi)
+    )
+    .sort(compareBy[view.sortBy]);
+}
@@ -0,0 +1,167 @@
+import { DeviceProfile, normalizeUuid, sameUuid, utf8Codec, ValueFraming } from '../profiles';
+import { BleTransport, PeripheralInfo } from '../transport';
+import { GattProperty, GattService, GattValueFormat } from './types';
+
+/**
+ * ATT MTU before any negotiation - every ATT write spends 3 bytes of it on the header
+ */
+export const DEFAULT_MTU = 23;
+const ATT_HEADER_SIZE = 3;
+
+/**
+ * MTU requested after connecting unless the machine input asks for another - 247 fills one
+ * Data Length Extension packet
+ */
+export const DEFAULT_REQUESTED_MTU = 247;
+
+/**
+ * Longest characteristic value ATT allows - the limit for long writes and reads
+ */
+export const MAX_ATTRIBUTE_LENGTH = 512;
+
+/**
+ * Key for per-characteristic context maps (values, notifications)
+ */
+export const characteristicKey = (serviceUUID: string, characteristicUUID: string) =>
+  `${normalizeUuid(serviceUUID)}/${normalizeUuid(characteristicUUID)}`;
+
+/**
+ * Finds a characteristic in a discovered GATT table, matching short and expanded UUIDs
+ */
+export const findGattCharacteristic = (
+  services: GattService[],
+  serviceUUID: string,
+  characteristicUUID: string
+) =>
+  services
+    .find((s) => sameUuid(s.uuid, serviceUUID))
+    ?.characteristics.find((c) => sameUuid(c.uuid, characteristicUUID));
+
+/**
+ * Characteristics of the matched profiles, paired with what was discovered for them -
+ * optional characteristics the device lacks are left out
+ */
+export const findProfileCharacteristics = (
+  profiles: DeviceProfile[],
+  profileIds: string[],
+  services: GattService[]
+) =>
+  profiles
+    .filter((profile) => profileIds.includes(profile.id))
+    .flatMap((profile) =>
+      profile.characteristics.map((characteristic) => ({
+        profile,
+        characteristic,
+        discovered: findGattCharacteristic(services, profile.serviceUUID, characteristic.uuid),
+      }))
+    )
+    .filter(({ characteristic, discovered }) => !characteristic.optional || discovered);
+
+/**
+ * Groups the flat retrieveServices result into services → characteristics → descriptors
+ */
+export function buildGattTable(info: PeripheralInfo): GattService[] {
+  const services: GattService[] = (info.services ?? []).map((s) => ({
+    uuid: s.uuid,
+    characteristics: [],
+  }));
+
+  (info.characteristics ?? []).forEach((c) => {
+    let service = services.find((s) => sameUuid(s.uuid, c.service));
+    if (!service) {
+      service = { uuid: c.service, characteristics: [] };
+      services.push(service);
+    }
+    service.characteristics.push({
+      uuid: c.characteristic,
+      properties: Object.keys(c.properties ?? {}) as GattProperty[],
+      descriptors: (c.descriptors ?? []).map((d) => ({ uuid: d.uuid, value: d.value ?? null })),
+    });
+  });
+
+  return services;
+}
+
+/**
+ * Splits a payload into chunks that each fit one write at the given MTU
+ */
+export function chunkPayload(bytes: number[], mtu = DEFAULT_MTU): number[][] {
+  const size = Math.max(1, mtu - ATT_HEADER_SIZE);
+  const chunks: number[][] = [];
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    chunks.push(bytes.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+/**
+ * Writes a value of any length - framed values as consecutive packets that fit the MTU,
+ * anything else as one write, which the stack turns into a long (prepared) write when the
+ * value does not fit a single packet
+ */
+export async function writeValue(
+  transport: BleTransport,
+  deviceId: string,
+  serviceUUID: string,
+  characteristicUUID: string,
+  bytes: number[],
+  options: { mtu: number; framing?: ValueFraming }
+): Promise<void> {
+  if (options.framing) {
+    const maxPacket = Math.max(1, options.mtu - ATT_HEADER_SIZE);
+    for (const packet of options.framing.split(bytes, maxPacket)) {
+      await transport.write(deviceId, serviceUUID, characteristicUUID, packet);
+    }
+    return;
+  }
+
+  if (bytes.length > MAX_ATTRIBUTE_LENGTH) {
+    throw new Error(
+      `Value of ${bytes.length} bytes exceeds the ${MAX_ATTRIBUTE_LENGTH}-byte attribute limit`
+    );
+  }
+  await transport.write(deviceId, serviceUUID, characteristicUUID, bytes);
+}
+
+/**
+ * Parses user input into bytes - throws on malformed input
+ *
+ * hex: "0a ff", "0AFF" or "0x0a,0xff"; decimal: "10 255" or "10,255"; utf8: any text
+ */
+export function parseGattValue(text: string, format: GattValueFormat): number[] {
+  if (format === 'utf8') {
+    return utf8Codec.encode!(text);
+  }
+
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+
+  if (format === 'hex') {
+    const digits = tokens.map((t) => t.replace(/^0x/i, '')).join('');
+    if (!/^[0-9a-f]*$/i.test(digits) || digits.length % 2 !== 0) {
+      throw new Error(`Invalid hex value: ${text}`);
+    }
+    return (digits.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+  }
+
+  return tokens.map((token) => {
+    const byte = Number(token);
+    if (!/^\d+$/.test(token) || byte > 255) {
+      throw new Error(`Invalid byte: ${token}`);
+    }
+    return byte;
+  });
+}
+
+/**
+ * Renders bytes in the given format
+ */
+export function formatGattValue(bytes: number[], format: GattValueFormat): string {
+  switch (format) {
+    case 'hex':
+      return bytes.map((b) => b.toString(16).padStart(2, '0')).join(' ');
+    case 'decimal':
+      return bytes.join(' ');
+    case 'utf8':
+      return utf8Codec.decode(bytes);
+  }
+}
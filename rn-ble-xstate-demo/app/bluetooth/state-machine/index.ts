@@ -1,21 +1,201 @@
-export { bleMachine, type BleContext, type BleEvent } from './ble-machine';
+export {
+  bleMachine,
+  createBleActors,
+  type BleContext,
+  type BleEvent,
+  type BleMachineInput,
+} from './ble-machine';
+
+export {
+  deviceMachine,
+  type DeviceActorRef,
+  type DeviceContext,
+  type DeviceEvent,
+  type DeviceInput,
+  type DfuState,
+  type OperationError,
+  pendingKey,
+  type RssiSample,
+} from './device-machine';
+
+export {
+  encodeTerminalLine,
+  LINE_ENDINGS,
+  terminalMachine,
+  type LineEnding,
+  type TerminalActorRef,
+  type TerminalContext,
+  type TerminalEvent,
+  type TerminalInput,
+  type TerminalLine,
+} from './terminal-machine';
+
+export {
+  permissionsMachine,
+  type PermissionsActorRef,
+  type PermissionsContext,
+  type PermissionsEvent,
+  type PermissionsInput,
+} from './permissions-machine';
+
+export { createDeviceActors, createPermissionsActors, createTerminalActors } from './actors';
+
+export { DEFAULT_RECONNECT_POLICY, getReconnectDelay, isLinkLossError } from './reconnect';
+
+export { createRssiFilter, DEFAULT_RSSI_POLICY } from './rssi';
+
+export { DEFAULT_SCAN_SETTINGS, getScanOptions } from './scan';
+
+export {
+  BLUETOOTH_OFF_STATES,
+  bluetoothOffReason,
+  BluetoothUnavailableError,
+  type BluetoothOffReason,
+} from './adapter';
+
+export {
+  arrangeDiscoveredDevices,
+  DEFAULT_DISCOVERY_POLICY,
+  pruneStaleDevices,
+  recordAdvertisement,
+  type DiscoverySort,
+  type DiscoveryView,
+} from './discovery';
+
+export {
+  chooseAutoConnectDevices,
+  createKnownDevice,
+  DEFAULT_AUTO_CONNECT_LIMIT,
+  forgetKnownDevice,
+  knownDeviceLabel,
+  recordConnection,
+  sortKnownDevices,
+  updateKnownDevice,
+  type KnownDeviceChanges,
+} from './knownDevices';
+
+export {
+  createSnapshotSaver,
+  pickPersistedState,
+  rehydrateBleSnapshot,
+  SNAPSHOT_SAVE_DELAY,
+  storageFailed,
+  type PersistedBleSnapshot,
+  type PersistedBleState,
+  type RestorableContext,
+} from './persistence';
+
+export {
+  createOperationQueue,
+  DEFAULT_GATT_QUEUE_POLICY,
+  getDeviceQueue,
+  type OperationQueue,
+  type QueuedOperationOptions,
+} from './queue';
+
+export { BleTimeoutError, DEFAULT_BLE_TIMEOUTS, type BleTimeoutPhase } from './timeouts';
+
+export {
+  buildGattTable,
+  characteristicKey,
+  chunkPayload,
+  DEFAULT_MTU,
+  DEFAULT_REQUESTED_MTU,
+  findGattCharacteristic,
+  formatGattValue,
+  MAX_ATTRIBUTE_LENGTH,
+  parseGattValue,
+  writeValue,
+} from './gatt';
 
 export {
-  selectButtonState,
+  type BleActivity,
+  type BleTimeouts,
+  type DiscoveredDevice,
+  type DiscoveryPolicy,
+  type GattCharacteristic,
+  type GattDescriptor,
+  type GattOperation,
+  type GattPriority,
+  type GattProperty,
+  type GattQueuePolicy,
+  type GattService,
+  type GattValueFormat,
+  type KnownDevice,
+  type RssiPolicy,
+  type RssiSmoothing,
+  type ScanSettings,
+} from './types';
+
+export {
+  selectAdapterState,
+  selectBatteryLevel,
+  selectBluetoothOffReason,
+  selectBodySensorLocation,
+  selectCharacteristicValues,
   selectCurrentState,
+  selectDevice,
+  selectDeviceError,
+  selectDeviceInformation,
   selectDeviceId,
   selectDeviceName,
+  selectDevices,
+  selectDeviceStatus,
+  selectDfu,
   selectDiscoveredDevices,
   selectError,
+  selectGattError,
+  selectOperationError,
+  selectPermissionError,
+  selectPermissions,
+  selectPermissionStatus,
+  selectPermissionStep,
+  selectGattOperations,
+  selectGattQueueDepth,
+  selectHeartRate,
   selectIsConnected,
   selectIsConnecting,
   selectIsDisconnecting,
+  selectIsGattBusy,
   selectIsIdle,
   selectIsInit,
+  selectIsReady,
+  selectIsOpeningSettings,
+  selectIsReconnecting,
+  selectIsRequestingPermissions,
+  selectIsScanComplete,
   selectIsScanning,
+  selectIsTerminalSending,
+  selectIsUpdating,
   selectIsWaitingForBluetooth,
-  selectLedState,
+  selectKnownDevices,
+  selectNextReconnectAt,
+  selectNotifying,
+  selectProfileIds,
+  selectReconnectAttempt,
+  selectRssi,
+  selectRssiHistory,
+  selectScanSettings,
+  selectServices,
+  selectTerminal,
+  selectTerminalError,
+  selectTerminalHistory,
+  selectTerminalLineEnding,
+  selectTerminalLines,
+  selectTerminalPartial,
+  selectTerminalStatus,
+  selectValue,
+  selectConfirmedValue,
+  selectIsValuePending,
+  selectPendingWrites,
+  selectValues,
+  selectHasStaleValues,
 } from './selectors';
 
-export { useBluetooth } from './useBluetooth';
-
+export {
+  rehydrateBluetooth,
+  useBleDevice,
+  useBleTerminal,
+  useBluetooth,
+  useBluetoothRehydrated,
+} from './useBluetooth';
@@ -0,0 +1,79 @@
+import { KnownDevice } from './types';
+
+/** Known devices connected on START - favourites first, then the most recently connected */
+export const DEFAULT_AUTO_CONNECT_LIMIT = 1;
+
+export type KnownDeviceChanges = Partial<
+  Pick<KnownDevice, 'nickname' | 'favourite' | 'autoConnect'>
+>;
+
+/**
+ * Registry entry for a device that has never connected - it auto-connects until told not to
+ */
+export const createKnownDevice = (id: string, name: string | null): KnownDevice => ({
+  id,
+  name,
+  nickname: null,
+  lastConnected: null,
+  connectionCount: 0,
+  favourite: false,
+  autoConnect: true,
+});
+
+/**
+ * Records a successful connection - adds the device on its first one and keeps the last
+ * advertised name it had
+ */
+export function recordConnection(
+  devices: KnownDevice[],
+  id: string,
+  name: string | null,
+  time: number
+): KnownDevice[] {
+  const existing = devices.find((device) => device.id === id);
+  const updated: KnownDevice = {
+    ...(existing ?? createKnownDevice(id, name)),
+    name: name ?? existing?.name ?? null,
+    lastConnected: time,
+    connectionCount: (existing?.connectionCount ?? 0) + 1,
+  };
+  return existing
+    ? devices.map((device) => (device.id === id ? updated : device))
+    : [...devices, updated];
+}
+
+/**
+ * Applies user preferences to one device - a blank nickname clears it
+ */
+export const updateKnownDevice = (
+  devices: KnownDevice[],
+  id: string,
+  changes: KnownDeviceChanges
+): KnownDevice[] =>
+  devices.map((device) => {
+    if (device.id !== id) return device;
+    const updated = { ...device, ...changes };
+    return { ...updated, nickname: updated.nickname?.trim() || null };
+  });
+
+export const forgetKnownDevice = (devices: KnownDevice[], id: string) =>
+  devices.filter((device) => device.id !== id);
+
+// Never-connected devices go last
+const compareKnownDevices = (a: KnownDevice, b: KnownDevice) =>
+  Number(b.favourite) - Number(a.favourite) || (b.lastConnected ?? -1) - (a.lastConnected ?? -1);
+
+/**
+ * Known devices for display - favourites first, then by last connection; the input list is
+ * left untouched
+ */
+export const sortKnownDevices = (devices: KnownDevice[]) => [...devices].sort(compareKnownDevices);
+
+/**
+ * The devices to connect on START - up to limit of those that allow auto-connect
+ */
+export const chooseAutoConnectDevices = (devices: KnownDevice[], limit: number) =>
+  sortKnownDevices(devices.filter((device) => device.autoConnect)).slice(0, Math.max(0, limit));
+
+/** Nickname if the user gave one, else the advertised name */
+export const knownDeviceLabel = (device: KnownDevice) => device.nickname ?? device.name;
@@ -0,0 +1,192 @@
+import { ActorRefFrom, assign, setup } from 'xstate';
+import { createPlatformPermissions, PermissionStatus } from '../permissions';
+import { bleManagerTransport } from '../transport';
+import { createPermissionsActors } from './actors';
+import { BleTimeoutError, DEFAULT_BLE_TIMEOUTS } from './timeouts';
+import { PermissionsContext, PermissionsEvent, PermissionsInput } from './types';
+
+export type { PermissionsContext, PermissionsEvent, PermissionsInput };
+
+// Bluetooth permissions - invoked by bleMachine before initialization, done once they are granted
+export const permissionsMachine = setup({
+  types: {
+    context: {} as PermissionsContext,
+    events: {} as PermissionsEvent,
+    input: {} as PermissionsInput,
+  },
+  // Defaults to the platform's permissions; createBleActors(transport, profiles, permissions) overrides it
+  actors: createPermissionsActors(createPlatformPermissions(bleManagerTransport)),
+  actions: {
+    setStatus: assign({
+      status: (_, params: { status: PermissionStatus }) => params.status,
+    }),
+    setError: assign({
+      error: (_, params: { message: string }) => params.message,
+    }),
+    clearError: assign({ error: null }),
+  },
+  guards: {
+    isGranted: (_, params: { status: PermissionStatus }) => params.status === 'granted',
+    isBlocked: (_, params: { status: PermissionStatus }) => params.status === 'blocked',
+  },
+  delays: {
+    checkTimeout: ({ context }) => context.checkTimeout,
+  },
+}).createMachine({
+  id: 'permissions',
+  initial: 'checking',
+  context: ({ input }) => ({
+    status: 'undetermined',
+    error: null,
+    checkTimeout: input?.checkTimeout ?? DEFAULT_BLE_TIMEOUTS.permissions,
+  }),
+  states: {
+    // Checking - reading the status without prompting
+    checking: {
+      invoke: {
+        src: 'checkPermissions',
+        onDone: [
+          {
+            guard: { type: 'isGranted', params: ({ event }) => ({ status: event.output }) },
+            target: 'granted',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+          {
+            guard: { type: 'isBlocked', params: ({ event }) => ({ status: event.output }) },
+            target: 'blocked',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+          {
+            target: 'rationale',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+        ],
+        // Nothing to go on - explain and ask
+        onError: {
+          target: 'rationale',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ event }) => ({
+                message: (event.error as Error)?.message || 'Could not check permissions',
+              }),
+            },
+          ],
+        },
+      },
+      // A platform that never answers is treated like one that failed
+      after: {
+        checkTimeout: {
+          target: 'rationale',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ context }) => ({
+                message: new BleTimeoutError('permissions', context.checkTimeout).message,
+              }),
+            },
+          ],
+        },
+      },
+    },
+
+    // Rationale - the UI explains why Bluetooth is needed; REQUEST_PERMISSIONS shows the prompt
+    rationale: {
+      on: {
+        REQUEST_PERMISSIONS: {
+          target: 'requesting',
+          actions: ['clearError'],
+        },
+      },
+    },
+
+    // Requesting - the system prompt is up
+    requesting: {
+      invoke: {
+        src: 'requestPermissions',
+        onDone: [
+          {
+            guard: { type: 'isGranted', params: ({ event }) => ({ status: event.output }) },
+            target: 'granted',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+          {
+            guard: { type: 'isBlocked', params: ({ event }) => ({ status: event.output }) },
+            target: 'blocked',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+          {
+            target: 'denied',
+            actions: [{ type: 'setStatus', params: ({ event }) => ({ status: event.output }) }],
+          },
+        ],
+        onError: {
+          target: 'denied',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ event }) => ({
+                message: (event.error as Error)?.message || 'Could not request permissions',
+              }),
+            },
+          ],
+        },
+      },
+    },
+
+    // Denied - the user refused but can be asked again
+    denied: {
+      on: {
+        REQUEST_PERMISSIONS: {
+          target: 'requesting',
+          actions: ['clearError'],
+        },
+      },
+    },
+
+    // Blocked - only the settings page can grant them; checks again when the app returns
+    blocked: {
+      invoke: {
+        src: 'foregroundListener',
+      },
+      initial: 'waiting',
+      states: {
+        waiting: {
+          on: {
+            OPEN_SETTINGS: 'openingSettings',
+          },
+        },
+        openingSettings: {
+          invoke: {
+            src: 'openSettings',
+            onDone: 'waiting',
+            onError: {
+              target: 'waiting',
+              actions: [
+                {
+                  type: 'setError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Could not open settings',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+      },
+      on: {
+        CHECK_PERMISSIONS: {
+          target: 'checking',
+          actions: ['clearError'],
+        },
+      },
+    },
+
+    // Granted - bleMachine moves on to initialization
+    granted: {
+      type: 'final',
+    },
+  },
+});
+
+export type PermissionsActorRef = ActorRefFrom<typeof permissionsMachine>;
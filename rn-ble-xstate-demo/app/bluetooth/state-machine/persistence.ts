@@ -0,0 +1,120 @@
+import { InspectionEvent, Snapshot, StateValue } from 'xstate';
+import { ProfileValues } from '../profiles';
+import { BleContext } from './types';
+
+/** Wait after a meaningful change before saving, so bursts of changes are saved once */
+export const SNAPSHOT_SAVE_DELAY = 1000;
+
+/**
+ * What bleMachine's getPersistedSnapshot() returns - children hold the invoked and spawned
+ * actors' own persisted snapshots
+ */
+export type PersistedBleSnapshot = Snapshot<unknown> & {
+  value: StateValue;
+  context: BleContext;
+  children: Record<string, unknown>;
+};
+
+/**
+ * The data safe to carry across a restart - settings, known devices and each device's last
+ * profile values. Devices, scan results, errors and adapter state describe native state that
+ * is gone.
+ */
+export type RestorableContext = Pick<BleContext, 'scanSettings' | 'knownDevices' | 'lastValues'>;
+
+/**
+ * What the app saves - the restorable context, and whether the app had been started
+ */
+export interface PersistedBleState {
+  started: boolean;
+  context: RestorableContext;
+}
+
+/**
+ * The restorable part of a running bleMachine - last values come from the connected devices
+ * over the ones restored earlier, and only for devices still known
+ */
+export const pickPersistedState = (snapshot: {
+  value: StateValue;
+  context: BleContext;
+}): PersistedBleState => {
+  const { scanSettings, knownDevices, devices, lastValues } = snapshot.context;
+  const current = Object.values(devices).reduce((values, device) => {
+    const { deviceId, values: deviceValues } = device.getSnapshot().context;
+    return { ...values, [deviceId]: deviceValues };
+  }, lastValues);
+  return {
+    started: snapshot.value !== 'idle',
+    context: {
+      scanSettings,
+      knownDevices,
+      lastValues: Object.fromEntries(
+        knownDevices.filter(({ id }) => current[id]).map(({ id }) => [id, current[id]])
+      ),
+    },
+  };
+};
+
+/**
+ * Rehydration policy - the machine's fresh idle snapshot with the restorable context on top.
+ * No connection is restored: when the app had been started, resume is set and the caller
+ * sends START, so permissions and init run again and known devices auto-connect as usual.
+ */
+export const rehydrateBleSnapshot = (
+  persisted: PersistedBleState,
+  initial: PersistedBleSnapshot
+): { snapshot: PersistedBleSnapshot; resume: boolean } => ({
+  snapshot: {
+    ...initial,
+    context: { ...initial.context, ...persisted.context },
+  },
+  resume: persisted.started,
+});
+
+/**
+ * STORAGE_FAILED for a save or load that failed - action says what was being done
+ */
+export const storageFailed = (action: string, error: unknown) => ({
+  type: 'STORAGE_FAILED' as const,
+  error: `Could not ${action}: ${(error as Error)?.message || String(error)}`,
+});
+
+const topLevelState = (value: StateValue) =>
+  typeof value === 'string' ? value : Object.keys(value)[0];
+
+// The parts of a snapshot whose change is worth saving - null for actors that hold nothing
+const trackedParts = (snapshot: { value?: StateValue; context?: unknown }) => {
+  const context = snapshot.context as
+    (Partial<BleContext> & { deviceId?: string; values?: ProfileValues }) | undefined;
+  if (context?.knownDevices && snapshot.value !== undefined) {
+    return [topLevelState(snapshot.value), context.scanSettings, context.knownDevices];
+  }
+  if (context?.values && context.deviceId) {
+    return [context.values];
+  }
+  return null;
+};
+
+/**
+ * Inspector that calls save after bleMachine changes top-level state, scan settings or known
+ * devices, or a device's profile values change - at most once per delay
+ */
+export function createSnapshotSaver(save: () => void, delay = SNAPSHOT_SAVE_DELAY) {
+  const lastParts = new WeakMap<object, unknown[]>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return (event: InspectionEvent) => {
+    if (event.type !== '@xstate.snapshot') return;
+    const parts = trackedParts(event.snapshot as { value?: StateValue; context?: unknown });
+    if (!parts) return;
+
+    const previous = lastParts.get(event.actorRef);
+    lastParts.set(event.actorRef, parts);
+    if (!previous || parts.every((part, index) => part === previous[index]) || timer) return;
+
+    timer = setTimeout(() => {
+      timer = null;
+      save();
+    }, delay);
+  };
+}
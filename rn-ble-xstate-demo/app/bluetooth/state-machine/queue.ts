@@ -0,0 +1,214 @@
+import { BleTransport } from '../transport';
+import { GattOperation, GattPriority, GattQueuePolicy } from './types';
+
+export const DEFAULT_GATT_QUEUE_POLICY: GattQueuePolicy = {
+  readRetries: 2,
+  writeRetries: 0,
+  retryDelay: 100,
+};
+
+const DEFAULT_TIMEOUT = 5000;
+
+const PRIORITY_ORDER: Record<GattPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export interface QueuedOperationOptions {
+  /** Describes the operation in the queue's operation list */
+  label?: string;
+  priority?: GattPriority;
+  /** Time allowed for a single attempt, in ms - 0 waits forever */
+  timeout?: number;
+  /** Error a timed out attempt fails with */
+  timeoutError?: () => Error;
+  /** Extra attempts after a failure or timeout */
+  retries?: number;
+  retryDelay?: number;
+  /** Aborting removes a queued operation, or stops retries of a running one */
+  signal?: AbortSignal;
+}
+
+interface QueuedOperation {
+  id: number;
+  label: string;
+  run: () => Promise<unknown>;
+  priority: GattPriority;
+  timeout: number;
+  timeoutError: () => Error;
+  retries: number;
+  retryDelay: number;
+  cancelled: boolean;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export interface OperationQueue {
+  /** Queues an operation behind everything of the same or higher priority */
+  enqueue: <T>(run: () => Promise<T>, options?: QueuedOperationOptions) => Promise<T>;
+  /** Removes a queued operation, or stops retries of the running one - false for unknown ids */
+  cancel: (id: number) => boolean;
+  /** Rejects every queued operation and stops retries of the running one */
+  clear: () => void;
+  /** Calls listener after every change to the operation list; returns the unsubscribe */
+  subscribe: (listener: () => void) => () => void;
+  /** Operations queued or running */
+  readonly depth: number;
+  /** The running operation first, then the queued ones in the order they will run */
+  readonly operations: GattOperation[];
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const cancelledError = () => new Error('GATT operation cancelled');
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  timeoutError: () => Error
+): Promise<T> {
+  if (timeout <= 0) return promise;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(timeoutError()), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Runs async operations one at a time, highest priority first. A timed out attempt only stops
+ * waiting - the native call it started cannot be aborted - so the next operation may overlap it.
+ */
+export function createOperationQueue(options: { timeout?: number } = {}): OperationQueue {
+  const pending: QueuedOperation[] = [];
+  const listeners = new Set<() => void>();
+  let running: QueuedOperation | null = null;
+  let nextId = 1;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const attempt = async (operation: QueuedOperation) => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await withTimeout(operation.run(), operation.timeout, operation.timeoutError);
+      } catch (error) {
+        if (operation.cancelled || retry >= operation.retries) throw error;
+      }
+      await delay(operation.retryDelay);
+      if (operation.cancelled) throw cancelledError();
+    }
+  };
+
+  const runNext = async () => {
+    if (running || pending.length === 0) return;
+    const operation = pending.shift()!;
+    running = operation;
+    notify();
+    try {
+      operation.resolve(await attempt(operation));
+    } catch (error) {
+      operation.reject(error as Error);
+    }
+    running = null;
+    notify();
+    runNext();
+  };
+
+  const cancel = (operation: QueuedOperation) => {
+    operation.cancelled = true;
+    const index = pending.indexOf(operation);
+    if (index === -1) return;
+    pending.splice(index, 1);
+    operation.reject(cancelledError());
+    notify();
+  };
+
+  return {
+    enqueue: <T>(run: () => Promise<T>, operationOptions: QueuedOperationOptions = {}) =>
+      new Promise<T>((resolve, reject) => {
+        const { signal } = operationOptions;
+        if (signal?.aborted) {
+          reject(cancelledError());
+          return;
+        }
+
+        const operation: QueuedOperation = {
+          id: nextId++,
+          label: operationOptions.label ?? 'GATT operation',
+          run,
+          priority: operationOptions.priority ?? 'normal',
+          timeout: operationOptions.timeout ?? options.timeout ?? DEFAULT_TIMEOUT,
+          timeoutError:
+            operationOptions.timeoutError ?? (() => new Error('GATT operation timed out')),
+          retries: operationOptions.retries ?? 0,
+          retryDelay: operationOptions.retryDelay ?? DEFAULT_GATT_QUEUE_POLICY.retryDelay,
+          cancelled: false,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        };
+
+        signal?.addEventListener('abort', () => cancel(operation));
+
+        // Behind everything of the same or higher priority
+        const index = pending.findIndex(
+          (queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[operation.priority]
+        );
+        pending.splice(index === -1 ? pending.length : index, 0, operation);
+        if (running) notify();
+        runNext();
+      }),
+
+    cancel: (id) => {
+      const operation = [running, ...pending].find((queued) => queued?.id === id);
+      if (!operation) return false;
+      cancel(operation);
+      return true;
+    },
+
+    clear: () => {
+      if (running) running.cancelled = true;
+      pending.splice(0).forEach((operation) => operation.reject(cancelledError()));
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    get depth() {
+      return pending.length + (running ? 1 : 0);
+    },
+
+    get operations() {
+      return [...(running ? [running] : []), ...pending].map(({ id, label, priority }) => ({
+        id,
+        label,
+        priority,
+        running: id === running?.id,
+      }));
+    },
+  };
+}
+
+const deviceQueues = new WeakMap<BleTransport, Map<string, OperationQueue>>();
+
+/**
+ * The queue every GATT operation on one device goes through - shared by all actors built on the
+ * same transport, so setup, profile, explorer and terminal calls never overlap natively
+ */
+export function getDeviceQueue(transport: BleTransport, deviceId: string): OperationQueue {
+  const queues = deviceQueues.get(transport) ?? new Map<string, OperationQueue>();
+  deviceQueues.set(transport, queues);
+  if (!queues.has(deviceId)) queues.set(deviceId, createOperationQueue());
+  return queues.get(deviceId)!;
+}
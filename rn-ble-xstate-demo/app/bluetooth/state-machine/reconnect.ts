@@ -0,0 +1,34 @@
+import { ReconnectPolicy } from './types';
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Exponential backoff delay for the given attempt (1-based), with jitter
+ */
+export function getReconnectDelay(
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.multiplier, Math.max(0, attempt - 1))
+  );
+  const spread = base * policy.jitter * (random() * 2 - 1);
+  return Math.round(Math.max(0, Math.min(policy.maxDelay, base + spread)));
+}
+
+// Messages native stacks and transports use when the link itself is gone
+const LINK_LOSS_PATTERN =
+  /not connected|disconnected|connection (?:lost|closed|terminated)|link (?:lost|loss)/i;
+
+/**
+ * Whether a failed GATT operation means the connection is gone, rather than a transient error
+ */
+export const isLinkLossError = (message: string) => LINK_LOSS_PATTERN.test(message);
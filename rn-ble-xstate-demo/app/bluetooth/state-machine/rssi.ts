@@ -0,0 +1,48 @@
+import { RssiPolicy } from './types';
+
+export const DEFAULT_RSSI_POLICY: RssiPolicy = {
+  interval: 2000,
+  smoothing: 'kalman',
+  window: 5,
+  historySize: 60,
+};
+
+// How far the true signal is expected to drift between readings, and how noisy a reading is
+const KALMAN_PROCESS_NOISE = 0.05;
+const KALMAN_MEASUREMENT_NOISE = 2;
+
+/**
+ * Stateful RSSI smoother for the policy's smoothing - feed it readings in order, it returns the
+ * smoothed value after each one
+ */
+export function createRssiFilter(policy: RssiPolicy): (rssi: number) => number {
+  switch (policy.smoothing) {
+    case 'none':
+      return (rssi) => rssi;
+
+    case 'movingAverage': {
+      const window: number[] = [];
+      return (rssi) => {
+        window.push(rssi);
+        if (window.length > Math.max(1, policy.window)) window.shift();
+        return window.reduce((sum, value) => sum + value, 0) / window.length;
+      };
+    }
+
+    case 'kalman': {
+      let estimate: number | null = null;
+      let variance = 1;
+      return (rssi) => {
+        if (estimate === null) {
+          estimate = rssi;
+          return estimate;
+        }
+        variance += KALMAN_PROCESS_NOISE;
+        const gain = variance / (variance + KALMAN_MEASUREMENT_NOISE);
+        estimate += gain * (rssi - estimate);
+        variance *= 1 - gain;
+        return estimate;
+      };
+    }
+  }
+}
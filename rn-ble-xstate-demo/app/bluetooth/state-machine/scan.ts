@@ -0,0 +1,26 @@
+import { DeviceProfile, getScanServiceUUIDs } from '../profiles';
+import { BleScanOptions } from '../transport';
+import { ScanSettings } from './types';
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  duration: 10,
+  allowDuplicates: false,
+  filterByProfiles: true,
+  scanMode: 'balanced',
+  matchMode: 'aggressive',
+};
+
+/**
+ * Transport scan options for the settings - filtered by the profiles' services unless
+ * filterByProfiles is off
+ */
+export const getScanOptions = (
+  settings: ScanSettings,
+  profiles: DeviceProfile[]
+): BleScanOptions => ({
+  serviceUUIDs: settings.filterByProfiles ? getScanServiceUUIDs(profiles) : [],
+  seconds: settings.duration,
+  allowDuplicates: settings.allowDuplicates,
+  scanMode: settings.scanMode,
+  matchMode: settings.matchMode,
+});
@@ -1,13 +1,20 @@
+import { DeviceInformation, HeartRateMeasurement } from "../profiles";
+import { BluetoothOffReason } from "./adapter";
 import { BleContext } from "./ble-machine";
+import { DeviceContext, pendingKey } from "./device-machine";
+import { PermissionsActorRef, PermissionsContext } from "./permissions-machine";
+import { TerminalActorRef, TerminalContext } from "./terminal-machine";
 
 // Selectors for React UI
-export const selectDeviceId = (state: { context: BleContext }) => state.context.deviceId;
-export const selectDeviceName = (state: { context: BleContext }) => state.context.deviceName;
-export const selectButtonState = (state: { context: BleContext }) => state.context.buttonState;
-export const selectLedState = (state: { context: BleContext }) => state.context.ledState;
 export const selectError = (state: { context: BleContext }) => state.context.error;
 export const selectDiscoveredDevices = (state: { context: BleContext }) =>
   state.context.discoveredDevices;
+export const selectDevices = (state: { context: BleContext }) => state.context.devices;
+export const selectScanSettings = (state: { context: BleContext }) => state.context.scanSettings;
+export const selectAdapterState = (state: { context: BleContext }) => state.context.adapterState;
+export const selectKnownDevices = (state: { context: BleContext }) => state.context.knownDevices;
+export const selectDevice = (deviceId: string) => (state: { context: BleContext }) =>
+  state.context.devices[deviceId];
 
 export const selectIsIdle = (state: { value: unknown }) => {
   return state.value === 'idle';
@@ -22,34 +29,203 @@ export const selectIsWaitingForBluetooth = (state: { value: unknown }) => {
 };
 
 export const selectIsScanning = (state: { value: unknown }) => {
-  return state.value === 'scanning';
+  if (state.value === 'scanning') return true;
+  if (typeof state.value === 'object' && state.value !== null) {
+    return 'scanning' in state.value;
+  }
+  return false;
 };
 
-export const selectIsConnecting = (state: { value: unknown }) => {
-  return state.value === 'connecting';
+// Why Bluetooth is unavailable, or null while it is usable
+export const selectBluetoothOffReason = (state: { value: unknown }): BluetoothOffReason | null => {
+  if (typeof state.value === 'object' && state.value !== null && 'bluetoothOff' in state.value) {
+    return (state.value as { bluetoothOff: BluetoothOffReason }).bluetoothOff;
+  }
+  return null;
+};
+
+export const selectIsRequestingPermissions = (state: { value: unknown }) => {
+  return state.value === 'permissions';
+};
+
+export const selectPermissions = (state: { children: Record<string, unknown> }) =>
+  state.children.permissions as PermissionsActorRef | undefined;
+
+export const selectIsScanComplete = (state: { value: unknown }) => {
+  return state.value === 'scanComplete';
 };
 
-export const selectIsConnected = (state: { value: unknown }) => {
-  if (state.value === 'connected') return true;
+export const selectIsReady = (state: { value: unknown }) => {
+  return state.value === 'ready';
+};
+
+export const selectCurrentState = (state: { value: unknown }) => {
+  if (typeof state.value === 'string') return state.value;
   if (typeof state.value === 'object' && state.value !== null) {
+    const keys = Object.keys(state.value);
+    return keys[0] || 'unknown';
+  }
+  return 'unknown';
+};
+
+// Per-device selectors - take a device connection snapshot (undefined once the device is gone)
+type DeviceState =
+  | { context: DeviceContext; value: unknown; children: Record<string, unknown> }
+  | undefined;
+
+export const selectDeviceId = (state: DeviceState) => state?.context.deviceId ?? null;
+export const selectDeviceName = (state: DeviceState) => state?.context.deviceName ?? null;
+export const selectDeviceError = (state: DeviceState) => state?.context.error ?? null;
+export const selectReconnectAttempt = (state: DeviceState) =>
+  state?.context.reconnectAttempt ?? 0;
+export const selectNextReconnectAt = (state: DeviceState) =>
+  state?.context.nextReconnectAt ?? null;
+
+const NO_PROFILES: DeviceContext['profileIds'] = [];
+const NO_PROFILE_VALUES: DeviceContext['values'] = {};
+const NO_SERVICES: DeviceContext['services'] = [];
+const NO_VALUES: DeviceContext['characteristicValues'] = {};
+const NO_NOTIFYING: DeviceContext['notifying'] = [];
+const NO_PENDING_WRITES: DeviceContext['pendingWrites'] = {};
+const NO_RSSI_HISTORY: DeviceContext['rssiHistory'] = [];
+const NO_GATT_OPERATIONS: DeviceContext['gattOperations'] = [];
+
+export const selectProfileIds = (state: DeviceState) => state?.context.profileIds ?? NO_PROFILES;
+export const selectValues = (state: DeviceState) => state?.context.values ?? NO_PROFILE_VALUES;
+export const selectHasStaleValues = (state: DeviceState) => state?.context.staleValues ?? false;
+export const selectValue = (profileId: string, key: string) => (state: DeviceState) =>
+  state?.context.values[profileId]?.[key];
+export const selectPendingWrites = (state: DeviceState) =>
+  state?.context.pendingWrites ?? NO_PENDING_WRITES;
+// A written value stays pending until the device acknowledges the last write of it
+export const selectIsValuePending = (profileId: string, key: string) => (state: DeviceState) =>
+  state?.context.pendingWrites[pendingKey(profileId, key)] !== undefined;
+// Last value the device confirmed - the optimistic one only once no write of it is pending
+export const selectConfirmedValue = (profileId: string, key: string) => (state: DeviceState) => {
+  const pending = state?.context.pendingWrites[pendingKey(profileId, key)];
+  return pending ? pending.previous : state?.context.values[profileId]?.[key];
+};
+export const selectHeartRate = (state: DeviceState) =>
+  (state?.context.values.hrs?.measurement as HeartRateMeasurement | undefined) ?? null;
+export const selectBodySensorLocation = (state: DeviceState) =>
+  (state?.context.values.hrs?.bodySensorLocation as string | undefined) ?? null;
+export const selectBatteryLevel = (state: DeviceState) =>
+  (state?.context.values.battery?.level as number | undefined) ?? null;
+export const selectDeviceInformation = (state: DeviceState) =>
+  (state?.context.values.dis as DeviceInformation | undefined) ?? null;
+export const selectServices = (state: DeviceState) => state?.context.services ?? NO_SERVICES;
+export const selectCharacteristicValues = (state: DeviceState) =>
+  state?.context.characteristicValues ?? NO_VALUES;
+export const selectNotifying = (state: DeviceState) => state?.context.notifying ?? NO_NOTIFYING;
+export const selectGattError = (state: DeviceState) => state?.context.gattError ?? null;
+export const selectOperationError = (state: DeviceState) =>
+  state?.context.operationError ?? null;
+export const selectDfu = (state: DeviceState) => state?.context.dfu ?? null;
+export const selectGattQueueDepth = (state: DeviceState) => state?.context.gattQueueDepth ?? 0;
+export const selectGattOperations = (state: DeviceState) =>
+  state?.context.gattOperations ?? NO_GATT_OPERATIONS;
+export const selectRssi = (state: DeviceState) => state?.context.rssi ?? null;
+export const selectRssiHistory = (state: DeviceState) =>
+  state?.context.rssiHistory ?? NO_RSSI_HISTORY;
+
+export const selectIsConnecting = (state: DeviceState) => {
+  if (state?.value === 'connecting') return true;
+  if (typeof state?.value === 'object' && state.value !== null) {
+    return 'connecting' in state.value;
+  }
+  return false;
+};
+
+export const selectIsReconnecting = (state: DeviceState) => {
+  if (state?.value === 'reconnecting') return true;
+  if (typeof state?.value === 'object' && state.value !== null) {
+    return 'reconnecting' in state.value;
+  }
+  return false;
+};
+
+export const selectIsUpdating = (state: DeviceState) => {
+  if (typeof state?.value === 'object' && state.value !== null) {
+    return 'updating' in state.value;
+  }
+  return false;
+};
+
+export const selectIsConnected = (state: DeviceState) => {
+  if (state?.value === 'connected') return true;
+  if (typeof state?.value === 'object' && state.value !== null) {
     return 'connected' in state.value;
   }
   return false;
 };
 
-export const selectIsDisconnecting = (state: { value: unknown }) => {
-  if (typeof state.value === 'object' && state.value !== null) {
+export const selectIsDisconnecting = (state: DeviceState) => {
+  if (typeof state?.value === 'object' && state.value !== null) {
     const connected = (state.value as Record<string, unknown>).connected;
     return connected === 'disconnecting';
   }
   return false;
 };
 
-export const selectCurrentState = (state: { value: unknown }) => {
-  if (typeof state.value === 'string') return state.value;
-  if (typeof state.value === 'object' && state.value !== null) {
-    const keys = Object.keys(state.value);
-    return keys[0] || 'unknown';
+export const selectDeviceStatus = (state: DeviceState) => {
+  return state ? selectCurrentState(state) : 'closed';
+};
+
+export const selectIsGattBusy = (state: DeviceState) => {
+  if (typeof state?.value === 'object' && state.value !== null) {
+    const connected = (state.value as Record<string, unknown>).connected;
+    return (
+      connected === 'readingCharacteristic' ||
+      connected === 'writingCharacteristic' ||
+      connected === 'settingNotification'
+    );
   }
-  return 'unknown';
-};
\ No newline at end of file
+  return false;
+};
+
+// The UART terminal only runs while the device is connected
+export const selectTerminal = (state: DeviceState) =>
+  state?.children.terminal as TerminalActorRef | undefined;
+
+// Terminal selectors - take a UART terminal snapshot (undefined while not connected)
+type TerminalState = { context: TerminalContext; value: unknown } | undefined;
+
+const NO_LINES: TerminalContext['lines'] = [];
+const NO_HISTORY: TerminalContext['history'] = [];
+
+export const selectTerminalLines = (state: TerminalState) => state?.context.lines ?? NO_LINES;
+export const selectTerminalPartial = (state: TerminalState) => state?.context.partial ?? '';
+export const selectTerminalHistory = (state: TerminalState) =>
+  state?.context.history ?? NO_HISTORY;
+export const selectTerminalLineEnding = (state: TerminalState) =>
+  state?.context.lineEnding ?? 'lf';
+export const selectTerminalError = (state: TerminalState) => state?.context.error ?? null;
+
+export const selectTerminalStatus = (state: TerminalState) => {
+  return state ? selectCurrentState(state) : 'closed';
+};
+
+export const selectIsTerminalSending = (state: TerminalState) => {
+  if (typeof state?.value === 'object' && state.value !== null) {
+    return (state.value as Record<string, unknown>).open === 'sending';
+  }
+  return false;
+};
+
+// Permission selectors - take a permissions snapshot (undefined outside the permissions state)
+type PermissionsState = { context: PermissionsContext; value: unknown } | undefined;
+
+export const selectPermissionStatus = (state: PermissionsState) => state?.context.status ?? null;
+export const selectPermissionError = (state: PermissionsState) => state?.context.error ?? null;
+
+// checking, rationale, requesting, denied, blocked or granted - null when no flow is running
+export const selectPermissionStep = (state: PermissionsState) => {
+  return state ? selectCurrentState(state) : null;
+};
+
+export const selectIsOpeningSettings = (state: PermissionsState) => {
+  if (typeof state?.value === 'object' && state.value !== null) {
+    return (state.value as Record<string, unknown>).blocked === 'openingSettings';
+  }
+  return false;
+};
@@ -0,0 +1,252 @@
+import { ActorRefFrom, assertEvent, assign, setup } from 'xstate';
+import { NUS_SERVICE_UUID, NUS_TX_CHARACTERISTIC_UUID } from '../constants';
+import { utf8Codec } from '../profiles';
+import { bleManagerTransport } from '../transport';
+import { createTerminalActors } from './actors';
+import { DEFAULT_MTU } from './gatt';
+import { DEFAULT_BLE_TIMEOUTS } from './timeouts';
+import {
+  LineEnding,
+  TerminalContext,
+  TerminalEvent,
+  TerminalInput,
+  TerminalLine,
+} from './types';
+
+export type { LineEnding, TerminalContext, TerminalEvent, TerminalInput, TerminalLine };
+
+const MAX_LINES = 500;
+const MAX_HISTORY = 50;
+
+export const LINE_ENDINGS: Record<LineEnding, string> = {
+  none: '',
+  lf: '\n',
+  cr: '\r',
+  crlf: '\r\n',
+};
+
+/**
+ * Bytes written to RX for one terminal line
+ */
+export const encodeTerminalLine = (text: string, lineEnding: LineEnding) =>
+  utf8Codec.encode!(text + LINE_ENDINGS[lineEnding]);
+
+const appendLines = (
+  context: TerminalContext,
+  direction: TerminalLine['direction'],
+  texts: string[]
+) => {
+  const timestamp = Date.now();
+  const added = texts.map((text, index) => ({
+    id: context.nextLineId + index,
+    direction,
+    text,
+    timestamp,
+  }));
+  return {
+    lines: [...context.lines, ...added].slice(-MAX_LINES),
+    nextLineId: context.nextLineId + added.length,
+  };
+};
+
+// Bytes at the end that start a UTF-8 character the rest of which has not arrived yet
+const incompleteUtf8Tail = (bytes: number[]) => {
+  for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+    const byte = bytes[bytes.length - back];
+    if ((byte & 0xc0) === 0x80) continue;
+    // A lead byte announces the character's length: 110xxxxx 2, 1110xxxx 3, 11110xxx 4
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return length > back ? back : 0;
+  }
+  return 0;
+};
+
+// Nordic UART terminal - invoked by deviceMachine while connected, alongside the profile controls
+export const terminalMachine = setup({
+  types: {
+    context: {} as TerminalContext,
+    events: {} as TerminalEvent,
+    input: {} as TerminalInput,
+  },
+  // Defaults to react-native-ble-manager; createBleActors(transport) overrides it
+  actors: createTerminalActors(bleManagerTransport),
+  actions: {
+    setError: assign({
+      error: (_, params: { message: string }) => params.message,
+    }),
+    clearError: assign({ error: null }),
+    // Received text is split into lines; an unterminated tail waits for the next notification,
+    // and so do the first bytes of a character split across notifications
+    appendReceived: assign(({ context }, params: { value: number[] }) => {
+      const bytes = [...context.partialBytes, ...params.value];
+      const complete = bytes.length - incompleteUtf8Tail(bytes);
+      const parts = (context.partial + utf8Codec.decode(bytes.slice(0, complete))).split(/\r?\n/);
+      const partial = parts.pop() ?? '';
+      return { ...appendLines(context, 'rx', parts), partial, partialBytes: bytes.slice(complete) };
+    }),
+    recordSent: assign(({ context }, params: { text: string }) => ({
+      ...appendLines(context, 'tx', [params.text]),
+      history:
+        context.history[context.history.length - 1] === params.text
+          ? context.history
+          : [...context.history, params.text].slice(-MAX_HISTORY),
+    })),
+    setLineEnding: assign({
+      lineEnding: (_, params: { lineEnding: LineEnding }) => params.lineEnding,
+    }),
+    clearScrollback: assign({ lines: [], partial: '', partialBytes: [] }),
+  },
+  guards: {
+    hasPayload: ({ context, event }) =>
+      event.type === 'SEND_TERMINAL' &&
+      encodeTerminalLine(event.text, context.lineEnding).length > 0,
+  },
+}).createMachine({
+  id: 'terminal',
+  initial: 'closed',
+  context: ({ input }) => ({
+    deviceId: input.deviceId,
+    mtu: input.mtu ?? DEFAULT_MTU,
+    timeouts: input.timeouts ?? DEFAULT_BLE_TIMEOUTS,
+    lineEnding: 'lf',
+    lines: [],
+    partial: '',
+    partialBytes: [],
+    history: [],
+    nextLineId: 0,
+    error: null,
+  }),
+  on: {
+    SET_LINE_ENDING: {
+      actions: [
+        {
+          type: 'setLineEnding',
+          params: ({ event }) => event,
+        },
+      ],
+    },
+    CLEAR_TERMINAL: {
+      actions: ['clearScrollback'],
+    },
+  },
+  states: {
+    // Closed - TX notifications are off
+    closed: {
+      on: {
+        OPEN_TERMINAL: {
+          target: 'opening',
+          actions: ['clearError'],
+        },
+      },
+    },
+
+    // Opening - subscribe to TX
+    opening: {
+      invoke: {
+        src: 'setNotification',
+        input: ({ context }) => ({
+          deviceId: context.deviceId,
+          service: NUS_SERVICE_UUID,
+          characteristic: NUS_TX_CHARACTERISTIC_UUID,
+          enabled: true,
+          timeout: context.timeouts.notification,
+        }),
+        onDone: 'open',
+        onError: {
+          target: 'closed',
+          actions: [
+            {
+              type: 'setError',
+              params: ({ event }) => ({
+                message: (event.error as Error)?.message || 'Could not open terminal',
+              }),
+            },
+          ],
+        },
+      },
+    },
+
+    // Open - receive TX notifications and send lines to RX
+    open: {
+      invoke: {
+        src: 'terminalListener',
+        input: ({ context }) => ({ deviceId: context.deviceId }),
+      },
+      on: {
+        TERMINAL_DATA: {
+          actions: [
+            {
+              type: 'appendReceived',
+              params: ({ event }) => event,
+            },
+          ],
+        },
+        CLOSE_TERMINAL: {
+          target: 'closing',
+        },
+      },
+      initial: 'idle',
+      states: {
+        idle: {
+          on: {
+            SEND_TERMINAL: {
+              guard: 'hasPayload',
+              target: 'sending',
+              actions: [
+                'clearError',
+                {
+                  type: 'recordSent',
+                  params: ({ event }) => event,
+                },
+              ],
+            },
+          },
+        },
+        sending: {
+          invoke: {
+            src: 'writeTerminal',
+            input: ({ context, event }) => {
+              assertEvent(event, 'SEND_TERMINAL');
+              return {
+                deviceId: context.deviceId,
+                value: encodeTerminalLine(event.text, context.lineEnding),
+                mtu: context.mtu,
+                timeout: context.timeouts.write,
+              };
+            },
+            onDone: 'idle',
+            onError: {
+              target: 'idle',
+              actions: [
+                {
+                  type: 'setError',
+                  params: ({ event }) => ({
+                    message: (event.error as Error)?.message || 'Send failed',
+                  }),
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+
+    // Closing - unsubscribe from TX; the connection stays up either way
+    closing: {
+      invoke: {
+        src: 'setNotification',
+        input: ({ context }) => ({
+          deviceId: context.deviceId,
+          service: NUS_SERVICE_UUID,
+          characteristic: NUS_TX_CHARACTERISTIC_UUID,
+          enabled: false,
+          timeout: context.timeouts.notification,
+        }),
+        onDone: 'closed',
+        onError: 'closed',
+      },
+    },
+  },
+});
+
+export type TerminalActorRef = ActorRefFrom<typeof terminalMachine>;
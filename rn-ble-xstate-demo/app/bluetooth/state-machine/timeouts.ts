@@ -0,0 +1,40 @@
+import { BleTimeouts } from './types';
+
+export const DEFAULT_BLE_TIMEOUTS: BleTimeouts = {
+  permissions: 10000,
+  initialize: 30000,
+  scan: 5000,
+  connect: 10000,
+  discovery: 10000,
+  mtu: 5000,
+  notification: 5000,
+  read: 5000,
+  write: 5000,
+};
+
+export type BleTimeoutPhase = keyof BleTimeouts;
+
+const PHASE_LABELS: Record<BleTimeoutPhase, string> = {
+  permissions: 'Permission check',
+  initialize: 'Bluetooth initialization',
+  scan: 'Scan start',
+  connect: 'Connect',
+  discovery: 'Service discovery',
+  mtu: 'MTU negotiation',
+  notification: 'Notification setup',
+  read: 'Read',
+  write: 'Write',
+};
+
+/**
+ * A BLE phase that did not finish within its configured timeout
+ */
+export class BleTimeoutError extends Error {
+  constructor(
+    readonly phase: BleTimeoutPhase,
+    readonly timeout: number
+  ) {
+    super(`${PHASE_LABELS[phase]} timed out after ${timeout} ms`);
+    this.name = 'BleTimeoutError';
+  }
+}
@@ -1,14 +1,76 @@
 import { Peripheral } from 'react-native-ble-manager';
+import { ProfileValues } from '../../profiles';
+import { BleAdapterState } from '../../transport';
+import type { DeviceActorRef } from '../device-machine';
+import {
+  BleTimeouts,
+  DiscoveryPolicy,
+  GattQueuePolicy,
+  ReconnectPolicy,
+  RssiPolicy,
+  ScanSettings,
+} from './bleMachineInput';
+
+/**
+ * A peripheral found while scanning, with what the scan has seen of it so far
+ */
+export interface DiscoveredDevice extends Peripheral {
+  /** Time of the first and latest advertisement, in ms since the epoch */
+  firstSeen: number;
+  lastSeen: number;
+  advertisementCount: number;
+  /** RSSI smoothed across advertisements, in dBm */
+  smoothedRssi: number;
+}
+
+/**
+ * A device the app has connected to before, with the user's preferences for it
+ */
+export interface KnownDevice {
+  id: string;
+  /** Advertised name at the last connection */
+  name: string | null;
+  /** Name the user gave the device */
+  nickname: string | null;
+  /** Time of the last successful connection, in ms since the epoch */
+  lastConnected: number | null;
+  connectionCount: number;
+  favourite: boolean;
+  /** Connect to it on START instead of scanning */
+  autoConnect: boolean;
+}
+
+/**
+ * What the machine was doing before Bluetooth went away - resumed when it comes back on
+ */
+export type BleActivity = 'init' | 'scanning' | 'scanComplete' | 'ready';
 
 /**
  * BLE machine context - holds all state data
  */
 export interface BleContext {
-  deviceId: string | null;
-  deviceName: string | null;
-  buttonState: boolean | null;
-  ledState: boolean;
   error: string | null;
-  discoveredDevices: Peripheral[];
+  /** Devices found by the current or last scan, in order of discovery */
+  discoveredDevices: DiscoveredDevice[];
+  reconnectPolicy: ReconnectPolicy;
+  gattQueuePolicy: GattQueuePolicy;
+  timeouts: BleTimeouts;
+  rssiPolicy: RssiPolicy;
+  scanSettings: ScanSettings;
+  discoveryPolicy: DiscoveryPolicy;
+  /** ATT MTU requested for every connection */
+  requestedMtu: number;
+  /** One connection actor per device, keyed by device id */
+  devices: Record<string, DeviceActorRef>;
+  /** Latest state the adapter reported */
+  adapterState: BleAdapterState;
+  activity: BleActivity;
+  /** Devices connected before, loaded at init and saved on every change */
+  knownDevices: KnownDevice[];
+  /** Most known devices connected on START */
+  autoConnectLimit: number;
+  /** Profile values per device from before the app restarted, handed to its next connection */
+  lastValues: Record<string, ProfileValues>;
+  /** Devices whose connections were stopped when Bluetooth went away, reconnected when it returns */
+  suspendedDevices: { id: string; name: string | null }[];
 }
-
@@ -1,17 +1,75 @@
 import { Peripheral } from 'react-native-ble-manager';
+import { DfuPackage } from '../../dfu';
+import { BleAdapterState } from '../../transport';
+import { GattPriority, ScanSettings } from './bleMachineInput';
+import { LineEnding } from './terminal';
 
 /**
  * BLE machine events - all possible events the machine can receive
  */
 export type BleEvent =
   | { type: 'START' }
+  | { type: 'REQUEST_PERMISSIONS' }
+  | { type: 'OPEN_SETTINGS' }
+  | { type: 'CHECK_PERMISSIONS' }
   | { type: 'SCAN' }
+  | { type: 'STOP_SCAN' }
+  | { type: 'SCAN_STOPPED' }
+  | { type: 'SET_SCAN_SETTINGS'; settings: Partial<ScanSettings> }
   | { type: 'SELECT_DEVICE'; deviceId: string; deviceName?: string }
-  | { type: 'DISCONNECT' }
-  | { type: 'CONNECTION_LOST'; reason?: string }
+  | { type: 'DISCONNECT'; deviceId: string }
+  | { type: 'CANCEL'; deviceId: string }
   | { type: 'DEVICE_DISCOVERED'; peripheral: Peripheral }
-  | { type: 'BUTTON_STATE_CHANGED'; value: boolean }
-  | { type: 'TOGGLE_LED' }
-  | { type: 'READ_BUTTON' }
-  | { type: 'CLEAR_STORED_DEVICE' };
-
+  | { type: 'PRUNE_DISCOVERED' }
+  | { type: 'ADAPTER_STATE_CHANGED'; state: BleAdapterState }
+  | {
+      type: 'READ_VALUE';
+      deviceId: string;
+      profileId: string;
+      key: string;
+      priority?: GattPriority;
+    }
+  | {
+      type: 'WRITE_VALUE';
+      deviceId: string;
+      profileId: string;
+      key: string;
+      value: unknown;
+      priority?: GattPriority;
+    }
+  | { type: 'RETRY_OPERATION'; deviceId: string }
+  | { type: 'CANCEL_OPERATION'; deviceId: string; operationId: number }
+  | { type: 'READ_CHARACTERISTIC'; deviceId: string; service: string; characteristic: string }
+  | {
+      type: 'WRITE_CHARACTERISTIC';
+      deviceId: string;
+      service: string;
+      characteristic: string;
+      value: number[];
+      withoutResponse?: boolean;
+    }
+  | {
+      type: 'SET_NOTIFICATION';
+      deviceId: string;
+      service: string;
+      characteristic: string;
+      enabled: boolean;
+    }
+  | { type: 'OPEN_TERMINAL'; deviceId: string }
+  | { type: 'CLOSE_TERMINAL'; deviceId: string }
+  | { type: 'SEND_TERMINAL'; deviceId: string; text: string }
+  | { type: 'SET_LINE_ENDING'; deviceId: string; lineEnding: LineEnding }
+  | { type: 'CLEAR_TERMINAL'; deviceId: string }
+  | { type: 'START_DFU'; deviceId: string; dfuPackage: DfuPackage }
+  | { type: 'CANCEL_DFU'; deviceId: string }
+  | { type: 'RESUME_DFU'; deviceId: string }
+  | { type: 'DEVICE_CONNECTED'; deviceId: string; deviceName: string | null }
+  | { type: 'DEVICE_CLOSED'; deviceId: string; error: string | null }
+  | { type: 'RENAME_KNOWN_DEVICE'; deviceId: string; nickname: string | null }
+  | { type: 'SET_FAVOURITE'; deviceId: string; favourite: boolean }
+  | { type: 'SET_AUTO_CONNECT'; deviceId: string; autoConnect: boolean }
+  | { type: 'FORGET_KNOWN_DEVICE'; deviceId: string }
+  // Forgets every known device - the UI confirms first
+  | { type: 'CLEAR_KNOWN_DEVICES' }
+  // Saving or loading persisted data failed - shown like any other error
+  | { type: 'STORAGE_FAILED'; error: string };
@@ -0,0 +1,115 @@
+import { BleScanMatchMode, BleScanMode } from '../../transport';
+
+/**
+ * Backoff policy for reconnecting after an unexpected disconnect
+ */
+export interface ReconnectPolicy {
+  /** Attempts before giving up and falling back to scanning */
+  maxAttempts: number;
+  /** Delay before the first attempt, in ms */
+  initialDelay: number;
+  /** Upper bound for any single delay, in ms */
+  maxDelay: number;
+  /** Growth factor applied per attempt */
+  multiplier: number;
+  /** Random spread applied to each delay, 0 (none) to 1 (±100%) */
+  jitter: number;
+}
+
+export type GattPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Time allowed for each phase of BLE work, in ms - a phase that runs longer fails with a
+ * BleTimeoutError naming it
+ */
+export interface BleTimeouts {
+  /** Reading the permission status - a prompt waits for the user as long as it takes */
+  permissions: number;
+  /** BLE start and adapter check */
+  initialize: number;
+  /** Starting a scan */
+  scan: number;
+  connect: number;
+  discovery: number;
+  /** MTU request - the connection carries on with the default MTU when it runs out */
+  mtu: number;
+  notification: number;
+  /** One read attempt, or all initial reads on connect */
+  read: number;
+  /** One write attempt */
+  write: number;
+}
+
+/**
+ * Retries for a device's GATT operation queue - attempt timeouts come from BleTimeouts
+ */
+export interface GattQueuePolicy {
+  /** Extra attempts for a failed or timed out read */
+  readRetries: number;
+  /** Extra attempts for a failed or timed out write */
+  writeRetries: number;
+  /** Delay between attempts, in ms */
+  retryDelay: number;
+}
+
+export type RssiSmoothing = 'none' | 'movingAverage' | 'kalman';
+
+/**
+ * Signal strength polling while connected
+ */
+export interface RssiPolicy {
+  /** Time between readRSSI calls, in ms - 0 turns polling off */
+  interval: number;
+  smoothing: RssiSmoothing;
+  /** Samples averaged by movingAverage smoothing */
+  window: number;
+  /** Samples kept in the device's rssiHistory */
+  historySize: number;
+}
+
+/**
+ * Bookkeeping for the discovered-device list while scanning
+ */
+export interface DiscoveryPolicy {
+  /**
+   * Drop devices not heard from for this long, in ms - 0 keeps them until the next scan. Only
+   * applies when scanning with allowDuplicates, the only way lastSeen keeps updating.
+   */
+  staleAfter: number;
+  /** Time between stale checks, in ms */
+  pruneInterval: number;
+  /** Weight of each new reading in smoothedRssi, 0 to 1 (1 = no smoothing) */
+  rssiSmoothing: number;
+}
+
+/**
+ * How the machine scans - changes apply from the next scan
+ */
+export interface ScanSettings {
+  /** Scan length in seconds - 0 scans until STOP_SCAN */
+  duration: number;
+  /** Report every advertisement, not just the first per device */
+  allowDuplicates: boolean;
+  /** Only report devices advertising a registered profile's service */
+  filterByProfiles: boolean;
+  /** Android duty cycle - ignored on iOS */
+  scanMode: BleScanMode;
+  /** Android match mode - ignored on iOS */
+  matchMode: BleScanMatchMode;
+}
+
+/**
+ * BLE machine input - optional configuration passed to createActor
+ */
+export interface BleMachineInput {
+  reconnectPolicy?: Partial<ReconnectPolicy>;
+  gattQueuePolicy?: Partial<GattQueuePolicy>;
+  timeouts?: Partial<BleTimeouts>;
+  rssiPolicy?: Partial<RssiPolicy>;
+  scanSettings?: Partial<ScanSettings>;
+  discoveryPolicy?: Partial<DiscoveryPolicy>;
+  /** Most known devices to connect on START - defaults to DEFAULT_AUTO_CONNECT_LIMIT */
+  autoConnectLimit?: number;
+  /** ATT MTU to request after connecting - defaults to DEFAULT_REQUESTED_MTU */
+  mtu?: number;
+}
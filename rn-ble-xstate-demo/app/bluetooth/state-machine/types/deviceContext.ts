@@ -0,0 +1,111 @@
+import { DfuPackage, DfuStage } from '../../dfu';
+import { ProfileValues } from '../../profiles';
+import { BleTimeouts, GattQueuePolicy, ReconnectPolicy, RssiPolicy } from './bleMachineInput';
+import { GattOperation, GattService } from './gatt';
+
+/**
+ * Firmware update in progress (or last finished) on one device
+ */
+export interface DfuState {
+  dfuPackage: DfuPackage;
+  /** Id the bootloader was found under - may differ from the application's */
+  bootloaderId: string | null;
+  stage: DfuStage;
+  /** Firmware bytes confirmed by the bootloader */
+  sentBytes: number;
+  totalBytes: number;
+  error: string | null;
+}
+
+/**
+ * Last profile read or write that failed without dropping the connection
+ */
+export interface OperationError {
+  operation: 'read' | 'write';
+  profileId: string;
+  key: string;
+  /** Value the failed write tried to set */
+  value?: unknown;
+  error: string;
+}
+
+/**
+ * One signal strength reading of a connected device
+ */
+export interface RssiSample {
+  /** Epoch ms */
+  time: number;
+  /** Reported RSSI, in dBm */
+  rssi: number;
+  /** RSSI after the policy's smoothing */
+  smoothed: number;
+}
+
+/**
+ * Device connection context - state of one connected peripheral
+ */
+export interface DeviceContext {
+  deviceId: string;
+  deviceName: string | null;
+  /** Ids of the profiles matched on connect */
+  profileIds: string[];
+  /** Decoded profile values - profile id → characteristic key → value */
+  values: ProfileValues;
+  /** True while values are the ones restored from before the restart - cleared on first read */
+  staleValues: boolean;
+  /** Stop the scan before connecting - cleared once connected, so reconnects leave scans alone */
+  stopScan: boolean;
+  /**
+   * Optimistic writes awaiting the device, keyed by `profileId.key` - the value to restore if
+   * one fails and how many writes of that value are still queued
+   */
+  pendingWrites: Record<string, { previous: unknown; count: number }>;
+  /** Last failed profile read/write - RETRY_OPERATION sends it again */
+  operationError: OperationError | null;
+  error: string | null;
+  reconnectPolicy: ReconnectPolicy;
+  gattQueuePolicy: GattQueuePolicy;
+  timeouts: BleTimeouts;
+  rssiPolicy: RssiPolicy;
+  requestedMtu: number;
+  /** ATT MTU negotiated on the last connect - DEFAULT_MTU until then */
+  mtu: number;
+  /** Latest smoothed RSSI while connected, in dBm - null before the first reading */
+  rssi: number | null;
+  /** Most recent readings, oldest first, at most rssiPolicy.historySize */
+  rssiHistory: RssiSample[];
+  /** GATT operations queued or running - the running one first */
+  gattOperations: GattOperation[];
+  /** Length of gattOperations */
+  gattQueueDepth: number;
+  /** Current reconnect attempt (0 when not reconnecting) */
+  reconnectAttempt: number;
+  /** Epoch ms of the next scheduled reconnect attempt */
+  nextReconnectAt: number | null;
+  /** GATT table discovered on the last successful connect */
+  services: GattService[];
+  /** Last known value per characteristic, keyed by characteristicKey() */
+  characteristicValues: Record<string, number[]>;
+  /** Characteristics with notifications enabled, keyed by characteristicKey() */
+  notifying: string[];
+  /** Last failed explorer operation - does not affect the connection */
+  gattError: string | null;
+  dfu: DfuState | null;
+}
+
+/**
+ * Device connection input - provided by bleMachine when spawning a connection
+ */
+export interface DeviceInput {
+  deviceId: string;
+  deviceName: string | null;
+  reconnectPolicy: ReconnectPolicy;
+  gattQueuePolicy: GattQueuePolicy;
+  timeouts: BleTimeouts;
+  rssiPolicy: RssiPolicy;
+  requestedMtu: number;
+  /** Values the device had before the app restarted - shown until the connection reads them */
+  values?: ProfileValues;
+  /** The user picked the device from a running scan - stop it before connecting */
+  stopScan?: boolean;
+}
@@ -0,0 +1,45 @@
+import { DfuPackage, DfuStage } from '../../dfu';
+import { GattPriority } from './bleMachineInput';
+import { RssiSample } from './deviceContext';
+import { GattOperation } from './gatt';
+import { LineEnding } from './terminal';
+
+/**
+ * Device connection events - everything one device connection actor can receive
+ */
+export type DeviceEvent =
+  | { type: 'DISCONNECT' }
+  | { type: 'CANCEL' }
+  | { type: 'SETUP_FAILED'; error: string }
+  | { type: 'CONNECTION_LOST'; reason?: string }
+  | { type: 'VALUE_CHANGED'; profileId: string; key: string; value: unknown }
+  | { type: 'READ_VALUE'; profileId: string; key: string; priority?: GattPriority }
+  | { type: 'WRITE_VALUE'; profileId: string; key: string; value: unknown; priority?: GattPriority }
+  | { type: 'VALUE_WRITTEN'; profileId: string; key: string }
+  | { type: 'VALUE_WRITE_FAILED'; profileId: string; key: string; value: unknown; error: string }
+  | { type: 'VALUE_READ_FAILED'; profileId: string; key: string; error: string }
+  | { type: 'RETRY_OPERATION' }
+  | { type: 'CANCEL_OPERATION'; operationId: number }
+  | { type: 'GATT_QUEUE_CHANGED'; operations: GattOperation[] }
+  | { type: 'RSSI_UPDATED'; sample: RssiSample }
+  | { type: 'CHARACTERISTIC_VALUE_CHANGED'; service: string; characteristic: string; value: number[] }
+  | { type: 'READ_CHARACTERISTIC'; service: string; characteristic: string }
+  | {
+      type: 'WRITE_CHARACTERISTIC';
+      service: string;
+      characteristic: string;
+      value: number[];
+      withoutResponse?: boolean;
+    }
+  | { type: 'SET_NOTIFICATION'; service: string; characteristic: string; enabled: boolean }
+  | { type: 'OPEN_TERMINAL' }
+  | { type: 'CLOSE_TERMINAL' }
+  | { type: 'SEND_TERMINAL'; text: string }
+  | { type: 'SET_LINE_ENDING'; lineEnding: LineEnding }
+  | { type: 'CLEAR_TERMINAL' }
+  | { type: 'START_DFU'; dfuPackage: DfuPackage }
+  | { type: 'CANCEL_DFU' }
+  | { type: 'RESUME_DFU' }
+  | { type: 'DFU_PROGRESS'; stage: DfuStage; sentBytes: number; totalBytes: number }
+  | { type: 'DFU_COMPLETE' }
+  | { type: 'DFU_FAILED'; error: string };
@@ -0,0 +1,51 @@
+import { GattPriority } from './bleMachineInput';
+
+/**
+ * Characteristic property as reported by retrieveServices
+ */
+export type GattProperty =
+  | 'Broadcast'
+  | 'Read'
+  | 'WriteWithoutResponse'
+  | 'Write'
+  | 'Notify'
+  | 'Indicate'
+  | 'AuthenticatedSignedWrites'
+  | 'ExtendedProperties'
+  | 'NotifyEncryptionRequired'
+  | 'IndicateEncryptionRequired';
+
+export interface GattDescriptor {
+  uuid: string;
+  /** Raw value as reported by the platform (base64 on most stacks) */
+  value: string | null;
+}
+
+export interface GattCharacteristic {
+  uuid: string;
+  properties: GattProperty[];
+  descriptors: GattDescriptor[];
+}
+
+/**
+ * One discovered service with its characteristics
+ */
+export interface GattService {
+  uuid: string;
+  characteristics: GattCharacteristic[];
+}
+
+/**
+ * A queued or running operation on a device's GATT queue
+ */
+export interface GattOperation {
+  id: number;
+  label: string;
+  priority: GattPriority;
+  running: boolean;
+}
+
+/**
+ * Input formats accepted by the GATT explorer
+ */
+export type GattValueFormat = 'hex' | 'utf8' | 'decimal';
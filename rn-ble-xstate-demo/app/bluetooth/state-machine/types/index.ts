@@ -1,3 +1,46 @@
-export { type BleContext } from './bleContext';
+export {
+  type BleActivity,
+  type BleContext,
+  type DiscoveredDevice,
+  type KnownDevice,
+} from './bleContext';
 export { type BleEvent } from './bleEvent';
-
+export {
+  type BleMachineInput,
+  type BleTimeouts,
+  type DiscoveryPolicy,
+  type GattPriority,
+  type GattQueuePolicy,
+  type ReconnectPolicy,
+  type RssiPolicy,
+  type RssiSmoothing,
+  type ScanSettings,
+} from './bleMachineInput';
+export {
+  type DeviceContext,
+  type DeviceInput,
+  type DfuState,
+  type OperationError,
+  type RssiSample,
+} from './deviceContext';
+export { type DeviceEvent } from './deviceEvent';
+export {
+  type GattCharacteristic,
+  type GattDescriptor,
+  type GattOperation,
+  type GattProperty,
+  type GattService,
+  type GattValueFormat,
+} from './gatt';
+export {
+  type PermissionsContext,
+  type PermissionsEvent,
+  type PermissionsInput,
+} from './permissions';
+export {
+  type LineEnding,
+  type TerminalContext,
+  type TerminalEvent,
+  type TerminalInput,
+  type TerminalLine,
+} from './terminal';
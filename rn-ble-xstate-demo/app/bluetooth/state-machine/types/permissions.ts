@@ -0,0 +1,25 @@
+import { PermissionStatus } from '../../permissions';
+
+/**
+ * Permissions context - the latest status the platform reported
+ */
+export interface PermissionsContext {
+  status: PermissionStatus;
+  error: string | null;
+  /** Time allowed for a check, in ms */
+  checkTimeout: number;
+}
+
+/**
+ * Permissions input - provided by bleMachine from its timeouts
+ */
+export interface PermissionsInput {
+  checkTimeout?: number;
+}
+
+/**
+ * Permissions events - CHECK_PERMISSIONS also comes from the foreground listener when the
+ * app returns from the settings page
+ */
+export type PermissionsEvent =
+  { type: 'REQUEST_PERMISSIONS' } | { type: 'OPEN_SETTINGS' } | { type: 'CHECK_PERMISSIONS' };
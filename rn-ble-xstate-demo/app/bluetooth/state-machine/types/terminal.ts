@@ -0,0 +1,56 @@
+import { BleTimeouts } from './bleMachineInput';
+
+/**
+ * Bytes appended to every line sent from the terminal
+ */
+export type LineEnding = 'none' | 'lf' | 'cr' | 'crlf';
+
+/**
+ * One scrollback line - rx lines come from the device, tx lines were sent by the user
+ */
+export interface TerminalLine {
+  id: number;
+  direction: 'rx' | 'tx';
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * Nordic UART terminal context - scrollback and send history of one connection
+ */
+export interface TerminalContext {
+  deviceId: string;
+  /** ATT MTU used to split outgoing lines into RX writes */
+  mtu: number;
+  timeouts: BleTimeouts;
+  lineEnding: LineEnding;
+  lines: TerminalLine[];
+  /** Received text not yet terminated by a newline */
+  partial: string;
+  /** Start of a UTF-8 character whose remaining bytes come in the next notification */
+  partialBytes: number[];
+  /** Sent lines, oldest first, without consecutive duplicates */
+  history: string[];
+  nextLineId: number;
+  error: string | null;
+}
+
+/**
+ * Nordic UART terminal events - TERMINAL_DATA comes from the TX listener, the rest from the UI
+ */
+export type TerminalEvent =
+  | { type: 'OPEN_TERMINAL' }
+  | { type: 'CLOSE_TERMINAL' }
+  | { type: 'SEND_TERMINAL'; text: string }
+  | { type: 'SET_LINE_ENDING'; lineEnding: LineEnding }
+  | { type: 'CLEAR_TERMINAL' }
+  | { type: 'TERMINAL_DATA'; value: number[] };
+
+/**
+ * Nordic UART terminal input - provided by deviceMachine when entering connected
+ */
+export interface TerminalInput {
+  deviceId: string;
+  mtu?: number;
+  timeouts?: BleTimeouts;
+}
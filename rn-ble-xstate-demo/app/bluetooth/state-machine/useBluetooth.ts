@@ -1,17 +1,142 @@
 import { useSelector } from '@xstate/react';
-import { createActor } from 'xstate';
+import { useEffect, useState } from 'react';
+import { Actor, createActor } from 'xstate';
+import {
+  createBatteryService,
+  createNusService,
+  createSimulatedHeartRatePeripheral,
+  createSimulatedLbsPeripheral,
+  createSimulatedTransport,
+} from '../transport';
+import { DfuPackage } from '../dfu';
+import { utf8Codec } from '../profiles';
+import { bleSnapshotStorage } from '../storage';
 import {
   bleMachine,
-
+  createBleActors,
 } from './ble-machine';
-import { selectButtonState, selectCurrentState, selectDeviceId, selectDeviceName, selectDiscoveredDevices, selectError, selectIsConnected, selectIsConnecting, selectIsIdle, selectIsScanning, selectLedState } from './selectors';
+import {
+  createSnapshotSaver,
+  PersistedBleSnapshot,
+  PersistedBleState,
+  pickPersistedState,
+  rehydrateBleSnapshot,
+  storageFailed,
+} from './persistence';
+import { LineEnding } from './terminal-machine';
+import { ScanSettings } from './types';
+import { selectGattOperations, selectGattQueueDepth, selectRssi, selectRssiHistory, selectDfu, selectIsUpdating, selectBatteryLevel, selectBodySensorLocation, selectDeviceInformation, selectCharacteristicValues, selectHeartRate, selectProfileIds, selectValues, selectHasStaleValues, selectPendingWrites, selectGattError, selectOperationError, selectIsGattBusy, selectNotifying, selectServices, selectCurrentState, selectDevice, selectDeviceError, selectDeviceName, selectDevices, selectDeviceStatus, selectDiscoveredDevices, selectError, selectIsConnected, selectIsConnecting, selectIsDisconnecting, selectIsIdle, selectIsReady, selectIsReconnecting, selectIsScanComplete, selectIsScanning, selectScanSettings, selectKnownDevices, selectAdapterState, selectBluetoothOffReason, selectIsOpeningSettings, selectIsRequestingPermissions, selectPermissionError, selectPermissions, selectPermissionStatus, selectPermissionStep, selectNextReconnectAt, selectReconnectAttempt, selectIsTerminalSending, selectTerminal, selectTerminalError, selectTerminalHistory, selectTerminalLineEnding, selectTerminalLines, selectTerminalPartial, selectTerminalStatus } from './selectors';
+
+// EXPO_PUBLIC_BLE_SIMULATOR=1 runs the app against in-memory LBS and heart rate peripherals
+function createSimulatedMachine() {
+  const name = utf8Codec.encode!('Simulated LBS');
+  const lbs = createSimulatedLbsPeripheral({
+    extraServices: [createBatteryService(76), createNusService()],
+    // Flags, complete local name, TX power 0 dBm and Nordic manufacturer data
+    advertisingData: [
+      ...[2, 0x01, 0x06],
+      ...[name.length + 1, 0x09, ...name],
+      ...[2, 0x0a, 0x00],
+      ...[5, 0xff, 0x59, 0x00, 0x01, 0x02],
+    ],
+  });
+  const strap = createSimulatedHeartRatePeripheral();
+  // Wander between -85 and -45 dBm so the signal sparkline has something to show
+  setInterval(() => {
+    lbs.rssi = Math.max(-85, Math.min(-45, lbs.rssi + Math.round(Math.random() * 8) - 4));
+  }, 1000);
+  // Drift around 70 BPM, one measurement per second like a real strap
+  setInterval(() => {
+    strap.emitMeasurement({
+      bpm: 65 + Math.round(Math.random() * 10),
+      sensorContact: true,
+      rrIntervals: [800 + Math.round(Math.random() * 100)],
+    });
+  }, 1000);
+
+  return bleMachine.provide({
+    actors: createBleActors(
+      createSimulatedTransport({
+        peripherals: [
+          lbs,
+          createSimulatedLbsPeripheral({ id: 'SIM-LBS-0002', name: 'Simulated LBS 2' }),
+          strap,
+        ],
+        latency: 200,
+      })
+    ),
+  });
+}
+
+const machine = process.env.EXPO_PUBLIC_BLE_SIMULATOR === '1' ? createSimulatedMachine() : bleMachine;
+
+// Singleton actor for the BLE state machine - started once the persisted snapshot is loaded
+let bleActor: Actor<typeof machine> | null = null;
+let rehydration: Promise<void> | null = null;
+
+function startBleActor(persisted: PersistedBleState | null) {
+  if (bleActor) return bleActor;
+
+  // Only the restorable part is saved - scrollback, RSSI history and firmware stay behind
+  const saveSnapshot = createSnapshotSaver(() => {
+    const actor = bleActor;
+    if (!actor) return;
+    bleSnapshotStorage
+      .save(pickPersistedState(actor.getSnapshot()))
+      .catch((error) => actor.send(storageFailed('save the app state', error)));
+  });
+  const initial = createActor(machine, { input: {} }).getPersistedSnapshot();
+  const rehydrated = persisted && rehydrateBleSnapshot(persisted, initial as PersistedBleSnapshot);
+
+  bleActor = createActor(machine, {
+    input: {},
+    snapshot: rehydrated?.snapshot,
+    inspect: saveSnapshot,
+  });
+  bleActor.start();
+  // Back through permissions and init - native connections did not survive the restart
+  if (rehydrated?.resume) {
+    bleActor.send({ type: 'START' });
+  }
+  return bleActor;
+}
+
+// Hooks used before rehydration start a fresh actor
+const getBleActor = () => bleActor ?? startBleActor(null);
+
+/**
+ * Loads the persisted state and starts the BLE actor from it - call before the first
+ * useBluetooth(); a failed load starts a fresh actor and reports it
+ */
+export function rehydrateBluetooth() {
+  rehydration ??= bleSnapshotStorage
+    .load()
+    .then(({ data }) => {
+      startBleActor(data);
+    })
+    .catch((error) => {
+      startBleActor(null).send(storageFailed('load the app state', error));
+    });
+  return rehydration;
+}
+
+/**
+ * False until rehydrateBluetooth() has started the BLE actor
+ */
+export function useBluetoothRehydrated() {
+  const [rehydrated, setRehydrated] = useState(bleActor !== null);
 
-// Create a singleton actor for the BLE state machine
-const bleActor = createActor(bleMachine);
-bleActor.start();
+  useEffect(() => {
+    rehydrateBluetooth().then(() => setRehydrated(true));
+  }, []);
+
+  return rehydrated;
+}
 
 export function useBluetooth() {
+  const bleActor = getBleActor();
   const send = bleActor.send;
+  const permissionsRef = useSelector(bleActor, selectPermissions);
 
   // BLE event listeners are now handled internally by the state machine
   // using fromCallback actors (scanListener, connectedListener)
@@ -20,24 +145,129 @@ export function useBluetooth() {
     // Actions
     start: () => send({ type: 'START' }),
     scan: () => send({ type: 'SCAN' }),
+    stopScan: () => send({ type: 'STOP_SCAN' }),
+    setScanSettings: (settings: Partial<ScanSettings>) =>
+      send({ type: 'SET_SCAN_SETTINGS', settings }),
     selectDevice: (deviceId: string, deviceName?: string) =>
       send({ type: 'SELECT_DEVICE', deviceId, deviceName }),
-    disconnect: () => send({ type: 'DISCONNECT' }),
-    toggleLed: () => send({ type: 'TOGGLE_LED' }),
-    readButton: () => send({ type: 'READ_BUTTON' }),
-    clearStoredDevice: () => send({ type: 'CLEAR_STORED_DEVICE' }),
+    disconnect: (deviceId: string) => send({ type: 'DISCONNECT', deviceId }),
+    cancelConnection: (deviceId: string) => send({ type: 'CANCEL', deviceId }),
+    readValue: (deviceId: string, profileId: string, key: string) =>
+      send({ type: 'READ_VALUE', deviceId, profileId, key }),
+    writeValue: (deviceId: string, profileId: string, key: string, value: unknown) =>
+      send({ type: 'WRITE_VALUE', deviceId, profileId, key, value }),
+    retryOperation: (deviceId: string) => send({ type: 'RETRY_OPERATION', deviceId }),
+    cancelOperation: (deviceId: string, operationId: number) =>
+      send({ type: 'CANCEL_OPERATION', deviceId, operationId }),
+    readCharacteristic: (deviceId: string, service: string, characteristic: string) =>
+      send({ type: 'READ_CHARACTERISTIC', deviceId, service, characteristic }),
+    writeCharacteristic: (
+      deviceId: string,
+      service: string,
+      characteristic: string,
+      value: number[],
+      withoutResponse?: boolean
+    ) =>
+      send({ type: 'WRITE_CHARACTERISTIC', deviceId, service, characteristic, value, withoutResponse }),
+    setNotification: (deviceId: string, service: string, characteristic: string, enabled: boolean) =>
+      send({ type: 'SET_NOTIFICATION', deviceId, service, characteristic, enabled }),
+    openTerminal: (deviceId: string) => send({ type: 'OPEN_TERMINAL', deviceId }),
+    closeTerminal: (deviceId: string) => send({ type: 'CLOSE_TERMINAL', deviceId }),
+    sendTerminal: (deviceId: string, text: string) =>
+      send({ type: 'SEND_TERMINAL', deviceId, text }),
+    setLineEnding: (deviceId: string, lineEnding: LineEnding) =>
+      send({ type: 'SET_LINE_ENDING', deviceId, lineEnding }),
+    clearTerminal: (deviceId: string) => send({ type: 'CLEAR_TERMINAL', deviceId }),
+    startDfu: (deviceId: string, dfuPackage: DfuPackage) =>
+      send({ type: 'START_DFU', deviceId, dfuPackage }),
+    cancelDfu: (deviceId: string) => send({ type: 'CANCEL_DFU', deviceId }),
+    resumeDfu: (deviceId: string) => send({ type: 'RESUME_DFU', deviceId }),
+    clearKnownDevices: () => send({ type: 'CLEAR_KNOWN_DEVICES' }),
+    renameKnownDevice: (deviceId: string, nickname: string | null) =>
+      send({ type: 'RENAME_KNOWN_DEVICE', deviceId, nickname }),
+    setFavourite: (deviceId: string, favourite: boolean) =>
+      send({ type: 'SET_FAVOURITE', deviceId, favourite }),
+    setAutoConnect: (deviceId: string, autoConnect: boolean) =>
+      send({ type: 'SET_AUTO_CONNECT', deviceId, autoConnect }),
+    forgetKnownDevice: (deviceId: string) => send({ type: 'FORGET_KNOWN_DEVICE', deviceId }),
+    requestPermissions: () => send({ type: 'REQUEST_PERMISSIONS' }),
+    openSettings: () => send({ type: 'OPEN_SETTINGS' }),
+    checkPermissions: () => send({ type: 'CHECK_PERMISSIONS' }),
 
     // Selectors
-    deviceId: useSelector(bleActor, selectDeviceId),
-    deviceName: useSelector(bleActor, selectDeviceName),
-    buttonState: useSelector(bleActor, selectButtonState),
-    ledState: useSelector(bleActor, selectLedState),
     error: useSelector(bleActor, selectError),
     discoveredDevices: useSelector(bleActor, selectDiscoveredDevices),
+    devices: useSelector(bleActor, selectDevices),
     isIdle: useSelector(bleActor, selectIsIdle),
     isScanning: useSelector(bleActor, selectIsScanning),
-    isConnecting: useSelector(bleActor, selectIsConnecting),
-    isConnected: useSelector(bleActor, selectIsConnected),
+    isScanComplete: useSelector(bleActor, selectIsScanComplete),
+    scanSettings: useSelector(bleActor, selectScanSettings),
+    knownDevices: useSelector(bleActor, selectKnownDevices),
+    isReady: useSelector(bleActor, selectIsReady),
+    adapterState: useSelector(bleActor, selectAdapterState),
+    bluetoothOffReason: useSelector(bleActor, selectBluetoothOffReason),
+    isRequestingPermissions: useSelector(bleActor, selectIsRequestingPermissions),
+    permissionStep: useSelector(permissionsRef, selectPermissionStep),
+    permissionStatus: useSelector(permissionsRef, selectPermissionStatus),
+    permissionError: useSelector(permissionsRef, selectPermissionError),
+    isOpeningSettings: useSelector(permissionsRef, selectIsOpeningSettings),
     currentState: useSelector(bleActor, selectCurrentState),
   };
 }
+
+/**
+ * Per-device state for one connection, addressed by device id
+ */
+export function useBleDevice(deviceId: string) {
+  const deviceRef = useSelector(getBleActor(), selectDevice(deviceId));
+
+  return {
+    deviceName: useSelector(deviceRef, selectDeviceName),
+    profileIds: useSelector(deviceRef, selectProfileIds),
+    values: useSelector(deviceRef, selectValues),
+    hasStaleValues: useSelector(deviceRef, selectHasStaleValues),
+    pendingWrites: useSelector(deviceRef, selectPendingWrites),
+    heartRate: useSelector(deviceRef, selectHeartRate),
+    bodySensorLocation: useSelector(deviceRef, selectBodySensorLocation),
+    batteryLevel: useSelector(deviceRef, selectBatteryLevel),
+    deviceInformation: useSelector(deviceRef, selectDeviceInformation),
+    error: useSelector(deviceRef, selectDeviceError),
+    status: useSelector(deviceRef, selectDeviceStatus),
+    isConnecting: useSelector(deviceRef, selectIsConnecting),
+    isConnected: useSelector(deviceRef, selectIsConnected),
+    isReconnecting: useSelector(deviceRef, selectIsReconnecting),
+    isDisconnecting: useSelector(deviceRef, selectIsDisconnecting),
+    reconnectAttempt: useSelector(deviceRef, selectReconnectAttempt),
+    nextReconnectAt: useSelector(deviceRef, selectNextReconnectAt),
+    services: useSelector(deviceRef, selectServices),
+    characteristicValues: useSelector(deviceRef, selectCharacteristicValues),
+    notifying: useSelector(deviceRef, selectNotifying),
+    gattError: useSelector(deviceRef, selectGattError),
+    operationError: useSelector(deviceRef, selectOperationError),
+    isGattBusy: useSelector(deviceRef, selectIsGattBusy),
+    dfu: useSelector(deviceRef, selectDfu),
+    isUpdating: useSelector(deviceRef, selectIsUpdating),
+    gattQueueDepth: useSelector(deviceRef, selectGattQueueDepth),
+    gattOperations: useSelector(deviceRef, selectGattOperations),
+    rssi: useSelector(deviceRef, selectRssi),
+    rssiHistory: useSelector(deviceRef, selectRssiHistory),
+  };
+}
+
+/**
+ * Nordic UART terminal of one connection - empty while the device is not connected
+ */
+export function useBleTerminal(deviceId: string) {
+  const deviceRef = useSelector(getBleActor(), selectDevice(deviceId));
+  const terminalRef = useSelector(deviceRef, selectTerminal);
+
+  return {
+    status: useSelector(terminalRef, selectTerminalStatus),
+    lines: useSelector(terminalRef, selectTerminalLines),
+    partial: useSelector(terminalRef, selectTerminalPartial),
+    history: useSelector(terminalRef, selectTerminalHistory),
+    lineEnding: useSelector(terminalRef, selectTerminalLineEnding),
+    error: useSelector(terminalRef, selectTerminalError),
+    isSending: useSelector(terminalRef, selectIsTerminalSending),
+  };
+}
@@ -0,0 +1,36 @@
+import { SNAPSHOT_KEY } from '../constants';
+import { PersistedBleState } from '../state-machine/persistence';
+import { StorageSchema } from './types';
+import { createVersionedStorage } from './versionedStorage';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The parts of a restorable context rehydration reads
+const isRestorableContext = (context: unknown) =>
+  isRecord(context) && Array.isArray(context.knownDevices) && isRecord(context.scanSettings);
+
+/**
+ * Saved bleMachine state - only the parts rehydration reads are checked
+ */
+export const validateBleSnapshot = (data: unknown): PersistedBleState | null => {
+  if (!isRecord(data) || typeof data.started !== 'boolean' || !isRestorableContext(data.context)) {
+    return null;
+  }
+  const context = data.context as PersistedBleState['context'];
+  return {
+    started: data.started,
+    context: { ...context, lastValues: isRecord(context.lastValues) ? context.lastValues : {} },
+  };
+};
+
+export const BLE_SNAPSHOT_SCHEMA: StorageSchema<PersistedBleState | null> = {
+  key: SNAPSHOT_KEY,
+  version: 1,
+  // First saved at version 1 - there is no older format to migrate
+  migrations: [],
+  validate: validateBleSnapshot,
+  fallback: null,
+};
+
+export const bleSnapshotStorage = createVersionedStorage(BLE_SNAPSHOT_SCHEMA);
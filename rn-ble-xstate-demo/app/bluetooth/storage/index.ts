@@ -0,0 +1,25 @@
+export {
+  type Migration,
+  type StorageLoadResult,
+  type StorageLoadStatus,
+  type StorageSchema,
+  type VersionedStorage,
+} from './types';
+export {
+  createVersionedStorage,
+  migrate,
+  readStored,
+  StorageMigrationError,
+} from './versionedStorage';
+export { BLE_SNAPSHOT_SCHEMA, bleSnapshotStorage, validateBleSnapshot } from './bleSnapshotStorage';
+export {
+  KNOWN_DEVICES_SCHEMA,
+  knownDevicesStorage,
+  migrateUnversionedDevices,
+  validateKnownDevices,
+} from './knownDevicesStorage';
+export {
+  PERMISSION_PROMPT_SCHEMA,
+  permissionPromptStorage,
+  validatePermissionPrompted,
+} from './permissionPromptStorage';
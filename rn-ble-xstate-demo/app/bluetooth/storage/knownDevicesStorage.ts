@@ -0,0 +1,67 @@
+import { KNOWN_DEVICES_KEY, STORAGE_KEY } from '../constants';
+import { createKnownDevice } from '../state-machine/knownDevices';
+import { KnownDevice } from '../state-machine/types';
+import { Migration, StorageSchema } from './types';
+import { createVersionedStorage } from './versionedStorage';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOrNull = (value: unknown) => (typeof value === 'string' ? value : null);
+
+/**
+ * v0 → v1: anything saved before versioning becomes a known-device list
+ * - a bare device id, the oldest format
+ * - { id, name } JSON, the single stored device
+ * - a known-device list saved without a version
+ */
+export const migrateUnversionedDevices: Migration = (data) => {
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'string') return data === '' ? [] : [createKnownDevice(data, null)];
+  if (isRecord(data) && typeof data.id === 'string') {
+    return [createKnownDevice(data.id, stringOrNull(data.name))];
+  }
+  return null;
+};
+
+// Fills missing or mistyped fields with a new device's defaults
+const validateKnownDevice = (value: unknown): KnownDevice | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || value.id === '') return null;
+  const defaults = createKnownDevice(value.id, stringOrNull(value.name));
+  return {
+    ...defaults,
+    nickname: stringOrNull(value.nickname),
+    lastConnected: typeof value.lastConnected === 'number' ? value.lastConnected : null,
+    connectionCount:
+      Number.isInteger(value.connectionCount) && (value.connectionCount as number) >= 0
+        ? (value.connectionCount as number)
+        : defaults.connectionCount,
+    favourite: typeof value.favourite === 'boolean' ? value.favourite : defaults.favourite,
+    autoConnect: typeof value.autoConnect === 'boolean' ? value.autoConnect : defaults.autoConnect,
+  };
+};
+
+/**
+ * A known-device list - malformed entries and repeated ids are dropped, the list itself must
+ * be an array
+ */
+export const validateKnownDevices = (data: unknown): KnownDevice[] | null => {
+  if (!Array.isArray(data)) return null;
+  return data
+    .map(validateKnownDevice)
+    .filter(
+      (device, index, devices): device is KnownDevice =>
+        device !== null && devices.findIndex((other) => other?.id === device.id) === index
+    );
+};
+
+export const KNOWN_DEVICES_SCHEMA: StorageSchema<KnownDevice[]> = {
+  key: KNOWN_DEVICES_KEY,
+  legacyKey: STORAGE_KEY,
+  version: 1,
+  migrations: [migrateUnversionedDevices],
+  validate: validateKnownDevices,
+  fallback: [],
+};
+
+export const knownDevicesStorage = createVersionedStorage(KNOWN_DEVICES_SCHEMA);
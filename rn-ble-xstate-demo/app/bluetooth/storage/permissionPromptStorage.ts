@@ -0,0 +1,19 @@
+import { PERMISSION_PROMPTED_KEY } from '../constants';
+import { StorageSchema } from './types';
+import { createVersionedStorage } from './versionedStorage';
+
+export const validatePermissionPrompted = (data: unknown): boolean | null =>
+  typeof data === 'boolean' ? data : null;
+
+/**
+ * Whether the iOS Bluetooth prompt has been shown - it was never saved without a version
+ */
+export const PERMISSION_PROMPT_SCHEMA: StorageSchema<boolean> = {
+  key: PERMISSION_PROMPTED_KEY,
+  version: 1,
+  migrations: [() => null],
+  validate: validatePermissionPrompted,
+  fallback: false,
+};
+
+export const permissionPromptStorage = createVersionedStorage(PERMISSION_PROMPT_SCHEMA);
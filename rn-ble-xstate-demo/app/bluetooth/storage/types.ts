@@ -0,0 +1,48 @@
+/**
+ * Upgrades data saved by one schema version to the next
+ */
+export type Migration = (data: unknown) => unknown;
+
+/**
+ * A value persisted under one AsyncStorage key
+ */
+export interface StorageSchema<T> {
+  key: string;
+  /** Key the value lived under before this schema - read as version 0 when key is empty */
+  legacyKey?: string;
+  /** Current version - data is saved as { version, data } */
+  version: number;
+  /** migrations[n] turns version n data into version n + 1, so there is one per version */
+  migrations: Migration[];
+  /** Checks migrated data and returns it cleaned up, or null when it is unusable */
+  validate: (data: unknown) => T | null;
+  /** Used when nothing is stored or what is stored cannot be recovered */
+  fallback: T;
+}
+
+/**
+ * How a load went
+ * - empty: nothing stored, fallback returned
+ * - loaded: stored at the current version
+ * - migrated: stored at an older version, upgraded and saved back
+ * - recovered: not valid JSON - fallback returned and the value removed
+ * - ignored: from a newer version, or failed to migrate or validate - fallback returned and the
+ *   value left in place for a version that can read it
+ */
+export type StorageLoadStatus = 'empty' | 'loaded' | 'migrated' | 'recovered' | 'ignored';
+
+export interface StorageLoadResult<T> {
+  data: T;
+  status: StorageLoadStatus;
+  /** Version the stored data had, null when nothing or nothing readable was stored */
+  storedVersion: number | null;
+  /** Why the stored value was not used, for recovered and ignored loads */
+  error: string | null;
+}
+
+export interface VersionedStorage<T> {
+  load: () => Promise<StorageLoadResult<T>>;
+  save: (data: T) => Promise<void>;
+  /** Removes the value and its legacy key */
+  clear: () => Promise<void>;
+}
@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageLoadResult, StorageSchema, VersionedStorage } from './types';
+
+/**
+ * Stored data that cannot be brought to the current schema version
+ */
+export class StorageMigrationError extends Error {
+  constructor(
+    readonly key: string,
+    message: string
+  ) {
+    super(`${key}: ${message}`);
+    this.name = 'StorageMigrationError';
+  }
+}
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isInteger((value as StoredEnvelope).version) &&
+  'data' in value;
+
+// Values saved before versioning are JSON, or plain strings that never were
+const parseUnversioned = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Runs the migrations from version up to the schema's version and validates the result
+ */
+export function migrate<T>(schema: StorageSchema<T>, version: number, data: unknown): T {
+  if (version < 0 || version > schema.version) {
+    throw new StorageMigrationError(
+      schema.key,
+      `unsupported version ${version} (current is ${schema.version})`
+    );
+  }
+
+  const migrated = schema.migrations
+    .slice(version, schema.version)
+    .reduce((current, migration) => migration(current), data);
+  const valid = schema.validate(migrated);
+  if (valid === null) {
+    throw new StorageMigrationError(schema.key, `invalid data for version ${schema.version}`);
+  }
+  return valid;
+}
+
+/**
+ * Reads a stored value - the schema's key, else its legacy key. Anything that is not a
+ * { version, data } envelope was saved before versioning and counts as version 0.
+ */
+export function readStored<T>(
+  schema: StorageSchema<T>,
+  raw: string | null,
+  legacyRaw: string | null = null
+): StorageLoadResult<T> {
+  const stored = raw ?? legacyRaw;
+  if (stored === null) {
+    return { data: schema.fallback, status: 'empty', storedVersion: null, error: null };
+  }
+
+  let version = 0;
+  let data: unknown;
+  if (raw === null) {
+    data = parseUnversioned(stored);
+  } else {
+    try {
+      const value = JSON.parse(raw);
+      [version, data] = isEnvelope(value) ? [value.version, value.data] : [0, value];
+    } catch {
+      return {
+        data: schema.fallback,
+        status: 'recovered',
+        storedVersion: null,
+        error: `${schema.key}: unreadable JSON`,
+      };
+    }
+  }
+
+  try {
+    return {
+      data: migrate(schema, version, data),
+      status: version === schema.version ? 'loaded' : 'migrated',
+      storedVersion: version,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: schema.fallback,
+      status: 'ignored',
+      storedVersion: version,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * AsyncStorage-backed store for one schema - migrated values are saved back at the current
+ * version, corrupt ones are removed and ones it cannot read are left alone
+ */
+export function createVersionedStorage<T>(schema: StorageSchema<T>): VersionedStorage<T> {
+  const keys = schema.legacyKey ? [schema.key, schema.legacyKey] : [schema.key];
+
+  // Async so a value JSON cannot serialize rejects instead of throwing
+  const save = async (data: T) => {
+    await AsyncStorage.setItem(schema.key, JSON.stringify({ version: schema.version, data }));
+  };
+
+  const clear = () => AsyncStorage.multiRemove(keys);
+
+  return {
+    load: async () => {
+      const raw = await AsyncStorage.getItem(schema.key);
+      const legacyRaw =
+        raw === null && schema.legacyKey ? await AsyncStorage.getItem(schema.legacyKey) : null;
+      const result = readStored(schema, raw, legacyRaw);
+
+      if (result.status === 'migrated') {
+        await save(result.data);
+        if (schema.legacyKey) await AsyncStorage.removeItem(schema.legacyKey);
+      } else if (result.status === 'recovered') {
+        await clear();
+      }
+      return result;
+    },
+    save,
+    clear,
+  };
+}
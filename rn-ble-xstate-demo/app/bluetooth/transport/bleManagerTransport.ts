@@ -0,0 +1,65 @@
+import { Platform } from 'react-native';
+import BleManager, { ScanOptions } from 'react-native-ble-manager';
+import { BleAdapterState, BleScanMatchMode, BleScanMode, BleTransport } from './types';
+
+// Values of react-native-ble-manager's BleScanMode and BleScanMatchMode enums
+const SCAN_MODES: Record<BleScanMode, number> = {
+  opportunistic: -1,
+  lowPower: 0,
+  balanced: 1,
+  lowLatency: 2,
+};
+const MATCH_MODES: Record<BleScanMatchMode, number> = {
+  aggressive: 1,
+  sticky: 2,
+};
+
+/**
+ * Default transport - thin adapter over react-native-ble-manager
+ */
+export const bleManagerTransport: BleTransport = {
+  start: () => BleManager.start(),
+  checkState: async () => (await BleManager.checkState()) as BleAdapterState,
+  enableBluetooth: () => BleManager.enableBluetooth(),
+
+  scan: ({ scanMode, matchMode, ...options }) =>
+    BleManager.scan({
+      ...options,
+      scanMode: scanMode && SCAN_MODES[scanMode],
+      matchMode: matchMode && MATCH_MODES[matchMode],
+    } as ScanOptions),
+  stopScan: () => BleManager.stopScan(),
+
+  connect: (deviceId) => BleManager.connect(deviceId),
+  disconnect: (deviceId) => BleManager.disconnect(deviceId),
+  retrieveServices: (deviceId) => BleManager.retrieveServices(deviceId),
+  // iOS negotiates on its own - report what it settled on (payload + 3-byte ATT header)
+  requestMTU: async (deviceId, mtu) =>
+    Platform.OS === 'android'
+      ? BleManager.requestMTU(deviceId, mtu)
+      : (await BleManager.getMaximumWriteValueLengthForWithoutResponse(deviceId)) + 3,
+  readRSSI: (deviceId) => BleManager.readRSSI(deviceId),
+
+  read: (deviceId, serviceUUID, characteristicUUID) =>
+    BleManager.read(deviceId, serviceUUID, characteristicUUID),
+  // maxByteSize would split the value into separate writes - let the stack do a long write.
+  // An empty value still needs a chunk size of at least 1 byte
+  write: (deviceId, serviceUUID, characteristicUUID, data) =>
+    BleManager.write(deviceId, serviceUUID, characteristicUUID, data, Math.max(data.length, 1)),
+  writeWithoutResponse: (deviceId, serviceUUID, characteristicUUID, data) =>
+    BleManager.writeWithoutResponse(deviceId, serviceUUID, characteristicUUID, data),
+  startNotification: (deviceId, serviceUUID, characteristicUUID) =>
+    BleManager.startNotification(deviceId, serviceUUID, characteristicUUID),
+  stopNotification: (deviceId, serviceUUID, characteristicUUID) =>
+    BleManager.stopNotification(deviceId, serviceUUID, characteristicUUID),
+
+  onDiscoverPeripheral: (listener) => BleManager.onDiscoverPeripheral(listener),
+  onStopScan: (listener) => BleManager.onStopScan(() => listener()),
+  onDidUpdateState: (listener) =>
+    BleManager.onDidUpdateState(({ state }: { state: BleAdapterState }) => listener(state)),
+  onDisconnectPeripheral: (listener) =>
+    BleManager.onDisconnectPeripheral((data: { peripheral: string; status?: number }) =>
+      listener({ peripheral: data?.peripheral })
+    ),
+  onCharacteristicValue: (listener) => BleManager.onDidUpdateValueForCharacteristic(listener),
+};
@@ -0,0 +1,32 @@
+export {
+  type BleAdapterState,
+  type BleCharacteristicValue,
+  type BleDisconnectEvent,
+  type BleScanMatchMode,
+  type BleScanMode,
+  type BleScanOptions,
+  type BleSubscription,
+  type BleTransport,
+  type Peripheral,
+  type PeripheralInfo,
+} from './types';
+export { bleManagerTransport } from './bleManagerTransport';
+export {
+  createBatteryService,
+  createDeviceInformationService,
+  createNusService,
+  createSimulatedHeartRatePeripheral,
+  createSimulatedLbsPeripheral,
+  createSimulatedPeripheral,
+  type SimulatedHeartRatePeripheral,
+  type SimulatedCharacteristic,
+  type SimulatedLbsPeripheral,
+  type SimulatedPeripheral,
+  type SimulatedService,
+} from './simulatedPeripheral';
+export { createSimulatedTransport, type SimulatedTransport } from './simulatedTransport';
+export {
+  createButtonlessDfuService,
+  createSimulatedBootloader,
+  type SimulatedBootloader,
+} from './simulatedBootloader';
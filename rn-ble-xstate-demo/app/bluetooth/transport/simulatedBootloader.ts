@@ -0,0 +1,184 @@
+import {
+  BUTTONLESS_DFU_UUID,
+  DFU_CONTROL_POINT_UUID,
+  DFU_PACKET_UUID,
+  SECURE_DFU_SERVICE_UUID,
+} from '../constants';
+import {
+  BUTTONLESS_ENTER_BOOTLOADER,
+  BUTTONLESS_RESPONSE,
+  crc32,
+  DFU_BOOTLOADER_NAME,
+  DFU_OBJECT,
+  DFU_OP,
+  DFU_RESULT,
+  readUint32,
+  uint32,
+} from '../dfu';
+import { createSimulatedPeripheral, SimulatedPeripheral, SimulatedService } from './simulatedPeripheral';
+
+const MAX_COMMAND_OBJECT_SIZE = 256;
+const INSUFFICIENT_RESOURCES = 0x04;
+const INVALID_OBJECT = 0x05;
+
+/**
+ * Buttonless DFU service for a simulated application - `onEnterBootloader` runs after the
+ * central's request is acknowledged, typically dropping the link and adding a bootloader
+ */
+export const createButtonlessDfuService = (
+  onEnterBootloader: (peripheral: SimulatedPeripheral) => void
+): SimulatedService => ({
+  uuid: SECURE_DFU_SERVICE_UUID,
+  characteristics: [
+    {
+      uuid: BUTTONLESS_DFU_UUID,
+      properties: ['Write', 'Indicate'],
+      value: [],
+      onWrite: (data, peripheral) => {
+        if (data[0] !== BUTTONLESS_ENTER_BOOTLOADER) return;
+        peripheral.setValue(SECURE_DFU_SERVICE_UUID, BUTTONLESS_DFU_UUID, [
+          BUTTONLESS_RESPONSE,
+          BUTTONLESS_ENTER_BOOTLOADER,
+          DFU_RESULT.SUCCESS,
+        ]);
+        onEnterBootloader(peripheral);
+      },
+    },
+  ],
+});
+
+/**
+ * Simulated Nordic Secure DFU bootloader
+ */
+export interface SimulatedBootloader extends SimulatedPeripheral {
+  /** Executed init packet bytes */
+  readonly initPacket: number[];
+  /** Executed firmware bytes */
+  readonly firmware: number[];
+  /** Flips the bits of the next received packet so its object fails the CRC check */
+  corruptNextPacket: () => void;
+}
+
+export function createSimulatedBootloader(
+  options: { id?: string; name?: string; maxObjectSize?: number } = {}
+): SimulatedBootloader {
+  const maxDataSize = options.maxObjectSize ?? 4096;
+  const objects = {
+    [DFU_OBJECT.COMMAND]: { executed: [] as number[], current: [] as number[], size: 0 },
+    [DFU_OBJECT.DATA]: { executed: [] as number[], current: [] as number[], size: 0 },
+  };
+  let active: keyof typeof objects = DFU_OBJECT.COMMAND;
+  let prn = 0;
+  let packets = 0;
+  let corruptNext = false;
+
+  const received = () => [...objects[active].executed, ...objects[active].current];
+  const checksum = () => [...uint32(received().length), ...uint32(crc32(received()))];
+
+  const respond = (opcode: number, result: number, payload: number[] = []) =>
+    bootloader.setValue(SECURE_DFU_SERVICE_UUID, DFU_CONTROL_POINT_UUID, [
+      DFU_OP.RESPONSE,
+      opcode,
+      result,
+      ...payload,
+    ]);
+
+  const handleRequest = ([opcode, ...params]: number[]) => {
+    switch (opcode) {
+      case DFU_OP.SET_PRN:
+        prn = params[0] | (params[1] << 8);
+        return respond(opcode, DFU_RESULT.SUCCESS);
+      case DFU_OP.SELECT: {
+        const type = params[0];
+        if (type !== DFU_OBJECT.COMMAND && type !== DFU_OBJECT.DATA) {
+          return respond(opcode, INVALID_OBJECT);
+        }
+        active = type;
+        packets = 0;
+        const maxSize = type === DFU_OBJECT.COMMAND ? MAX_COMMAND_OBJECT_SIZE : maxDataSize;
+        return respond(opcode, DFU_RESULT.SUCCESS, [...uint32(maxSize), ...checksum()]);
+      }
+      case DFU_OP.CREATE: {
+        const type = params[0];
+        const size = readUint32(params, 1);
+        if (type !== DFU_OBJECT.COMMAND && type !== DFU_OBJECT.DATA) {
+          return respond(opcode, INVALID_OBJECT);
+        }
+        if (size > (type === DFU_OBJECT.COMMAND ? MAX_COMMAND_OBJECT_SIZE : maxDataSize)) {
+          return respond(opcode, INSUFFICIENT_RESOURCES);
+        }
+        // A new init packet starts the update over; a new data object drops any unexecuted one
+        if (type === DFU_OBJECT.COMMAND) {
+          objects[DFU_OBJECT.COMMAND].executed = [];
+          objects[DFU_OBJECT.DATA].executed = [];
+          objects[DFU_OBJECT.DATA].current = [];
+        }
+        active = type;
+        objects[type].current = [];
+        objects[type].size = size;
+        packets = 0;
+        return respond(opcode, DFU_RESULT.SUCCESS);
+      }
+      case DFU_OP.CALCULATE_CHECKSUM:
+        return respond(opcode, DFU_RESULT.SUCCESS, checksum());
+      case DFU_OP.EXECUTE: {
+        const object = objects[active];
+        if (object.size === 0 || object.current.length !== object.size) {
+          return respond(opcode, DFU_RESULT.OPERATION_NOT_PERMITTED);
+        }
+        object.executed = [...object.executed, ...object.current];
+        object.current = [];
+        object.size = 0;
+        return respond(opcode, DFU_RESULT.SUCCESS);
+      }
+      default:
+        return respond(opcode, 0x02);
+    }
+  };
+
+  const receivePacket = (data: number[]) => {
+    const bytes = corruptNext ? data.map((b) => b ^ 0xff) : data;
+    corruptNext = false;
+    objects[active].current = [...objects[active].current, ...bytes];
+    packets++;
+    if (prn > 0 && packets % prn === 0) {
+      respond(DFU_OP.CALCULATE_CHECKSUM, DFU_RESULT.SUCCESS, checksum());
+    }
+  };
+
+  const bootloader = createSimulatedPeripheral({
+    id: options.id ?? 'SIM-DFU-0001',
+    name: options.name ?? DFU_BOOTLOADER_NAME,
+    services: [
+      {
+        uuid: SECURE_DFU_SERVICE_UUID,
+        characteristics: [
+          {
+            uuid: DFU_CONTROL_POINT_UUID,
+            properties: ['Write', 'Notify'],
+            value: [],
+            onWrite: handleRequest,
+          },
+          {
+            uuid: DFU_PACKET_UUID,
+            properties: ['WriteWithoutResponse'],
+            value: [],
+            onWrite: receivePacket,
+          },
+        ],
+      },
+    ],
+  });
+
+  return Object.defineProperties(
+    Object.assign(bootloader, {
+      corruptNextPacket: () => {
+        corruptNext = true;
+      },
+    }),
+    {
+      initPacket: { get: () => objects[DFU_OBJECT.COMMAND].executed },
+      firmware: { get: () => objects[DFU_OBJECT.DATA].executed },
+    }
+  ) as SimulatedBootloader;
+}
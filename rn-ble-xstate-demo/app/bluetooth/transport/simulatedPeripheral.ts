@@ -0,0 +1,383 @@
+import { Characteristic } from 'react-native-ble-manager';
+import {
+  BUTTON_CHARACTERISTIC_UUID,
+  LBS_SERVICE_UUID,
+  LED_CHARACTERISTIC_UUID,
+  NUS_RX_CHARACTERISTIC_UUID,
+  NUS_SERVICE_UUID,
+  NUS_TX_CHARACTERISTIC_UUID,
+} from '../constants';
+import {
+  BATTERY_LEVEL_UUID,
+  BATTERY_SERVICE_UUID,
+  BODY_SENSOR_LOCATION_UUID,
+  BODY_SENSOR_LOCATIONS,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  DeviceInformation,
+  encodeHeartRateMeasurement,
+  FIRMWARE_REVISION_UUID,
+  HARDWARE_REVISION_UUID,
+  HEART_RATE_CONTROL_POINT_UUID,
+  HEART_RATE_MEASUREMENT_UUID,
+  HEART_RATE_SERVICE_UUID,
+  HeartRateMeasurement,
+  MANUFACTURER_NAME_UUID,
+  MODEL_NUMBER_UUID,
+  RESET_ENERGY_EXPENDED,
+  SERIAL_NUMBER_UUID,
+  utf8Codec,
+} from '../profiles';
+import { BleSubscription, PeripheralInfo } from './types';
+
+export type SimulatedCharacteristicProperty = keyof Characteristic['properties'];
+
+/**
+ * One characteristic in a simulated GATT table
+ */
+export interface SimulatedCharacteristic {
+  uuid: string;
+  properties: SimulatedCharacteristicProperty[];
+  value: number[];
+  descriptors?: { uuid: string; value: string }[];
+  /** Called after a central writes the characteristic */
+  onWrite?: (data: number[], peripheral: SimulatedPeripheral) => void;
+}
+
+/**
+ * One primary service in a simulated GATT table
+ */
+export interface SimulatedService {
+  uuid: string;
+  characteristics: SimulatedCharacteristic[];
+}
+
+export interface SimulatedValueChange {
+  service: string;
+  characteristic: string;
+  value: number[];
+}
+
+/**
+ * Scriptable in-memory peripheral - advertises, exposes a GATT table and
+ * pushes value changes to whoever is subscribed (normally a simulated transport)
+ */
+export interface SimulatedPeripheral {
+  id: string;
+  name: string;
+  /** Signal strength reported by scans and readRSSI, in dBm */
+  rssi: number;
+  advertisedServices: string[];
+  /** Raw advertising bytes (AD structures) reported with each discovery, if any */
+  advertisingData?: number[];
+  services: SimulatedService[];
+  /** Every write made by a central, in order */
+  writes: { service: string; characteristic: string; data: number[] }[];
+  getInfo: () => PeripheralInfo;
+  findCharacteristic: (serviceUUID: string, characteristicUUID: string) => SimulatedCharacteristic;
+  /** Updates a characteristic value and notifies subscribers */
+  setValue: (serviceUUID: string, characteristicUUID: string, value: number[]) => void;
+  /** Applies a central write (records it and runs onWrite) */
+  write: (serviceUUID: string, characteristicUUID: string, data: number[]) => void;
+  onValueChange: (listener: (change: SimulatedValueChange) => void) => BleSubscription;
+}
+
+export interface SimulatedPeripheralOptions {
+  id: string;
+  name?: string;
+  rssi?: number;
+  /** Service UUIDs included in the advertisement - defaults to every service */
+  advertisedServices?: string[];
+  /** Raw advertising bytes (AD structures) - only reported when given, as on Android */
+  advertisingData?: number[];
+  services: SimulatedService[];
+}
+
+export const sameUuid = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function createSimulatedPeripheral(options: SimulatedPeripheralOptions): SimulatedPeripheral {
+  const listeners = new Set<(change: SimulatedValueChange) => void>();
+
+  const peripheral: SimulatedPeripheral = {
+    id: options.id,
+    name: options.name ?? 'Simulated Peripheral',
+    rssi: options.rssi ?? -50,
+    advertisedServices: options.advertisedServices ?? options.services.map((s) => s.uuid),
+    advertisingData: options.advertisingData,
+    services: options.services,
+    writes: [],
+
+    getInfo: () => ({
+      id: peripheral.id,
+      name: peripheral.name,
+      rssi: peripheral.rssi,
+      advertising: {
+        isConnectable: true,
+        localName: peripheral.name,
+        serviceUUIDs: peripheral.advertisedServices,
+        ...(peripheral.advertisingData && {
+          rawData: {
+            CDVType: 'ArrayBuffer' as const,
+            bytes: peripheral.advertisingData,
+            data: btoa(String.fromCharCode(...peripheral.advertisingData)),
+          },
+        }),
+      },
+      services: peripheral.services.map((s) => ({ uuid: s.uuid })),
+      characteristics: peripheral.services.flatMap((s) =>
+        s.characteristics.map((c) => ({
+          service: s.uuid,
+          characteristic: c.uuid,
+          properties: Object.fromEntries(c.properties.map((p) => [p, p])),
+          descriptors: c.descriptors,
+        }))
+      ),
+    }),
+
+    findCharacteristic: (serviceUUID, characteristicUUID) => {
+      const service = peripheral.services.find((s) => sameUuid(s.uuid, serviceUUID));
+      const characteristic = service?.characteristics.find((c) =>
+        sameUuid(c.uuid, characteristicUUID)
+      );
+      if (!characteristic) {
+        throw new Error(`Characteristic ${characteristicUUID} not found`);
+      }
+      return characteristic;
+    },
+
+    setValue: (serviceUUID, characteristicUUID, value) => {
+      const characteristic = peripheral.findCharacteristic(serviceUUID, characteristicUUID);
+      characteristic.value = [...value];
+      listeners.forEach((listener) =>
+        listener({ service: serviceUUID, characteristic: characteristicUUID, value: [...value] })
+      );
+    },
+
+    write: (serviceUUID, characteristicUUID, data) => {
+      const characteristic = peripheral.findCharacteristic(serviceUUID, characteristicUUID);
+      peripheral.writes.push({
+        service: serviceUUID,
+        characteristic: characteristicUUID,
+        data: [...data],
+      });
+      characteristic.value = [...data];
+      characteristic.onWrite?.(data, peripheral);
+    },
+
+    onValueChange: (listener) => {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+  };
+
+  return peripheral;
+}
+
+/**
+ * Battery Service with a single level characteristic
+ */
+export const createBatteryService = (
+  level: number,
+  options: { notify?: boolean } = {}
+): SimulatedService => ({
+  uuid: BATTERY_SERVICE_UUID,
+  characteristics: [
+    {
+      uuid: BATTERY_LEVEL_UUID,
+      properties: options.notify === false ? ['Read'] : ['Read', 'Notify'],
+      value: [level],
+    },
+  ],
+});
+
+/**
+ * Device Information Service exposing only the strings provided
+ */
+export function createDeviceInformationService(info: DeviceInformation): SimulatedService {
+  const uuids: Record<keyof DeviceInformation, string> = {
+    manufacturer: MANUFACTURER_NAME_UUID,
+    model: MODEL_NUMBER_UUID,
+    serialNumber: SERIAL_NUMBER_UUID,
+    hardwareRevision: HARDWARE_REVISION_UUID,
+    firmwareRevision: FIRMWARE_REVISION_UUID,
+  };
+  return {
+    uuid: DEVICE_INFORMATION_SERVICE_UUID,
+    characteristics: (Object.keys(info) as (keyof DeviceInformation)[]).map((key) => ({
+      uuid: uuids[key],
+      properties: ['Read'],
+      value: utf8Codec.encode!(info[key] ?? ''),
+    })),
+  };
+}
+
+/**
+ * Nordic UART Service - every complete line written to RX is answered on TX
+ * (echoed back unless `respond` says otherwise)
+ */
+export function createNusService(
+  respond: (line: string) => string = (line) => `echo: ${line}`
+): SimulatedService {
+  let received = '';
+  return {
+    uuid: NUS_SERVICE_UUID,
+    characteristics: [
+      {
+        uuid: NUS_RX_CHARACTERISTIC_UUID,
+        properties: ['Write', 'WriteWithoutResponse'],
+        value: [],
+        onWrite: (data, peripheral) => {
+          const lines = (received + utf8Codec.decode(data)).split(/\r?\n/);
+          received = lines.pop() ?? '';
+          lines.forEach((line) =>
+            peripheral.setValue(
+              NUS_SERVICE_UUID,
+              NUS_TX_CHARACTERISTIC_UUID,
+              utf8Codec.encode!(`${respond(line)}\n`)
+            )
+          );
+        },
+      },
+      { uuid: NUS_TX_CHARACTERISTIC_UUID, properties: ['Notify'], value: [] },
+    ],
+  };
+}
+
+/**
+ * Simulated Nordic LED Button Service peripheral
+ */
+export interface SimulatedLbsPeripheral extends SimulatedPeripheral {
+  readonly buttonPressed: boolean;
+  readonly ledOn: boolean;
+  /** LED values written by the central, in order */
+  readonly ledWrites: boolean[];
+  pressButton: () => void;
+  releaseButton: () => void;
+}
+
+export function createSimulatedLbsPeripheral(
+  options: {
+    id?: string;
+    name?: string;
+    rssi?: number;
+    buttonPressed?: boolean;
+    ledOn?: boolean;
+    /** Additional services, e.g. createBatteryService() */
+    extraServices?: SimulatedService[];
+    advertisingData?: number[];
+  } = {}
+): SimulatedLbsPeripheral {
+  const base = createSimulatedPeripheral({
+    id: options.id ?? 'SIM-LBS-0001',
+    name: options.name ?? 'Simulated LBS',
+    rssi: options.rssi,
+    advertisingData: options.advertisingData,
+    services: [
+      {
+        uuid: LBS_SERVICE_UUID,
+        characteristics: [
+          {
+            uuid: BUTTON_CHARACTERISTIC_UUID,
+            properties: ['Read', 'Notify'],
+            value: [options.buttonPressed ? 1 : 0],
+          },
+          {
+            uuid: LED_CHARACTERISTIC_UUID,
+            properties: ['Read', 'Write'],
+            value: [options.ledOn ? 1 : 0],
+          },
+        ],
+      },
+      ...(options.extraServices ?? []),
+    ],
+    // Advertise LBS only, like the Nordic sample firmware
+    advertisedServices: [LBS_SERVICE_UUID],
+  });
+
+  const readBoolean = (uuid: string) => base.findCharacteristic(LBS_SERVICE_UUID, uuid).value[0] !== 0;
+
+  const lbs = Object.assign(base, {
+    pressButton: () => base.setValue(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID, [1]),
+    releaseButton: () => base.setValue(LBS_SERVICE_UUID, BUTTON_CHARACTERISTIC_UUID, [0]),
+  });
+
+  return Object.defineProperties(lbs, {
+    buttonPressed: { get: () => readBoolean(BUTTON_CHARACTERISTIC_UUID) },
+    ledOn: { get: () => readBoolean(LED_CHARACTERISTIC_UUID) },
+    ledWrites: {
+      get: () =>
+        base.writes
+          .filter((w) => sameUuid(w.characteristic, LED_CHARACTERISTIC_UUID))
+          .map((w) => w.data[0] !== 0),
+    },
+  }) as SimulatedLbsPeripheral;
+}
+
+/**
+ * Simulated Heart Rate Service strap
+ */
+export interface SimulatedHeartRatePeripheral extends SimulatedPeripheral {
+  /** Energy expended counter, cleared by a control point reset */
+  readonly energyExpended: number;
+  /** Notifies a measurement; energyExpended defaults to the running counter */
+  emitMeasurement: (measurement: Partial<HeartRateMeasurement> & { bpm: number }) => void;
+}
+
+export function createSimulatedHeartRatePeripheral(
+  options: {
+    id?: string;
+    name?: string;
+    rssi?: number;
+    sensorLocation?: string;
+    energyExpended?: number;
+    batteryLevel?: number;
+  } = {}
+): SimulatedHeartRatePeripheral {
+  let energyExpended = options.energyExpended ?? 0;
+
+  const base = createSimulatedPeripheral({
+    id: options.id ?? 'SIM-HRS-0001',
+    name: options.name ?? 'Simulated HR Strap',
+    rssi: options.rssi,
+    services: [
+      {
+        uuid: HEART_RATE_SERVICE_UUID,
+        characteristics: [
+          { uuid: HEART_RATE_MEASUREMENT_UUID, properties: ['Notify'], value: [] },
+          {
+            uuid: BODY_SENSOR_LOCATION_UUID,
+            properties: ['Read'],
+            value: [Math.max(0, BODY_SENSOR_LOCATIONS.indexOf(options.sensorLocation ?? 'Chest'))],
+          },
+          {
+            uuid: HEART_RATE_CONTROL_POINT_UUID,
+            properties: ['Write'],
+            value: [],
+            onWrite: (data) => {
+              if (data[0] === RESET_ENERGY_EXPENDED) energyExpended = 0;
+            },
+          },
+        ],
+      },
+      createBatteryService(options.batteryLevel ?? 90),
+      createDeviceInformationService({
+        manufacturer: 'Simulated Sensors',
+        model: 'HRM-1',
+        firmwareRevision: '1.0.0',
+      }),
+    ],
+    advertisedServices: [HEART_RATE_SERVICE_UUID],
+  });
+
+  const strap = Object.assign(base, {
+    emitMeasurement: (measurement: Partial<HeartRateMeasurement> & { bpm: number }) =>
+      base.setValue(
+        HEART_RATE_SERVICE_UUID,
+        HEART_RATE_MEASUREMENT_UUID,
+        encodeHeartRateMeasurement({ energyExpended, ...measurement })
+      ),
+  });
+
+  return Object.defineProperties(strap, {
+    energyExpended: { get: () => energyExpended },
+  }) as SimulatedHeartRatePeripheral;
+}
@@ -0,0 +1,315 @@
+import { sameUuid, SimulatedPeripheral } from './simulatedPeripheral';
+import {
+  BleAdapterState,
+  BleCharacteristicValue,
+  BleDisconnectEvent,
+  BleSubscription,
+  BleTransport,
+  Peripheral,
+} from './types';
+
+type TransportOperation = Exclude<keyof BleTransport, `on${string}`>;
+
+/**
+ * In-memory transport that serves simulated peripherals - lets the machine run
+ * without a phone (development builds, Node tests)
+ */
+export interface SimulatedTransport extends BleTransport {
+  peripherals: SimulatedPeripheral[];
+  adapterState: BleAdapterState;
+  /** Ids of peripherals currently connected */
+  readonly connectedIds: string[];
+  /** Whether a scan is running */
+  readonly scanning: boolean;
+  addPeripheral: (peripheral: SimulatedPeripheral) => void;
+  /** Makes the next call of `operation` reject with `error` */
+  failNext: (operation: TransportOperation, error?: Error) => void;
+  /** Simulates the peripheral dropping the link */
+  dropConnection: (deviceId: string, reason?: string) => void;
+  /** Simulates the user or OS changing the adapter state - anything but on drops every link and the scan */
+  setAdapterState: (state: BleAdapterState) => void;
+}
+
+export interface SimulatedTransportOptions {
+  peripherals?: SimulatedPeripheral[];
+  adapterState?: BleAdapterState;
+  /** Delay applied to every operation, in ms */
+  latency?: number;
+  /** Largest MTU the simulated peripherals accept - defaults to 247 */
+  maxMtu?: number;
+}
+
+// MTU of a fresh link, and the longest value a long write can carry
+const DEFAULT_MTU = 23;
+const MAX_ATTRIBUTE_LENGTH = 512;
+
+function createEmitter<T>() {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    emit: (value: T) => listeners.forEach((listener) => listener(value)),
+    subscribe: (listener: (value: T) => void): BleSubscription => {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+  };
+}
+
+export function createSimulatedTransport(options: SimulatedTransportOptions = {}): SimulatedTransport {
+  const latency = options.latency ?? 0;
+  const maxMtu = options.maxMtu ?? 247;
+  const connected = new Set<string>();
+  const mtus = new Map<string, number>();
+  const notifying = new Set<string>();
+  const failures = new Map<TransportOperation, Error[]>();
+  const valueSubscriptions = new Map<string, BleSubscription>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let scanEnd: ReturnType<typeof setTimeout> | null = null;
+  let scanning = false;
+
+  const discover = createEmitter<Peripheral>();
+  const disconnect = createEmitter<BleDisconnectEvent>();
+  const values = createEmitter<BleCharacteristicValue>();
+  const scanStopped = createEmitter<void>();
+  const adapterStates = createEmitter<BleAdapterState>();
+
+  const notifyKey = (deviceId: string, service: string, characteristic: string) =>
+    `${deviceId}|${service.toLowerCase()}|${characteristic.toLowerCase()}`;
+
+  const schedule = (callback: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, latency);
+    timers.add(timer);
+  };
+
+  // Every operation honours injected failures and the configured latency
+  const run = async <T>(operation: TransportOperation, body: () => T): Promise<T> => {
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+    const error = failures.get(operation)?.shift();
+    if (error) {
+      throw error;
+    }
+    return body();
+  };
+
+  const findPeripheral = (deviceId: string) => {
+    const peripheral = transport.peripherals.find((p) => p.id === deviceId);
+    if (!peripheral) {
+      throw new Error(`Peripheral ${deviceId} not found`);
+    }
+    return peripheral;
+  };
+
+  const requireConnected = (deviceId: string) => {
+    const peripheral = findPeripheral(deviceId);
+    if (!connected.has(deviceId)) {
+      throw new Error(`Peripheral ${deviceId} is not connected`);
+    }
+    return peripheral;
+  };
+
+  const writeCharacteristic = (
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    data: number[],
+    maxLength: number
+  ) => {
+    const peripheral = requireConnected(deviceId);
+    if (data.length > maxLength) {
+      throw new Error(`Value of ${data.length} bytes does not fit one write (${maxLength})`);
+    }
+    const characteristic = peripheral.findCharacteristic(serviceUUID, characteristicUUID);
+    if (
+      !characteristic.properties.includes('Write') &&
+      !characteristic.properties.includes('WriteWithoutResponse')
+    ) {
+      throw new Error(`Characteristic ${characteristicUUID} is not writable`);
+    }
+    peripheral.write(serviceUUID, characteristicUUID, data);
+  };
+
+  // Ends the running scan - pending advertisements are dropped
+  const endScan = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    if (scanEnd) clearTimeout(scanEnd);
+    scanEnd = null;
+    if (!scanning) return;
+    scanning = false;
+    scanStopped.emit();
+  };
+
+  const releasePeripheral = (deviceId: string) => {
+    connected.delete(deviceId);
+    mtus.delete(deviceId);
+    valueSubscriptions.get(deviceId)?.remove();
+    valueSubscriptions.delete(deviceId);
+    for (const key of [...notifying]) {
+      if (key.startsWith(`${deviceId}|`)) notifying.delete(key);
+    }
+  };
+
+  const transport: SimulatedTransport = {
+    peripherals: [...(options.peripherals ?? [])],
+    adapterState: options.adapterState ?? 'on',
+
+    get connectedIds() {
+      return [...connected];
+    },
+
+    get scanning() {
+      return scanning;
+    },
+
+    addPeripheral: (peripheral) => {
+      transport.peripherals.push(peripheral);
+    },
+
+    failNext: (operation, error = new Error(`Simulated ${operation} failure`)) => {
+      failures.set(operation, [...(failures.get(operation) ?? []), error]);
+    },
+
+    dropConnection: (deviceId, reason) => {
+      if (!connected.has(deviceId)) return;
+      releasePeripheral(deviceId);
+      disconnect.emit({ peripheral: deviceId, reason });
+    },
+
+    setAdapterState: (state) => {
+      transport.adapterState = state;
+      adapterStates.emit(state);
+      if (state === 'on') return;
+      transport.connectedIds.forEach((deviceId) =>
+        transport.dropConnection(deviceId, `Bluetooth is ${state}`)
+      );
+      endScan();
+    },
+
+    start: () => run('start', () => {}),
+    checkState: () => run('checkState', () => transport.adapterState),
+    enableBluetooth: () =>
+      run('enableBluetooth', () => {
+        transport.adapterState = 'on';
+      }),
+
+    scan: (scanOptions) =>
+      run('scan', () => {
+        if (transport.adapterState !== 'on') {
+          throw new Error(`Bluetooth is ${transport.adapterState}`);
+        }
+        const matches = transport.peripherals.filter(
+          (p) =>
+            !connected.has(p.id) &&
+            (scanOptions.serviceUUIDs.length === 0 ||
+              scanOptions.serviceUUIDs.some((uuid) =>
+                p.advertisedServices.some((advertised) => sameUuid(advertised, uuid))
+              ))
+        );
+        // A new scan replaces the running one without reporting it stopped
+        if (scanEnd) clearTimeout(scanEnd);
+        scanEnd = null;
+        scanning = true;
+        if (scanOptions.seconds > 0) {
+          scanEnd = setTimeout(endScan, scanOptions.seconds * 1000);
+        }
+        // Advertisements arrive after scan() resolves, like on a real stack
+        matches.forEach((p) => schedule(() => discover.emit(p.getInfo())));
+      }),
+    stopScan: () => run('stopScan', endScan),
+
+    connect: (deviceId) =>
+      run('connect', () => {
+        if (transport.adapterState !== 'on') {
+          throw new Error(`Bluetooth is ${transport.adapterState}`);
+        }
+        const peripheral = findPeripheral(deviceId);
+        if (connected.has(deviceId)) return;
+        connected.add(deviceId);
+        // Forward value changes for characteristics the central subscribed to
+        valueSubscriptions.set(
+          deviceId,
+          peripheral.onValueChange((change) => {
+            if (notifying.has(notifyKey(deviceId, change.service, change.characteristic))) {
+              values.emit({ peripheral: deviceId, ...change });
+            }
+          })
+        );
+      }),
+    disconnect: (deviceId) =>
+      run('disconnect', () => {
+        findPeripheral(deviceId);
+        if (!connected.has(deviceId)) return;
+        releasePeripheral(deviceId);
+        // ble-manager reports the disconnect before the call resolves, even when asked for it
+        disconnect.emit({ peripheral: deviceId });
+      }),
+    retrieveServices: (deviceId) =>
+      run('retrieveServices', () => requireConnected(deviceId).getInfo()),
+    requestMTU: (deviceId, mtu) =>
+      run('requestMTU', () => {
+        requireConnected(deviceId);
+        const negotiated = Math.max(DEFAULT_MTU, Math.min(mtu, maxMtu));
+        mtus.set(deviceId, negotiated);
+        return negotiated;
+      }),
+    readRSSI: (deviceId) => run('readRSSI', () => requireConnected(deviceId).rssi),
+
+    read: (deviceId, serviceUUID, characteristicUUID) =>
+      run('read', () => {
+        const characteristic = requireConnected(deviceId).findCharacteristic(
+          serviceUUID,
+          characteristicUUID
+        );
+        if (!characteristic.properties.includes('Read')) {
+          throw new Error(`Characteristic ${characteristicUUID} is not readable`);
+        }
+        return [...characteristic.value];
+      }),
+    write: (deviceId, serviceUUID, characteristicUUID, data) =>
+      run('write', () =>
+        writeCharacteristic(deviceId, serviceUUID, characteristicUUID, data, MAX_ATTRIBUTE_LENGTH)
+      ),
+    // No long write without a response - one packet, minus the 3-byte ATT header
+    writeWithoutResponse: (deviceId, serviceUUID, characteristicUUID, data) =>
+      run('writeWithoutResponse', () =>
+        writeCharacteristic(
+          deviceId,
+          serviceUUID,
+          characteristicUUID,
+          data,
+          (mtus.get(deviceId) ?? DEFAULT_MTU) - 3
+        )
+      ),
+    startNotification: (deviceId, serviceUUID, characteristicUUID) =>
+      run('startNotification', () => {
+        const characteristic = requireConnected(deviceId).findCharacteristic(
+          serviceUUID,
+          characteristicUUID
+        );
+        if (
+          !characteristic.properties.includes('Notify') &&
+          !characteristic.properties.includes('Indicate')
+        ) {
+          throw new Error(`Characteristic ${characteristicUUID} does not support notifications`);
+        }
+        notifying.add(notifyKey(deviceId, serviceUUID, characteristicUUID));
+      }),
+    stopNotification: (deviceId, serviceUUID, characteristicUUID) =>
+      run('stopNotification', () => {
+        requireConnected(deviceId).findCharacteristic(serviceUUID, characteristicUUID);
+        notifying.delete(notifyKey(deviceId, serviceUUID, characteristicUUID));
+      }),
+
+    onDiscoverPeripheral: discover.subscribe,
+    onDisconnectPeripheral: disconnect.subscribe,
+    onCharacteristicValue: values.subscribe,
+    onStopScan: (listener) => scanStopped.subscribe(() => listener()),
+    onDidUpdateState: adapterStates.subscribe,
+  };
+
+  return transport;
+}
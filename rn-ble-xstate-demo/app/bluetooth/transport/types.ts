@@ -0,0 +1,118 @@
+import { Peripheral, PeripheralInfo } from 'react-native-ble-manager';
+
+export type { Peripheral, PeripheralInfo };
+
+/**
+ * Adapter power/authorization state as reported by the platform
+ */
+export type BleAdapterState =
+  | 'unknown'
+  | 'resetting'
+  | 'unsupported'
+  | 'unauthorized'
+  | 'on'
+  | 'off'
+  | 'turning_on'
+  | 'turning_off';
+
+/**
+ * Android scan duty cycle, from least to most power hungry - ignored on iOS
+ */
+export type BleScanMode = 'opportunistic' | 'lowPower' | 'balanced' | 'lowLatency';
+
+/**
+ * Android: how many advertisements a filtered scan needs before reporting a device - ignored on iOS
+ */
+export type BleScanMatchMode = 'aggressive' | 'sticky';
+
+/**
+ * Options accepted by BleTransport.scan
+ */
+export interface BleScanOptions {
+  /** Only report devices advertising one of these - empty reports every device */
+  serviceUUIDs: string[];
+  /** Scan length - 0 scans until stopScan() */
+  seconds: number;
+  allowDuplicates: boolean;
+  scanMode?: BleScanMode;
+  matchMode?: BleScanMatchMode;
+}
+
+/**
+ * Payload of a characteristic notification/indication
+ */
+export interface BleCharacteristicValue {
+  peripheral: string;
+  service: string;
+  characteristic: string;
+  value: number[];
+}
+
+/**
+ * Payload of a peripheral disconnection
+ */
+export interface BleDisconnectEvent {
+  peripheral: string;
+  reason?: string;
+}
+
+/**
+ * Handle returned by event subscriptions - call remove() to unsubscribe
+ */
+export interface BleSubscription {
+  remove: () => void;
+}
+
+/**
+ * BLE transport - everything the state machine needs from a BLE backend.
+ * The default implementation wraps react-native-ble-manager; other backends
+ * (simulators, desktop stacks, test doubles) only need to implement this interface.
+ */
+export interface BleTransport {
+  start: () => Promise<void>;
+  checkState: () => Promise<BleAdapterState>;
+  enableBluetooth: () => Promise<void>;
+
+  scan: (options: BleScanOptions) => Promise<void>;
+  stopScan: () => Promise<void>;
+
+  connect: (deviceId: string) => Promise<void>;
+  disconnect: (deviceId: string) => Promise<void>;
+  retrieveServices: (deviceId: string) => Promise<PeripheralInfo>;
+  /** Asks for a larger ATT MTU; resolves with the MTU the link ended up with */
+  requestMTU: (deviceId: string, mtu: number) => Promise<number>;
+  /** Signal strength of a connected link, in dBm */
+  readRSSI: (deviceId: string) => Promise<number>;
+
+  read: (deviceId: string, serviceUUID: string, characteristicUUID: string) => Promise<number[]>;
+  /** One ATT write - values longer than the MTU allows go out as a long (prepared) write */
+  write: (
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    data: number[]
+  ) => Promise<void>;
+  writeWithoutResponse: (
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    data: number[]
+  ) => Promise<void>;
+  startNotification: (
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string
+  ) => Promise<void>;
+  stopNotification: (
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string
+  ) => Promise<void>;
+
+  onDiscoverPeripheral: (listener: (peripheral: Peripheral) => void) => BleSubscription;
+  onDidUpdateState: (listener: (state: BleAdapterState) => void) => BleSubscription;
+  /** Fires when a scan ends - its time ran out, stopScan() was called or the OS stopped it */
+  onStopScan: (listener: () => void) => BleSubscription;
+  onDisconnectPeripheral: (listener: (event: BleDisconnectEvent) => void) => BleSubscription;
+  onCharacteristicValue: (listener: (event: BleCharacteristicValue) => void) => BleSubscription;
+}
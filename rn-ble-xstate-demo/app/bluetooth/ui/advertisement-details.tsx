@@ -0,0 +1,108 @@
+import React from 'react';
+import { Platform, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Advertisement, AdvertisementFlags, Beacon, toHex } from '../advertising';
+
+const describeFlags = (flags: AdvertisementFlags) =>
+  [
+    flags.limitedDiscoverable && 'LE limited discoverable',
+    flags.generalDiscoverable && 'LE general discoverable',
+    flags.brEdrNotSupported && 'BR/EDR not supported',
+    flags.leBrEdrController && 'LE + BR/EDR controller',
+    flags.leBrEdrHost && 'LE + BR/EDR host',
+  ]
+    .filter(Boolean)
+    .join(', ') || `0x${flags.raw.toString(16).padStart(2, '0')}`;
+
+const describeBeacon = (beacon: Beacon) => {
+  switch (beacon.type) {
+    case 'iBeacon':
+      return `iBeacon ${beacon.uuid} major ${beacon.major} minor ${beacon.minor} (${beacon.measuredPower} dBm @ 1 m)`;
+    case 'eddystoneUid':
+      return `Eddystone-UID ${beacon.namespace} / ${beacon.instance} (${beacon.txPower} dBm @ 0 m)`;
+    case 'eddystoneUrl':
+      return `Eddystone-URL ${beacon.url} (${beacon.txPower} dBm @ 0 m)`;
+    case 'eddystoneTlm':
+      return [
+        'Eddystone-TLM',
+        beacon.batteryVoltage !== null && `${beacon.batteryVoltage} mV`,
+        beacon.temperature !== null && `${beacon.temperature.toFixed(1)} °C`,
+        `${beacon.advertisementCount} adv`,
+        `up ${Math.round(beacon.uptime)} s`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+  }
+};
+
+/**
+ * Whether a decoded advertisement has anything worth showing
+ */
+export const hasAdvertisementDetails = (advertisement: Advertisement) =>
+  advertisement.flags !== null ||
+  advertisement.localName !== null ||
+  advertisement.txPower !== null ||
+  advertisement.serviceUUIDs.length > 0 ||
+  advertisement.serviceData.length > 0 ||
+  advertisement.manufacturerData.length > 0;
+
+interface AdvertisementDetailsProps {
+  advertisement: Advertisement;
+}
+
+/**
+ * Decoded advertisement of a discovered device - one row per field it carries
+ */
+export function AdvertisementDetails({ advertisement }: AdvertisementDetailsProps) {
+  const rows: [string, string][] = [
+    ...(advertisement.localName !== null ? [['Name', advertisement.localName]] : []),
+    ...(advertisement.flags ? [['Flags', describeFlags(advertisement.flags)]] : []),
+    ...(advertisement.txPower !== null ? [['TX power', `${advertisement.txPower} dBm`]] : []),
+    ...advertisement.serviceUUIDs.map((uuid) => ['Service', uuid]),
+    ...advertisement.serviceData.map(({ uuid, data }) => [
+      'Service data',
+      `${uuid}: ${toHex(data)}`,
+    ]),
+    ...advertisement.manufacturerData.map(({ companyId, companyName, data }) => [
+      'Manufacturer',
+      `${companyName ?? `0x${companyId.toString(16).padStart(4, '0')}`}: ${toHex(data)}`,
+    ]),
+    ...advertisement.beacons.map((beacon) => ['Beacon', describeBeacon(beacon)]),
+  ] as [string, string][];
+
+  return (
+    <View style={styles.container}>
+      {rows.map(([label, value], index) => (
+        <View key={index} style={styles.row}>
+          <ThemedText style={styles.label}>{label}</ThemedText>
+          <ThemedText style={styles.value}>{value}</ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  label: {
+    width: 90,
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  value: {
+    flex: 1,
+    fontSize: 11,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+});
@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Platform, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Peripheral } from 'react-native-ble-manager';
+import { decodeAdvertising } from '../advertising';
+import { BUTTONLESS_DFU_UUID, NUS_SERVICE_UUID, SECURE_DFU_SERVICE_UUID } from '../constants';
+import { sameUuid } from '../profiles';
+import { DiscoveredDevice, findGattCharacteristic, useBleDevice } from '../state-machine';
+import { AdvertisementDetails, hasAdvertisementDetails } from './advertisement-details';
+import { DfuPanel } from './dfu-panel';
+import { GattExplorer } from './gatt-explorer';
+import { NusTerminal } from './nus-terminal';
+import { ProfileControls } from './profile-controls';
+import { RssiSparkline } from './rssi-sparkline';
+
+export type LogType = 'event' | 'action' | 'error' | 'info' | 'state';
+
+interface DeviceCardProps {
+  peripheral: DiscoveredDevice;
+  onSelect: (peripheral: Peripheral) => void;
+  onDisconnect: (deviceId: string) => void;
+  onCancel: (deviceId: string) => void;
+  onReadValue: (deviceId: string, profileId: string, key: string) => void;
+  onWriteValue: (deviceId: string, profileId: string, key: string, value: unknown) => void;
+  onRetryOperation: (deviceId: string) => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+/**
+ * One row in the device list - shows its own connection lifecycle and characteristics
+ */
+export function DeviceCard({
+  peripheral,
+  onSelect,
+  onDisconnect,
+  onCancel,
+  onReadValue,
+  onWriteValue,
+  onRetryOperation,
+  onLog,
+}: DeviceCardProps) {
+  const {
+    profileIds,
+    values,
+    pendingWrites,
+    services,
+    operationError,
+    heartRate,
+    batteryLevel,
+    error,
+    isConnecting,
+    isConnected,
+    isReconnecting,
+    reconnectAttempt,
+    isUpdating,
+    rssi,
+    rssiHistory,
+  } = useBleDevice(peripheral.id);
+  const [isExplorerOpen, setIsExplorerOpen] = useState(false);
+  const [isTerminalOpen, setIsTerminalOpen] = useState(false);
+  const [isDfuOpen, setIsDfuOpen] = useState(false);
+  const [isAdvertisementOpen, setIsAdvertisementOpen] = useState(false);
+  const advertisement = useMemo(() => decodeAdvertising(peripheral.advertising), [peripheral.advertising]);
+
+  const label = peripheral.name || peripheral.id;
+  // Live reading while connected, otherwise smoothed over the advertisements (none for stored devices)
+  const signal =
+    isConnected && rssi !== null
+      ? `${Math.round(rssi)} dBm`
+      : peripheral.advertisementCount > 0
+        ? `${Math.round(peripheral.smoothedRssi)} dBm`
+        : 'Stored';
+  const lastSeen =
+    peripheral.advertisementCount > 0
+      ? `${peripheral.advertisementCount} adv · ${new Date(peripheral.lastSeen).toLocaleTimeString()}`
+      : null;
+
+  // Log connection status
+  useEffect(() => {
+    if (isConnected) {
+      onLog('info', `✓ Connected to ${label}`);
+    }
+  }, [isConnected, label, onLog]);
+
+  // Log reconnect attempts
+  useEffect(() => {
+    if (isReconnecting && reconnectAttempt > 0) {
+      onLog('info', `↻ ${label}: reconnect attempt ${reconnectAttempt} scheduled`);
+    }
+  }, [isReconnecting, reconnectAttempt, label, onLog]);
+
+  // Log device errors
+  useEffect(() => {
+    if (error) {
+      onLog('error', `${label}: ${error}`);
+    }
+  }, [error, label, onLog]);
+
+  // Log failed reads/writes - the connection stays up
+  useEffect(() => {
+    if (operationError) {
+      onLog(
+        'error',
+        `${label}: ${operationError.operation} ${operationError.profileId}.${operationError.key} failed: ${operationError.error}`
+      );
+    }
+  }, [operationError, label, onLog]);
+
+  const isActive = isConnecting || isConnected || isReconnecting || isUpdating;
+  const hasUart = services.some((s) => sameUuid(s.uuid, NUS_SERVICE_UUID));
+  const hasDfu = !!findGattCharacteristic(services, SECURE_DFU_SERVICE_UUID, BUTTONLESS_DFU_UUID);
+
+  return (
+    <Pressable onPress={() => !isActive && onSelect(peripheral)} style={styles.deviceItem}>
+      <View style={styles.deviceHeader}>
+        <View style={styles.deviceInfo}>
+          <View style={styles.deviceNameRow}>
+            {isConnected && <ThemedText style={styles.connectedIndicator}>●</ThemedText>}
+            <ThemedText style={styles.deviceName}>{peripheral.name || 'Unknown Device'}</ThemedText>
+            {isConnected && <ThemedText style={styles.connectedText}>Connected</ThemedText>}
+            {isConnected && heartRate && (
+              <ThemedText style={styles.heartRateText}>❤️ {heartRate.bpm}</ThemedText>
+            )}
+            {isConnected && batteryLevel !== null && (
+              <ThemedText style={styles.batteryText}>🔋 {batteryLevel}%</ThemedText>
+            )}
+            {isConnecting && <ThemedText style={styles.connectingText}>Connecting...</ThemedText>}
+            {isReconnecting && (
+              <ThemedText style={styles.connectingText}>Reconnecting ({reconnectAttempt})...</ThemedText>
+            )}
+            {isUpdating && <ThemedText style={styles.connectingText}>Updating firmware...</ThemedText>}
+          </View>
+          <ThemedText style={styles.deviceId}>{peripheral.id}</ThemedText>
+          {hasAdvertisementDetails(advertisement) && (
+            <Pressable onPress={() => setIsAdvertisementOpen((open) => !open)} hitSlop={8}>
+              <ThemedText style={styles.advertisementToggle}>
+                {isAdvertisementOpen ? '▾' : '▸'} Advertisement
+              </ThemedText>
+            </Pressable>
+          )}
+        </View>
+        <View style={styles.deviceMeta}>
+          <ThemedText style={styles.rssi}>{signal}</ThemedText>
+          {!isConnected && lastSeen && <ThemedText style={styles.lastSeen}>{lastSeen}</ThemedText>}
+          {isConnected && <RssiSparkline history={rssiHistory} />}
+          {isConnected || isReconnecting ? (
+            <Pressable onPress={() => onDisconnect(peripheral.id)}>
+              <ThemedText style={styles.disconnectTextButton}>Disconnect</ThemedText>
+            </Pressable>
+          ) : isConnecting ? (
+            <Pressable onPress={() => onCancel(peripheral.id)}>
+              <ThemedText style={styles.disconnectTextButton}>Cancel</ThemedText>
+            </Pressable>
+          ) : (
+            <ThemedText style={styles.connectionStatus}>Tap to connect</ThemedText>
+          )}
+        </View>
+      </View>
+
+      {isAdvertisementOpen && <AdvertisementDetails advertisement={advertisement} />}
+
+      {isConnected && (
+        <View style={styles.characteristicsContainer}>
+          <ProfileControls
+            deviceLabel={label}
+            profileIds={profileIds}
+            values={values}
+            pendingWrites={pendingWrites}
+            services={services}
+            operationError={operationError}
+            onReadValue={(profileId, key) => onReadValue(peripheral.id, profileId, key)}
+            onWriteValue={(profileId, key, value) => onWriteValue(peripheral.id, profileId, key, value)}
+            onRetry={() => onRetryOperation(peripheral.id)}
+            onLog={onLog}
+          />
+
+          {/* GATT Explorer */}
+          <Pressable style={styles.exploreButton} onPress={() => setIsExplorerOpen(true)}>
+            <ThemedText style={styles.exploreButtonText}>Explore GATT</ThemedText>
+          </Pressable>
+
+          {/* Nordic UART terminal */}
+          {hasUart && (
+            <Pressable style={styles.exploreButton} onPress={() => setIsTerminalOpen(true)}>
+              <ThemedText style={styles.exploreButtonText}>UART Terminal</ThemedText>
+            </Pressable>
+          )}
+
+          {/* Secure DFU */}
+          {hasDfu && (
+            <Pressable style={styles.exploreButton} onPress={() => setIsDfuOpen(true)}>
+              <ThemedText style={styles.exploreButtonText}>Update Firmware</ThemedText>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      <GattExplorer
+        deviceId={peripheral.id}
+        visible={isConnected && isExplorerOpen}
+        onClose={() => setIsExplorerOpen(false)}
+        onLog={onLog}
+      />
+
+      <NusTerminal
+        deviceId={peripheral.id}
+        visible={isConnected && isTerminalOpen}
+        onClose={() => setIsTerminalOpen(false)}
+        onLog={onLog}
+      />
+
+      <DfuPanel
+        deviceId={peripheral.id}
+        visible={(isConnected || isUpdating) && isDfuOpen}
+        onClose={() => setIsDfuOpen(false)}
+        onLog={onLog}
+      />
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  deviceItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#333',
+  },
+  deviceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  connectedIndicator: {
+    color: '#4CAF50',
+    fontSize: 12,
+  },
+  deviceName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  connectedText: {
+    color: '#4CAF50',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  heartRateText: {
+    color: '#F44336',
+    fontSize: 11,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  batteryText: {
+    fontSize: 11,
+    fontWeight: '600',
+    opacity: 0.8,
+    marginLeft: 8,
+  },
+  connectingText: {
+    color: '#FF9800',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  deviceId: {
+    fontSize: 11,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  advertisementToggle: {
+    fontSize: 11,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  deviceMeta: {
+    alignItems: 'flex-end',
+  },
+  rssi: {
+    fontSize: 12,
+    opacity: 0.8,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  lastSeen: {
+    fontSize: 10,
+    opacity: 0.5,
+  },
+  connectionStatus: {
+    fontSize: 10,
+    opacity: 0.5,
+    marginTop: 2,
+  },
+  disconnectTextButton: {
+    color: '#F44336',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  characteristicsContainer: {
+    marginTop: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 8,
+    padding: 12,
+    gap: 10,
+  },
+  exploreButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  exploreButtonText: {
+    color: '#007AFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { DfuStage, parseDfuPackage } from '../dfu';
+import { useBleDevice, useBluetooth } from '../state-machine';
+import { LogType } from './device-card';
+
+const STAGE_LABELS: Record<DfuStage, string> = {
+  bootloader: 'Entering bootloader',
+  init: 'Sending init packet',
+  firmware: 'Sending firmware',
+  complete: 'Restarting',
+};
+
+interface DfuPanelProps {
+  deviceId: string;
+  visible: boolean;
+  onClose: () => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+/**
+ * Full-screen firmware update - downloads a Nordic DFU package and follows the transfer
+ */
+export function DfuPanel({ deviceId, visible, onClose, onLog }: DfuPanelProps) {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { deviceName, dfu, isUpdating } = useBleDevice(deviceId);
+  const { startDfu, cancelDfu, resumeDfu } = useBluetooth();
+
+  // Log update errors
+  useEffect(() => {
+    if (dfu?.error) {
+      onLog('error', `DFU: ${dfu.error}`);
+    }
+  }, [dfu?.error, onLog]);
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const response = await fetch(url.trim());
+      if (!response.ok) {
+        throw new Error(`Download failed (${response.status})`);
+      }
+      const dfuPackage = parseDfuPackage(new Uint8Array(await response.arrayBuffer()));
+      onLog('info', `DFU: ${dfuPackage.type} image, ${dfuPackage.firmware.length} bytes`);
+      startDfu(deviceId, dfuPackage);
+    } catch (error) {
+      setLoadError((error as Error).message || 'Could not load the DFU package');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const progress = dfu && dfu.totalBytes > 0 ? dfu.sentBytes / dfu.totalBytes : 0;
+  const isFailed = isUpdating && dfu?.error != null;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={() => !isUpdating && onClose()}>
+      <SafeAreaView style={styles.container}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <View>
+              <ThemedText style={styles.title}>Firmware Update</ThemedText>
+              <ThemedText style={styles.subtitle}>{deviceName || deviceId}</ThemedText>
+            </View>
+            {!isUpdating && (
+              <Pressable onPress={onClose}>
+                <ThemedText style={styles.closeButton}>Close</ThemedText>
+              </Pressable>
+            )}
+          </View>
+
+          <View style={styles.body}>
+            {!isUpdating && (
+              <>
+                <ThemedText style={styles.label}>DFU package URL (.zip)</ThemedText>
+                <TextInput
+                  style={styles.input}
+                  value={url}
+                  onChangeText={setUrl}
+                  placeholder="https://example.com/app_dfu_package.zip"
+                  placeholderTextColor="#777"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Pressable
+                  style={[styles.primaryButton, (!url.trim() || isLoading) && styles.buttonDisabled]}
+                  onPress={handleStart}
+                  disabled={!url.trim() || isLoading}
+                >
+                  <ThemedText style={styles.primaryButtonText}>
+                    {isLoading ? 'Downloading...' : 'Start Update'}
+                  </ThemedText>
+                </Pressable>
+                {loadError && <ThemedText style={styles.errorText}>{loadError}</ThemedText>}
+                {dfu?.stage === 'complete' && (
+                  <ThemedText style={styles.successText}>✓ Update complete</ThemedText>
+                )}
+              </>
+            )}
+
+            {isUpdating && dfu && (
+              <>
+                <ThemedText style={styles.label}>{STAGE_LABELS[dfu.stage]}</ThemedText>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+                </View>
+                <ThemedText style={styles.progressText}>
+                  {dfu.sentBytes} / {dfu.totalBytes} bytes ({Math.round(progress * 100)}%)
+                </ThemedText>
+                {dfu.error && <ThemedText style={styles.errorText}>{dfu.error}</ThemedText>}
+
+                <View style={styles.actions}>
+                  {isFailed && (
+                    <Pressable style={styles.primaryButton} onPress={() => resumeDfu(deviceId)}>
+                      <ThemedText style={styles.primaryButtonText}>Resume</ThemedText>
+                    </Pressable>
+                  )}
+                  <Pressable style={styles.cancelButton} onPress={() => cancelDfu(deviceId)}>
+                    <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+                  </Pressable>
+                </View>
+              </>
+            )}
+          </View>
+        </ThemedView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  closeButton: {
+    color: '#FF5722',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  body: {
+    padding: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#555',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 12,
+    color: '#888',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#FF5722',
+  },
+  cancelButtonText: {
+    color: '#FF5722',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  progressText: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 12,
+  },
+  successText: {
+    color: '#4CAF50',
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+});
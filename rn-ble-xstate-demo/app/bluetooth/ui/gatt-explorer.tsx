@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Platform, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  characteristicKey,
+  formatGattValue,
+  GattCharacteristic,
+  GattValueFormat,
+  parseGattValue,
+  useBleDevice,
+  useBluetooth,
+} from '../state-machine';
+import { LogType } from './device-card';
+
+const FORMATS: GattValueFormat[] = ['hex', 'utf8', 'decimal'];
+
+interface GattExplorerProps {
+  deviceId: string;
+  visible: boolean;
+  onClose: () => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+/**
+ * Full-screen GATT table browser - read, write and subscribe to any characteristic
+ */
+export function GattExplorer({ deviceId, visible, onClose, onLog }: GattExplorerProps) {
+  const [format, setFormat] = useState<GattValueFormat>('hex');
+  const { deviceName, services, characteristicValues, notifying, gattError, isGattBusy } =
+    useBleDevice(deviceId);
+  const { readCharacteristic, writeCharacteristic, setNotification } = useBluetooth();
+
+  // Log explorer errors
+  useEffect(() => {
+    if (gattError) {
+      onLog('error', `GATT: ${gattError}`);
+    }
+  }, [gattError, onLog]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <View>
+              <ThemedText style={styles.title}>GATT Explorer</ThemedText>
+              <ThemedText style={styles.subtitle}>{deviceName || deviceId}</ThemedText>
+            </View>
+            <Pressable onPress={onClose}>
+              <ThemedText style={styles.closeButton}>Close</ThemedText>
+            </Pressable>
+          </View>
+
+          <View style={styles.formatRow}>
+            {FORMATS.map((f) => (
+              <Pressable
+                key={f}
+                style={[styles.formatChip, format === f && styles.formatChipActive]}
+                onPress={() => setFormat(f)}
+              >
+                <ThemedText style={styles.formatChipText}>{f.toUpperCase()}</ThemedText>
+              </Pressable>
+            ))}
+            {isGattBusy && <ThemedText style={styles.busyText}>● Working</ThemedText>}
+          </View>
+
+          {gattError && <ThemedText style={styles.errorText}>{gattError}</ThemedText>}
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {services.length === 0 && (
+              <ThemedText style={styles.emptyText}>No services discovered.</ThemedText>
+            )}
+            {services.map((service) => (
+              <View key={service.uuid} style={styles.service}>
+                <ThemedText style={styles.serviceLabel}>SERVICE</ThemedText>
+                <ThemedText style={styles.uuid}>{service.uuid}</ThemedText>
+                {service.characteristics.map((characteristic) => {
+                  const key = characteristicKey(service.uuid, characteristic.uuid);
+                  return (
+                    <CharacteristicRow
+                      key={key}
+                      characteristic={characteristic}
+                      value={characteristicValues[key]}
+                      isNotifying={notifying.includes(key)}
+                      format={format}
+                      disabled={isGattBusy}
+                      onRead={() => {
+                        onLog('action', `📖 Read ${characteristic.uuid}`);
+                        readCharacteristic(deviceId, service.uuid, characteristic.uuid);
+                      }}
+                      onWrite={(value, withoutResponse) => {
+                        onLog('action', `✏️ Write ${characteristic.uuid}: ${formatGattValue(value, 'hex')}`);
+                        writeCharacteristic(deviceId, service.uuid, characteristic.uuid, value, withoutResponse);
+                      }}
+                      onToggleNotify={(enabled) => {
+                        onLog('action', `🔔 ${enabled ? 'Subscribe' : 'Unsubscribe'} ${characteristic.uuid}`);
+                        setNotification(deviceId, service.uuid, characteristic.uuid, enabled);
+                      }}
+                      onLog={onLog}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+        </ThemedView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+interface CharacteristicRowProps {
+  characteristic: GattCharacteristic;
+  value: number[] | undefined;
+  isNotifying: boolean;
+  format: GattValueFormat;
+  disabled: boolean;
+  onRead: () => void;
+  onWrite: (value: number[], withoutResponse: boolean) => void;
+  onToggleNotify: (enabled: boolean) => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+function CharacteristicRow({
+  characteristic,
+  value,
+  isNotifying,
+  format,
+  disabled,
+  onRead,
+  onWrite,
+  onToggleNotify,
+  onLog,
+}: CharacteristicRowProps) {
+  const [input, setInput] = useState('');
+  const { properties } = characteristic;
+
+  const canRead = properties.includes('Read');
+  const canWrite = properties.includes('Write');
+  const canWriteWithoutResponse = properties.includes('WriteWithoutResponse');
+  const canNotify = properties.includes('Notify') || properties.includes('Indicate');
+
+  const handleWrite = () => {
+    try {
+      onWrite(parseGattValue(input, format), !canWrite);
+    } catch (error) {
+      onLog('error', (error as Error).message);
+    }
+  };
+
+  return (
+    <View style={styles.characteristic}>
+      <ThemedText style={styles.uuid}>{characteristic.uuid}</ThemedText>
+      <View style={styles.propertyRow}>
+        {properties.map((p) => (
+          <ThemedText key={p} style={styles.property}>{p}</ThemedText>
+        ))}
+      </View>
+
+      {characteristic.descriptors.map((d) => (
+        <ThemedText key={d.uuid} style={styles.descriptor}>
+          ↳ {d.uuid}{d.value ? `: ${d.value}` : ''}
+        </ThemedText>
+      ))}
+
+      <ThemedText style={styles.value}>
+        {value ? formatGattValue(value, format) || '(empty)' : '—'}
+      </ThemedText>
+
+      <View style={styles.actionRow}>
+        {canRead && (
+          <Pressable style={styles.actionButton} onPress={onRead} disabled={disabled}>
+            <ThemedText style={styles.actionButtonText}>Read</ThemedText>
+          </Pressable>
+        )}
+        {canNotify && (
+          <Pressable
+            style={[styles.actionButton, isNotifying && styles.actionButtonActive]}
+            onPress={() => onToggleNotify(!isNotifying)}
+            disabled={disabled}
+          >
+            <ThemedText style={styles.actionButtonText}>{isNotifying ? 'Unsubscribe' : 'Subscribe'}</ThemedText>
+          </Pressable>
+        )}
+      </View>
+
+      {(canWrite || canWriteWithoutResponse) && (
+        <View style={styles.writeRow}>
+          <TextInput
+            style={styles.input}
+            value={input}
+            onChangeText={setInput}
+            placeholder={format === 'hex' ? '01 ff' : format === 'decimal' ? '1 255' : 'text'}
+            placeholderTextColor="#777"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Pressable
+            style={[styles.actionButton, styles.writeButton]}
+            onPress={handleWrite}
+            disabled={disabled}
+          >
+            <ThemedText style={styles.actionButtonText}>Write</ThemedText>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  closeButton: {
+    color: '#FF5722',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  formatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  formatChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  formatChipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  formatChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  busyText: {
+    color: '#FF9800',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 'auto',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 12,
+    paddingHorizontal: 16,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.5,
+    marginTop: 20,
+    fontSize: 13,
+  },
+  service: {
+    gap: 8,
+  },
+  serviceLabel: {
+    fontSize: 11,
+    opacity: 0.6,
+    letterSpacing: 0.5,
+  },
+  uuid: {
+    fontSize: 12,
+    fontFamily: monospace,
+  },
+  characteristic: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 8,
+    padding: 12,
+    gap: 6,
+  },
+  propertyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  property: {
+    fontSize: 10,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    backgroundColor: 'rgba(156, 39, 176, 0.2)',
+    overflow: 'hidden',
+  },
+  descriptor: {
+    fontSize: 10,
+    opacity: 0.6,
+    fontFamily: monospace,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: monospace,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  actionButtonActive: {
+    backgroundColor: '#4CAF50',
+  },
+  writeButton: {
+    backgroundColor: '#FF9800',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  writeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#555',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 12,
+    fontFamily: monospace,
+    color: '#888',
+  },
+});
@@ -1,47 +1,103 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { FlatList, Platform, Pressable, StyleSheet, View } from 'react-native';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import { Alert, FlatList, Platform, Pressable, StyleSheet, TextInput, View } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Peripheral } from 'react-native-ble-manager';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useBluetooth } from '../state-machine';
+import {
+  arrangeDiscoveredDevices,
+  BluetoothOffReason,
+  DiscoveredDevice,
+  DiscoverySort,
+  KnownDevice,
+  useBluetooth,
+} from '../state-machine';
+import { DeviceCard, LogType } from './device-card';
+import { KnownDevices } from './known-devices';
+
+const BLUETOOTH_OFF_MESSAGES: Record<BluetoothOffReason, string> = {
+  off: 'Bluetooth is off - turn it on to continue',
+  resetting: 'Bluetooth is restarting...',
+  unauthorized: 'Bluetooth access is not allowed - enable it in Settings',
+  unsupported: 'This device does not support Bluetooth LE',
+};
+
+// What the permissions panel says and offers at each step of the flow
+const PERMISSION_PROMPTS: Record<string, { message: string; action?: string }> = {
+  checking: { message: 'Checking Bluetooth permissions...' },
+  rationale: {
+    message: 'This app uses Bluetooth to find and connect to nearby devices',
+    action: 'Continue',
+  },
+  requesting: { message: 'Waiting for your answer...' },
+  denied: { message: 'Bluetooth permission was denied', action: 'Try again' },
+  blocked: {
+    message: 'Bluetooth permission is turned off - allow it in Settings',
+    action: 'Open settings',
+  },
+};
+
+const SORT_LABELS: Record<DiscoverySort, string> = {
+  rssi: 'Signal',
+  name: 'Name',
+  recency: 'Recent',
+};
+const SORTS = Object.keys(SORT_LABELS) as DiscoverySort[];
+const MIN_RSSI_STEPS = [null, -90, -80, -70, -60];
 
 interface DebugLog {
   id: string;
   timestamp: string;
-  type: 'event' | 'action' | 'error' | 'info' | 'state';
+  type: LogType;
   message: string;
 }
 
 export default function HomeScreen() {
   const [debugLogs, setDebugLogs] = useState<DebugLog[]>([]);
+  const [sortBy, setSortBy] = useState<DiscoverySort>('rssi');
+  const [nameFilter, setNameFilter] = useState('');
+  const [minRssi, setMinRssi] = useState<number | null>(null);
   const debugListRef = useRef<FlatList>(null);
   const prevStateRef = useRef<string>('');
 
   // XState machine hook
   const {
     start,
+    scan,
+    stopScan,
+    setScanSettings,
     selectDevice,
     disconnect,
-    toggleLed,
-    readButton,
-    clearStoredDevice,
+    cancelConnection,
+    readValue,
+    writeValue,
+    retryOperation,
+    clearKnownDevices,
+    renameKnownDevice,
+    setFavourite,
+    setAutoConnect,
+    forgetKnownDevice,
+    requestPermissions,
+    openSettings,
     // State selectors
-    deviceId,
-    deviceName,
-    buttonState,
-    ledState,
     error,
     discoveredDevices,
+    devices,
     isIdle,
     isScanning,
-    isConnecting,
-    isConnected,
+    isScanComplete,
+    isReady,
+    scanSettings,
+    knownDevices,
+    bluetoothOffReason,
+    permissionStep,
+    permissionError,
+    isOpeningSettings,
     currentState,
   } = useBluetooth();
 
-  const addLog = (type: DebugLog['type'], message: string) => {
+  const addLog = useCallback((type: DebugLog['type'], message: string) => {
     const now = new Date();
     const mm = now.getMinutes().toString().padStart(2, '0');
     const ss = now.getSeconds().toString().padStart(2, '0');
@@ -56,7 +112,7 @@ export default function HomeScreen() {
     setTimeout(() => {
       debugListRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  };
+  }, []);
 
   // Log state changes
   useEffect(() => {
@@ -64,14 +120,14 @@ export default function HomeScreen() {
       addLog('state', `State: ${prevStateRef.current || 'initial'} → ${currentState}`);
       prevStateRef.current = currentState;
     }
-  }, [currentState]);
+  }, [currentState, addLog]);
 
   // Log errors
   useEffect(() => {
     if (error) {
       addLog('error', error);
     }
-  }, [error]);
+  }, [error, addLog]);
 
   // Log device discoveries
   useEffect(() => {
@@ -79,156 +135,155 @@ export default function HomeScreen() {
       const latest = discoveredDevices[discoveredDevices.length - 1];
       addLog('event', `Discovered: ${latest.name || latest.id} (RSSI: ${latest.rssi})`);
     }
-  }, [discoveredDevices.length]);
-
-  // Log connection status
-  useEffect(() => {
-    if (isConnected && deviceId) {
-      addLog('info', `✓ Connected to ${deviceId}`);
-    }
-  }, [isConnected, deviceId]);
-
-  // Log button state changes
-  useEffect(() => {
-    if (buttonState !== null) {
-      addLog('event', `📨 Button: ${buttonState ? 'PRESSED' : 'RELEASED'}`);
-    }
-  }, [buttonState]);
+  }, [discoveredDevices.length, addLog]);
 
   const handleStartBLE = () => {
     addLog('action', '▶ Start BLE button pressed');
     start(); // This starts the state machine: idle → init → scanning/connecting
   };
 
+  const handleScan = () => {
+    addLog('action', '▶ Scan pressed');
+    scan();
+  };
+
+  const handleStopScan = () => {
+    addLog('action', '■ Stop scan pressed');
+    stopScan();
+  };
+
+  const handlePermissionAction = () => {
+    if (permissionStep === 'blocked') {
+      addLog('action', '⚙ Open settings pressed');
+      openSettings();
+    } else {
+      addLog('action', '▶ Request permissions pressed');
+      requestPermissions();
+    }
+  };
+
+  const handleToggleFilter = () => {
+    const filterByProfiles = !scanSettings.filterByProfiles;
+    addLog('action', `Scan filter: ${filterByProfiles ? 'supported devices' : 'all devices'}`);
+    setScanSettings({ filterByProfiles });
+  };
+
+  const handleToggleDuration = () => {
+    const duration = scanSettings.duration === 0 ? 10 : 0;
+    addLog('action', `Scan duration: ${duration === 0 ? 'until stopped' : `${duration} s`}`);
+    setScanSettings({ duration });
+  };
+
+  const handleCycleSort = () => {
+    setSortBy(SORTS[(SORTS.indexOf(sortBy) + 1) % SORTS.length]);
+  };
+
+  const handleCycleMinRssi = () => {
+    setMinRssi(MIN_RSSI_STEPS[(MIN_RSSI_STEPS.indexOf(minRssi) + 1) % MIN_RSSI_STEPS.length]);
+  };
+
   const handleSelectDevice = (peripheral: Peripheral) => {
-    if (isConnected || isConnecting) return;
-    
     addLog('action', `▶ Selecting device: ${peripheral.name || peripheral.id}`);
     selectDevice(peripheral.id, peripheral.name);
   };
 
-  const handleDisconnect = () => {
-    addLog('action', '▶ Disconnect pressed');
-    disconnect();
+  const handleDisconnect = (deviceId: string) => {
+    addLog('action', `▶ Disconnect pressed (${deviceId})`);
+    disconnect(deviceId);
   };
 
-  const handleToggleLED = () => {
-    addLog('action', `💡 Toggling LED...`);
-    toggleLed();
+  const handleCancel = (deviceId: string) => {
+    addLog('action', `▶ Cancel pressed (${deviceId})`);
+    cancelConnection(deviceId);
   };
 
-  const handleReadButton = () => {
-    addLog('action', '📖 Reading button state...');
-    readButton();
+  const handleReadValue = (deviceId: string, profileId: string, key: string) => {
+    addLog('action', `📖 Reading ${profileId}.${key} (${deviceId})...`);
+    readValue(deviceId, profileId, key);
+  };
+
+  const handleWriteValue = (deviceId: string, profileId: string, key: string, value: unknown) => {
+    addLog('action', `✏️ Writing ${profileId}.${key} = ${String(value)} (${deviceId})...`);
+    writeValue(deviceId, profileId, key, value);
+  };
+
+  const handleRetryOperation = (deviceId: string) => {
+    addLog('action', `↻ Retrying failed operation (${deviceId})...`);
+    retryOperation(deviceId);
   };
 
   const handleClearLogs = () => {
     setDebugLogs([]);
   };
 
-  const handleClearDevice = () => {
-    addLog('action', '🗑 Clearing stored device...');
-    clearStoredDevice();
+  const handleClearKnownDevices = () => {
+    Alert.alert('Forget all devices?', 'Nicknames, favourites and auto-connect choices are lost.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Forget All',
+        style: 'destructive',
+        onPress: () => {
+          addLog('action', '🗑 Forgetting all known devices...');
+          clearKnownDevices();
+        },
+      },
+    ]);
+  };
+
+  const handleConnectKnown = (device: KnownDevice) => {
+    addLog('action', `▶ Connecting known device: ${device.nickname || device.name || device.id}`);
+    selectDevice(device.id, device.name ?? undefined);
+  };
+
+  const handleRenameKnown = (deviceId: string, nickname: string | null) => {
+    addLog('action', `✎ Renaming ${deviceId} to ${nickname || '(no nickname)'}`);
+    renameKnownDevice(deviceId, nickname);
+  };
+
+  const handleForgetKnown = (deviceId: string) => {
+    addLog('action', `🗑 Forgetting ${deviceId}`);
+    forgetKnownDevice(deviceId);
   };
 
   const isStarted = !isIdle;
-  const connectedDeviceId = isConnected ? deviceId : null;
 
-  // Create device list that includes connected/connecting device even if not discovered
+  // Sorted, filtered device list that always includes connected/connecting devices
   const displayDevices = useMemo(() => {
-    const devices = [...discoveredDevices];
-    
-    // If we have a deviceId (connecting or connected) and it's not in discovered list, add it
-    if (deviceId && (isConnecting || isConnected)) {
-      const exists = devices.find(d => d.id === deviceId);
-      if (!exists) {
-        // Create a placeholder device entry for stored device
-        devices.unshift({
-          id: deviceId,
-          name: deviceName || undefined,
-          rssi: 0,
-          advertising: {},
-        } as Peripheral);
-      }
-    }
-    
-    return devices;
-  }, [discoveredDevices, deviceId, deviceName, isConnecting, isConnected]);
+    const list = arrangeDiscoveredDevices(discoveredDevices, { sortBy, nameFilter, minRssi });
 
-  const renderDevice = ({ item }: { item: Peripheral }) => {
-    const isThisDeviceConnected = connectedDeviceId === item.id;
-    const isThisDeviceConnecting = isConnecting && deviceId === item.id;
-    
-    return (
-      <Pressable onPress={() => handleSelectDevice(item)} style={styles.deviceItem}>
-        <View style={styles.deviceHeader}>
-          <View style={styles.deviceInfo}>
-            <View style={styles.deviceNameRow}>
-              {isThisDeviceConnected && <ThemedText style={styles.connectedIndicator}>●</ThemedText>}
-              <ThemedText style={styles.deviceName}>{item.name || 'Unknown Device'}</ThemedText>
-              {isThisDeviceConnected && <ThemedText style={styles.connectedText}>Connected</ThemedText>}
-              {isThisDeviceConnecting && <ThemedText style={styles.connectingText}>Connecting...</ThemedText>}
-            </View>
-            <ThemedText style={styles.deviceId}>{item.id}</ThemedText>
-          </View>
-          <View style={styles.deviceMeta}>
-            <ThemedText style={styles.rssi}>{item.rssi !== 0 ? `${item.rssi} dBm` : 'Stored'}</ThemedText>
-            {isThisDeviceConnected ? (
-              <Pressable onPress={handleDisconnect}>
-                <ThemedText style={styles.disconnectTextButton}>Disconnect</ThemedText>
-              </Pressable>
-            ) : (
-              <ThemedText style={styles.connectionStatus}>
-                {isThisDeviceConnecting ? '' : 'Tap to connect'}
-              </ThemedText>
-            )}
-          </View>
-        </View>
+    Object.entries(devices).forEach(([deviceId, deviceRef]) => {
+      if (!list.some(d => d.id === deviceId)) {
+        // Keep the discovered entry, or create a placeholder for a stored device
+        list.unshift(
+          discoveredDevices.find(d => d.id === deviceId) ?? {
+            id: deviceId,
+            name: deviceRef.getSnapshot().context.deviceName || undefined,
+            rssi: 0,
+            advertising: {},
+            firstSeen: 0,
+            lastSeen: 0,
+            advertisementCount: 0,
+            smoothedRssi: 0,
+          }
+        );
+      }
+    });
 
-        {isThisDeviceConnected && (
-          <View style={styles.characteristicsContainer}>
-            {/* Button State */}
-            <View style={styles.characteristicRow}>
-              <View style={styles.characteristicInfo}>
-                <ThemedText style={styles.characteristicLabel}>Button</ThemedText>
-                <ThemedText style={[
-                  styles.characteristicValue,
-                  buttonState === true && styles.valueActive
-                ]}>
-                  {buttonState === null ? '...' : buttonState ? '🔵 PRESSED' : '⚪ RELEASED'}
-                </ThemedText>
-              </View>
-              <Pressable 
-                style={styles.characteristicButton}
-                onPress={handleReadButton}
-              >
-                <ThemedText style={styles.characteristicButtonText}>Read</ThemedText>
-              </Pressable>
-            </View>
+    return list;
+  }, [discoveredDevices, devices, sortBy, nameFilter, minRssi]);
 
-            {/* LED State */}
-            <View style={styles.characteristicRow}>
-              <View style={styles.characteristicInfo}>
-                <ThemedText style={styles.characteristicLabel}>LED</ThemedText>
-                <ThemedText style={[
-                  styles.characteristicValue,
-                  ledState && styles.valueActive
-                ]}>
-                  {ledState ? '🟢 ON' : '⚫ OFF'}
-                </ThemedText>
-              </View>
-              <Pressable 
-                style={[styles.characteristicButton, styles.toggleButton]}
-                onPress={handleToggleLED}
-              >
-                <ThemedText style={styles.characteristicButtonText}>Toggle</ThemedText>
-              </Pressable>
-            </View>
-          </View>
-        )}
-      </Pressable>
-    );
-  };
+  const renderDevice = ({ item }: { item: DiscoveredDevice }) => (
+    <DeviceCard
+      peripheral={item}
+      onSelect={handleSelectDevice}
+      onDisconnect={handleDisconnect}
+      onCancel={handleCancel}
+      onReadValue={handleReadValue}
+      onWriteValue={handleWriteValue}
+      onRetryOperation={handleRetryOperation}
+      onLog={addLog}
+    />
+  );
 
   const renderLog = ({ item }: { item: DebugLog }) => {
     const typeColors: Record<string, string> = {
@@ -258,11 +313,84 @@ export default function HomeScreen() {
         <ThemedText style={styles.stateValue}>{currentState.toUpperCase()}</ThemedText>
       </View>
 
+      {/* Adapter banner - what was running resumes once Bluetooth is back */}
+      {bluetoothOffReason && (
+        <View style={styles.bluetoothOffBanner}>
+          <ThemedText style={styles.bluetoothOffText}>
+            {BLUETOOTH_OFF_MESSAGES[bluetoothOffReason]}
+          </ThemedText>
+        </View>
+      )}
+
+      {/* Permissions panel - shown until Bluetooth permissions are granted */}
+      {permissionStep && PERMISSION_PROMPTS[permissionStep] && (
+        <View style={styles.permissionsPanel}>
+          <ThemedText style={styles.permissionsText}>
+            {PERMISSION_PROMPTS[permissionStep].message}
+          </ThemedText>
+          {permissionError && (
+            <ThemedText style={styles.bluetoothOffText}>{permissionError}</ThemedText>
+          )}
+          {PERMISSION_PROMPTS[permissionStep].action && (
+            <Pressable onPress={handlePermissionAction} disabled={isOpeningSettings}>
+              <ThemedText style={styles.scanButton}>
+                {PERMISSION_PROMPTS[permissionStep].action}
+              </ThemedText>
+            </Pressable>
+          )}
+        </View>
+      )}
+
       {/* Devices List - Upper 40% */}
       <ThemedView style={styles.devicesSection}>
         <View style={styles.sectionHeader}>
           <ThemedText style={styles.sectionTitle}>Devices ({displayDevices.length})</ThemedText>
-          {isScanning && <ThemedText style={styles.scanningBadge}>● Scanning</ThemedText>}
+          {isScanning && (
+            <View style={styles.scanControls}>
+              <ThemedText style={styles.scanningBadge}>● Scanning</ThemedText>
+              <Pressable onPress={handleStopScan}>
+                <ThemedText style={styles.clearButton}>Stop</ThemedText>
+              </Pressable>
+            </View>
+          )}
+          {isScanComplete && (
+            <Pressable onPress={handleScan}>
+              <ThemedText style={styles.scanButton}>Scan again</ThemedText>
+            </Pressable>
+          )}
+        </View>
+        {/* Scan settings - applied from the next scan */}
+        <View style={styles.scanSettings}>
+          <Pressable onPress={handleToggleFilter}>
+            <ThemedText style={styles.scanSetting}>
+              {scanSettings.filterByProfiles ? 'Supported devices' : 'All devices'}
+            </ThemedText>
+          </Pressable>
+          <Pressable onPress={handleToggleDuration}>
+            <ThemedText style={styles.scanSetting}>
+              {scanSettings.duration === 0 ? 'Until stopped' : `${scanSettings.duration} s scan`}
+            </ThemedText>
+          </Pressable>
+        </View>
+        {/* Sort and filter - only changes what is shown */}
+        <View style={styles.scanSettings}>
+          <TextInput
+            style={styles.filterInput}
+            value={nameFilter}
+            onChangeText={setNameFilter}
+            placeholder="Filter by name"
+            placeholderTextColor="#777"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Pressable onPress={handleCycleSort}>
+            <ThemedText style={styles.scanSetting}>Sort: {SORT_LABELS[sortBy]}</ThemedText>
+          </Pressable>
+          <Pressable onPress={handleCycleMinRssi}>
+            <ThemedText style={styles.scanSetting}>
+              {minRssi === null ? 'Any signal' : `≥ ${minRssi} dBm`}
+            </ThemedText>
+          </Pressable>
         </View>
         <FlatList
           data={displayDevices}
@@ -272,7 +400,9 @@ export default function HomeScreen() {
           ListEmptyComponent={
             <ThemedText style={styles.emptyText}>
               {isScanning 
-                ? 'Searching for LBS devices...' 
+                ? scanSettings.filterByProfiles
+                  ? 'Searching for supported devices...'
+                  : 'Searching for devices...'
                 : isIdle 
                   ? 'Press "Start BLE" to begin' 
                   : 'No devices found.'}
@@ -281,6 +411,18 @@ export default function HomeScreen() {
         />
       </ThemedView>
 
+      {/* Known devices - remembered across launches */}
+      <KnownDevices
+        devices={knownDevices}
+        activeIds={Object.keys(devices)}
+        canConnect={isScanning || isScanComplete || isReady}
+        onConnect={handleConnectKnown}
+        onRename={handleRenameKnown}
+        onSetFavourite={setFavourite}
+        onSetAutoConnect={setAutoConnect}
+        onForget={handleForgetKnown}
+      />
+
       {/* Buttons */}
       <View style={styles.buttonsSection}>
         <Pressable 
@@ -295,9 +437,9 @@ export default function HomeScreen() {
         
         <Pressable 
           style={styles.clearDeviceButton} 
-          onPress={handleClearDevice}
+          onPress={handleClearKnownDevices}
         >
-          <ThemedText style={styles.clearDeviceButtonText}>Clear Device</ThemedText>
+          <ThemedText style={styles.clearDeviceButtonText}>Forget All</ThemedText>
         </Pressable>
       </View>
 
@@ -345,6 +487,27 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#9C27B0',
   },
+  bluetoothOffBanner: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(244, 67, 54, 0.2)',
+  },
+  bluetoothOffText: {
+    fontSize: 13,
+    textAlign: 'center',
+    color: '#F44336',
+  },
+  permissionsPanel: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    gap: 6,
+    backgroundColor: 'rgba(33, 150, 243, 0.15)',
+  },
+  permissionsText: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
   devicesSection: {
     flex: 4,
     borderBottomWidth: 1,
@@ -381,115 +544,44 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
-  list: {
-    flex: 1,
-  },
-  deviceItem: {
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: '#333',
-  },
-  deviceHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-  },
-  deviceInfo: {
-    flex: 1,
-  },
-  deviceNameRow: {
+  scanControls: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 6,
+    gap: 12,
   },
-  connectedIndicator: {
-    color: '#4CAF50',
-    fontSize: 12,
-  },
-  deviceName: {
+  scanButton: {
+    color: '#2196F3',
     fontSize: 14,
     fontWeight: '600',
   },
-  connectedText: {
-    color: '#4CAF50',
-    fontSize: 11,
-    fontWeight: '600',
-    marginLeft: 8,
-  },
-  connectingText: {
-    color: '#FF9800',
-    fontSize: 11,
-    fontWeight: '600',
-    marginLeft: 8,
-  },
-  deviceId: {
-    fontSize: 11,
-    opacity: 0.6,
-    marginTop: 2,
-  },
-  deviceMeta: {
-    alignItems: 'flex-end',
+  scanSettings: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
   },
-  rssi: {
+  filterInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#444',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
     fontSize: 12,
-    opacity: 0.8,
-    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#888',
   },
-  connectionStatus: {
-    fontSize: 10,
-    opacity: 0.5,
-    marginTop: 2,
-  },
-  disconnectTextButton: {
-    color: '#F44336',
+  scanSetting: {
     fontSize: 12,
-    fontWeight: '600',
-    marginTop: 2,
-  },
-  characteristicsContainer: {
-    marginTop: 12,
-    backgroundColor: 'rgba(255,255,255,0.05)',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
     borderRadius: 8,
-    padding: 12,
-    gap: 10,
-  },
-  characteristicRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#444',
+    opacity: 0.8,
   },
-  characteristicInfo: {
+  list: {
     flex: 1,
   },
-  characteristicLabel: {
-    fontSize: 11,
-    opacity: 0.6,
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-  characteristicValue: {
-    fontSize: 14,
-    fontWeight: '600',
-    marginTop: 2,
-  },
-  valueActive: {
-    color: '#4CAF50',
-  },
-  characteristicButton: {
-    backgroundColor: '#007AFF',
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 6,
-  },
-  toggleButton: {
-    backgroundColor: '#FF9800',
-  },
-  characteristicButtonText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: '600',
-  },
   button: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 24,
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { KnownDevice, knownDeviceLabel, sortKnownDevices } from '../state-machine';
+
+const formatLastConnected = (time: number | null) =>
+  time === null ? 'never connected' : `last ${new Date(time).toLocaleString()}`;
+
+interface KnownDevicesProps {
+  devices: KnownDevice[];
+  /** Ids of devices with a running connection actor */
+  activeIds: string[];
+  canConnect: boolean;
+  onConnect: (device: KnownDevice) => void;
+  onRename: (deviceId: string, nickname: string | null) => void;
+  onSetFavourite: (deviceId: string, favourite: boolean) => void;
+  onSetAutoConnect: (deviceId: string, autoConnect: boolean) => void;
+  onForget: (deviceId: string) => void;
+}
+
+/**
+ * Known-device registry - favourites first, with rename, favourite, auto-connect and forget
+ */
+export function KnownDevices({
+  devices,
+  activeIds,
+  canConnect,
+  onConnect,
+  onRename,
+  onSetFavourite,
+  onSetAutoConnect,
+  onForget,
+}: KnownDevicesProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+  const sorted = useMemo(() => sortKnownDevices(devices), [devices]);
+
+  const startRename = (device: KnownDevice) => {
+    setEditingId(device.id);
+    setNickname(device.nickname ?? '');
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, nickname);
+    setEditingId(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable onPress={() => setExpanded(!expanded)} style={styles.header}>
+        <ThemedText style={styles.title}>Known devices ({devices.length})</ThemedText>
+        <ThemedText style={styles.toggle}>{expanded ? '▲' : '▼'}</ThemedText>
+      </Pressable>
+      {expanded &&
+        sorted.map((device) => (
+          <View key={device.id} style={styles.row}>
+            <View style={styles.details}>
+              {editingId === device.id ? (
+                <TextInput
+                  style={styles.nicknameInput}
+                  value={nickname}
+                  onChangeText={setNickname}
+                  onSubmitEditing={finishRename}
+                  onBlur={finishRename}
+                  placeholder={device.name ?? 'Nickname'}
+                  placeholderTextColor="#777"
+                  autoFocus
+                />
+              ) : (
+                <Pressable onPress={() => startRename(device)}>
+                  <ThemedText style={styles.name}>
+                    {knownDeviceLabel(device) ?? device.id}
+                  </ThemedText>
+                </Pressable>
+              )}
+              <ThemedText style={styles.meta}>
+                {device.connectionCount} connections, {formatLastConnected(device.lastConnected)}
+              </ThemedText>
+            </View>
+            <View style={styles.actions}>
+              <Pressable onPress={() => onSetFavourite(device.id, !device.favourite)}>
+                <ThemedText style={styles.action}>{device.favourite ? '★' : '☆'}</ThemedText>
+              </Pressable>
+              <Pressable onPress={() => onSetAutoConnect(device.id, !device.autoConnect)}>
+                <ThemedText style={[styles.action, !device.autoConnect && styles.actionOff]}>
+                  Auto
+                </ThemedText>
+              </Pressable>
+              {canConnect && !activeIds.includes(device.id) && (
+                <Pressable onPress={() => onConnect(device)}>
+                  <ThemedText style={styles.action}>Connect</ThemedText>
+                </Pressable>
+              )}
+              <Pressable onPress={() => onForget(device.id)}>
+                <ThemedText style={styles.forget}>Forget</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        ))}
+      {expanded && devices.length === 0 && (
+        <ThemedText style={styles.meta}>Devices you connect to are remembered here</ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    gap: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  toggle: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  nicknameInput: {
+    fontSize: 13,
+    color: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#2196F3',
+    paddingVertical: 2,
+  },
+  meta: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  action: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  actionOff: {
+    opacity: 0.4,
+  },
+  forget: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+});
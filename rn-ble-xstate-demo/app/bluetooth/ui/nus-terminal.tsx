@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, Platform, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LineEnding, useBleDevice, useBleTerminal, useBluetooth } from '../state-machine';
+import { LogType } from './device-card';
+
+const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  none: 'None',
+  lf: 'LF',
+  cr: 'CR',
+  crlf: 'CRLF',
+};
+
+interface NusTerminalProps {
+  deviceId: string;
+  visible: boolean;
+  onClose: () => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+/**
+ * Full-screen Nordic UART terminal - scrollback of TX notifications and a line editor for RX
+ */
+export function NusTerminal({ deviceId, visible, onClose, onLog }: NusTerminalProps) {
+  const [input, setInput] = useState('');
+  // Position while browsing send history - null when editing a new line
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
+  const { deviceName } = useBleDevice(deviceId);
+  const { status, lines, partial, history, lineEnding, error, isSending } =
+    useBleTerminal(deviceId);
+  const { openTerminal, closeTerminal, sendTerminal, setLineEnding, clearTerminal } =
+    useBluetooth();
+
+  // Log terminal errors
+  useEffect(() => {
+    if (error) {
+      onLog('error', `Terminal: ${error}`);
+    }
+  }, [error, onLog]);
+
+  // TX is only subscribed while the screen is shown
+  const handleClose = () => {
+    closeTerminal(deviceId);
+    onClose();
+  };
+
+  const handleSend = () => {
+    sendTerminal(deviceId, input);
+    setInput('');
+    setHistoryIndex(null);
+  };
+
+  const recall = (direction: -1 | 1) => {
+    if (history.length === 0) return;
+    const start = historyIndex ?? history.length;
+    const next = Math.min(Math.max(start + direction, 0), history.length);
+    setHistoryIndex(next === history.length ? null : next);
+    setInput(next === history.length ? '' : history[next]);
+  };
+
+  const isOpen = status === 'open';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onShow={() => openTerminal(deviceId)}
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <View>
+              <ThemedText style={styles.title}>UART Terminal</ThemedText>
+              <ThemedText style={styles.subtitle}>
+                {deviceName || deviceId} · {status}
+              </ThemedText>
+            </View>
+            <View style={styles.headerActions}>
+              <Pressable onPress={() => clearTerminal(deviceId)}>
+                <ThemedText style={styles.clearButton}>Clear</ThemedText>
+              </Pressable>
+              <Pressable onPress={handleClose}>
+                <ThemedText style={styles.closeButton}>Close</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+
+          <View style={styles.lineEndingRow}>
+            {(Object.keys(LINE_ENDING_LABELS) as LineEnding[]).map((ending) => (
+              <Pressable
+                key={ending}
+                style={[styles.chip, lineEnding === ending && styles.chipActive]}
+                onPress={() => setLineEnding(deviceId, ending)}
+              >
+                <ThemedText style={styles.chipText}>{LINE_ENDING_LABELS[ending]}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+
+          <ScrollView
+            ref={scrollRef}
+            style={styles.scrollback}
+            contentContainerStyle={styles.scrollbackContent}
+            onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+          >
+            {lines.map((line) => (
+              <ThemedText key={line.id} style={[styles.line, line.direction === 'tx' && styles.txLine]}>
+                {line.direction === 'tx' ? '> ' : ''}
+                {line.text}
+              </ThemedText>
+            ))}
+            {partial !== '' && <ThemedText style={styles.line}>{partial}</ThemedText>}
+          </ScrollView>
+
+          <View style={styles.inputRow}>
+            <Pressable style={styles.historyButton} onPress={() => recall(-1)}>
+              <ThemedText style={styles.historyButtonText}>↑</ThemedText>
+            </Pressable>
+            <Pressable style={styles.historyButton} onPress={() => recall(1)}>
+              <ThemedText style={styles.historyButtonText}>↓</ThemedText>
+            </Pressable>
+            <TextInput
+              style={styles.input}
+              value={input}
+              onChangeText={setInput}
+              onSubmitEditing={handleSend}
+              placeholder={isOpen ? 'Send to device' : 'Opening...'}
+              placeholderTextColor="#777"
+              autoCapitalize="none"
+              autoCorrect={false}
+              blurOnSubmit={false}
+            />
+            <Pressable
+              style={[styles.sendButton, (!isOpen || isSending) && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={!isOpen || isSending}
+            >
+              <ThemedText style={styles.sendButtonText}>Send</ThemedText>
+            </Pressable>
+          </View>
+        </ThemedView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  clearButton: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  closeButton: {
+    color: '#FF5722',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lineEndingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 12,
+    paddingHorizontal: 16,
+  },
+  scrollback: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  scrollbackContent: {
+    padding: 12,
+  },
+  line: {
+    fontSize: 12,
+    fontFamily: monospace,
+    color: '#4CAF50',
+  },
+  txLine: {
+    color: '#FF9800',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#222',
+  },
+  historyButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  historyButtonText: {
+    fontSize: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#555',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 12,
+    fontFamily: monospace,
+    color: '#888',
+  },
+  sendButton: {
+    backgroundColor: '#FF9800',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
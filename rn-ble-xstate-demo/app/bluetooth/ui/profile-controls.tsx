@@ -0,0 +1,220 @@
+import React, { useEffect } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { DeviceProfile, findProfile, ProfileCharacteristic, ProfileValues } from '../profiles';
+import {
+  DeviceContext,
+  findGattCharacteristic,
+  GattService,
+  OperationError,
+  pendingKey,
+} from '../state-machine';
+import { LogType } from './device-card';
+
+interface ProfileControlsProps {
+  deviceLabel: string;
+  profileIds: string[];
+  values: ProfileValues;
+  pendingWrites: DeviceContext['pendingWrites'];
+  services: GattService[];
+  operationError: OperationError | null;
+  onReadValue: (profileId: string, key: string) => void;
+  onWriteValue: (profileId: string, key: string, value: unknown) => void;
+  onRetry: () => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+/**
+ * Renders the controls declared by each profile matched on the device
+ */
+export function ProfileControls({
+  deviceLabel,
+  profileIds,
+  values,
+  pendingWrites,
+  services,
+  operationError,
+  onReadValue,
+  onWriteValue,
+  onRetry,
+  onLog,
+}: ProfileControlsProps) {
+  const profiles = profileIds
+    .map((id) => findProfile(id))
+    .filter((p): p is DeviceProfile => p !== undefined);
+
+  return (
+    <>
+      {profiles.flatMap((profile) =>
+        profile.characteristics
+          .filter((c) => c.controls?.length || c.subscribe || c.readOnConnect)
+          .filter((c) => findGattCharacteristic(services, profile.serviceUUID, c.uuid))
+          .map((characteristic) => (
+            <ProfileValueRow
+              key={`${profile.id}.${characteristic.key}`}
+              deviceLabel={deviceLabel}
+              characteristic={characteristic}
+              value={values[profile.id]?.[characteristic.key]}
+              isPending={pendingKey(profile.id, characteristic.key) in pendingWrites}
+              error={
+                operationError?.profileId === profile.id &&
+                operationError.key === characteristic.key
+                  ? operationError.error
+                  : null
+              }
+              onRead={() => onReadValue(profile.id, characteristic.key)}
+              onWrite={(value) => onWriteValue(profile.id, characteristic.key, value)}
+              onRetry={onRetry}
+              onLog={onLog}
+            />
+          ))
+      )}
+    </>
+  );
+}
+
+interface ProfileValueRowProps {
+  deviceLabel: string;
+  characteristic: ProfileCharacteristic;
+  value: unknown;
+  /** Written but not yet acknowledged by the device */
+  isPending: boolean;
+  /** Last failed read/write of this value */
+  error: string | null;
+  onRead: () => void;
+  onWrite: (value: unknown) => void;
+  onRetry: () => void;
+  onLog: (type: LogType, message: string) => void;
+}
+
+function ProfileValueRow({
+  deviceLabel,
+  characteristic,
+  value,
+  isPending,
+  error,
+  onRead,
+  onWrite,
+  onRetry,
+  onLog,
+}: ProfileValueRowProps) {
+  // Write-only characteristics (control points) render their buttons but no value
+  const isObservable =
+    characteristic.subscribe ||
+    characteristic.readOnConnect ||
+    characteristic.controls?.includes('read');
+  const display =
+    value === undefined
+      ? '...'
+      : characteristic.format
+        ? characteristic.format(value)
+        : String(value);
+
+  // Log notified value changes
+  useEffect(() => {
+    if (characteristic.subscribe && value !== undefined) {
+      onLog('event', `📨 ${deviceLabel} ${characteristic.label}: ${display}`);
+    }
+  }, [characteristic, value, display, deviceLabel, onLog]);
+
+  return (
+    <View style={styles.characteristicRow}>
+      <View style={styles.characteristicInfo}>
+        <ThemedText style={styles.characteristicLabel}>{characteristic.label}</ThemedText>
+        {isObservable && (
+          <ThemedText
+            style={[
+              styles.characteristicValue,
+              value === true && styles.valueActive,
+              isPending && styles.valuePending,
+            ]}
+          >
+            {display}
+            {isPending && ' ⏳'}
+          </ThemedText>
+        )}
+        {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+      </View>
+      {error && (
+        <Pressable style={[styles.characteristicButton, styles.retryButton]} onPress={onRetry}>
+          <ThemedText style={styles.characteristicButtonText}>Retry</ThemedText>
+        </Pressable>
+      )}
+      {characteristic.controls?.includes('read') && (
+        <Pressable style={styles.characteristicButton} onPress={onRead}>
+          <ThemedText style={styles.characteristicButtonText}>Read</ThemedText>
+        </Pressable>
+      )}
+      {characteristic.controls?.includes('toggle') && (
+        <Pressable
+          style={[styles.characteristicButton, styles.toggleButton]}
+          onPress={() => onWrite(!value)}
+        >
+          <ThemedText style={styles.characteristicButtonText}>Toggle</ThemedText>
+        </Pressable>
+      )}
+      {characteristic.controls?.map((control) =>
+        typeof control === 'object' ? (
+          <Pressable
+            key={control.label}
+            style={[styles.characteristicButton, styles.toggleButton]}
+            onPress={() => onWrite(control.value)}
+          >
+            <ThemedText style={styles.characteristicButtonText}>{control.label}</ThemedText>
+          </Pressable>
+        ) : null
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  characteristicRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  characteristicInfo: {
+    flex: 1,
+  },
+  characteristicLabel: {
+    fontSize: 11,
+    opacity: 0.6,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  characteristicValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  valueActive: {
+    color: '#4CAF50',
+  },
+  valuePending: {
+    opacity: 0.5,
+  },
+  characteristicButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  toggleButton: {
+    backgroundColor: '#FF9800',
+  },
+  retryButton: {
+    backgroundColor: '#F44336',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  characteristicButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { RssiSample } from '../state-machine';
+
+// Range drawn by the sparkline, in dBm - weaker or stronger readings are clamped
+const MIN_RSSI = -100;
+const MAX_RSSI = -30;
+const HEIGHT = 24;
+
+const barColor = (rssi: number) => (rssi >= -65 ? '#4CAF50' : rssi >= -80 ? '#FF9800' : '#F44336');
+
+interface RssiSparklineProps {
+  history: RssiSample[];
+}
+
+/**
+ * Smoothed signal strength over the device's RSSI history, oldest on the left
+ */
+export function RssiSparkline({ history }: RssiSparklineProps) {
+  if (history.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {history.map((sample) => {
+        const level =
+          (Math.min(MAX_RSSI, Math.max(MIN_RSSI, sample.smoothed)) - MIN_RSSI) /
+          (MAX_RSSI - MIN_RSSI);
+        return (
+          <View
+            key={sample.time}
+            style={[
+              styles.bar,
+              {
+                height: Math.max(1, Math.round(level * HEIGHT)),
+                backgroundColor: barColor(sample.smoothed),
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: HEIGHT,
+    gap: 1,
+    marginTop: 4,
+  },
+  bar: {
+    width: 2,
+    borderRadius: 1,
+  },
+});
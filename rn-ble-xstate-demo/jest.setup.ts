@@ -0,0 +1,9 @@
+// Native modules are unavailable under Jest - the machine runs against the simulated transport
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// The app's singleton actor listens for adapter state changes from the moment it starts
+jest.mock('react-native-ble-manager', () => ({
+  __esModule: true,
+  default: { onDidUpdateState: () => ({ remove: () => {} }) },
+}));